@@ -0,0 +1,148 @@
+// @ts-check
+// Script of the Gitingest file picker webview. The tree is embedded in the page by `src/picker_panel.ts`.
+
+/* global acquireVsCodeApi */
+/**
+ * Provided by the webview host, callable once per page. Declaring it keeps the value set by the host.
+ * @type {() => { postMessage(message: unknown): void, getState(): any, setState(state: unknown): void }}
+ */
+var acquireVsCodeApi;
+
+(function () {
+    const vscode = acquireVsCodeApi();
+    const data = JSON.parse(document.getElementById('picker-data')?.textContent || '{}');
+    const tree = data.tree;
+
+    /** Every file of the tree, in digest order */
+    const files = [];
+    collectFiles(tree, files);
+
+    // Restore the checked files when the panel is shown again, otherwise start with everything checked
+    const state = vscode.getState();
+    const checked = new Set(state ? state.checked : files.map(file => file.path));
+
+    /** Checkbox and stats element of every node, keyed by path */
+    const elements = new Map();
+
+    const root_list = document.getElementById('tree');
+    root_list?.appendChild(renderNode(tree));
+    update();
+
+    document.getElementById('check-all')?.addEventListener('click', () => setChecked(tree, true));
+    document.getElementById('check-none')?.addEventListener('click', () => setChecked(tree, false));
+    document.getElementById('export')?.addEventListener('click', () => post('export'));
+    document.getElementById('save-include')?.addEventListener('click', () => post('saveInclude'));
+    document.getElementById('save-ignore')?.addEventListener('click', () => post('saveIgnore'));
+
+    function collectFiles(node, result) {
+        if (node.type === 'file') {
+            result.push(node);
+        } else {
+            node.children.forEach(child => collectFiles(child, result));
+        }
+    }
+
+    function renderNode(node) {
+        const item = document.createElement('li');
+        item.className = node.type;
+
+        const row = document.createElement('div');
+        row.className = 'row';
+
+        const caret = document.createElement('span');
+        caret.className = 'caret';
+        if (node.type === 'directory') {
+            caret.textContent = '▾';
+            caret.addEventListener('click', () => {
+                item.classList.toggle('collapsed');
+                caret.textContent = item.classList.contains('collapsed') ? '▸' : '▾';
+            });
+        }
+        row.appendChild(caret);
+
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.addEventListener('change', () => setChecked(node, checkbox.checked));
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(node.type === 'directory' ? node.name + '/' : node.name));
+        row.appendChild(label);
+
+        const stats = document.createElement('span');
+        stats.className = 'stats';
+        row.appendChild(stats);
+
+        item.appendChild(row);
+        elements.set(node, { checkbox, stats });
+
+        if (node.type === 'directory') {
+            const list = document.createElement('ul');
+            node.children.forEach(child => list.appendChild(renderNode(child)));
+            item.appendChild(list);
+        }
+        return item;
+    }
+
+    function setChecked(node, value) {
+        const node_files = [];
+        collectFiles(node, node_files);
+        node_files.forEach(file => value ? checked.add(file.path) : checked.delete(file.path));
+        vscode.setState({ checked: Array.from(checked) });
+        update();
+    }
+
+    /** Refresh the checkboxes, the directory stats and the running total */
+    function update() {
+        const totals = updateNode(tree);
+        const total = document.getElementById('total');
+        if (total) {
+            total.textContent = `${totals.files} of ${files.length} files checked: ` +
+                `${formatTokens(totals.tokens)} tokens (${data.tokenizer}), ${formatSize(totals.size)}`;
+        }
+    }
+
+    function updateNode(node) {
+        const { checkbox, stats } = elements.get(node);
+
+        if (node.type === 'file') {
+            const is_checked = checked.has(node.path);
+            checkbox.checked = is_checked;
+            stats.textContent = `${formatTokens(node.tokens)} tokens, ${formatSize(node.size)}`;
+            return { files: is_checked ? 1 : 0, total_files: 1, tokens: is_checked ? node.tokens : 0, size: is_checked ? node.size : 0 };
+        }
+
+        const totals = { files: 0, total_files: 0, tokens: 0, size: 0 };
+        for (const child of node.children) {
+            const child_totals = updateNode(child);
+            totals.files += child_totals.files;
+            totals.total_files += child_totals.total_files;
+            totals.tokens += child_totals.tokens;
+            totals.size += child_totals.size;
+        }
+
+        checkbox.checked = totals.total_files > 0 && totals.files === totals.total_files;
+        checkbox.indeterminate = totals.files > 0 && totals.files < totals.total_files;
+        stats.textContent = totals.files === totals.total_files ?
+            `${formatTokens(node.tokens)} tokens, ${formatSize(node.size)}` :
+            `${formatTokens(totals.tokens)} of ${formatTokens(node.tokens)} tokens, ${formatSize(totals.size)} of ${formatSize(node.size)}`;
+        return totals;
+    }
+
+    function post(type) {
+        vscode.postMessage({ type, checked: Array.from(checked) });
+    }
+
+    function formatTokens(tokens) {
+        return tokens.toLocaleString('en-US');
+    }
+
+    function formatSize(size) {
+        if (size < 1024) {
+            return `${size} B`;
+        }
+        if (size < 1024 * 1024) {
+            return `${(size / 1024).toFixed(1)} KB`;
+        }
+        return `${(size / 1024 / 1024).toFixed(1)} MB`;
+    }
+})();
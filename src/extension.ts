@@ -1,45 +1,725 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
 import * as path from 'path';
-import { ingestQuery } from './gitingest/ingestion';
-import { parseLocalDirPath, parseRemoteRepo } from './gitingest/query_parsing';
+import { buildDocumentTree, buildFileSystemTree, ingestQuery, ingestQueryChunks, loadContents } from './gitingest/ingestion';
+import { parseGitSource, parseLocalDirPath, parseRemoteRepo } from './gitingest/query_parsing';
 import { applyPatterns } from './gitingest/query_parsing';
 import { clone } from './gitingest';
-import { extractCloneConfig } from './gitingest/types/ingestion_schema';
+import { IngestionCancelledError } from './gitingest/errors/exceptions';
+import { createDigest, formatChunks, formatNode, getOutputFileExtension } from './gitingest/output_formatters';
+import { DiffQuery, WorkingTreeChanges } from './gitingest/types/diff_schema';
+import { FileSystemNodeType, InMemoryFile } from './gitingest/types/filesystem_schema';
+import {
+    DigestChunk,
+    IngestionControl,
+    IngestionQuery,
+    OutputFormat,
+    createIngestionQuery,
+    extractCloneConfig
+} from './gitingest/types/ingestion_schema';
+import { expandOutputPath, getChunkFilePath, getTempOutputPath, removeChunkFiles } from './gitingest/utils/path_utils';
+import { openContentCache } from './gitingest/utils/content_cache_utils';
+import { createGitContextQuery } from './gitingest/utils/git_context_utils';
+import { createUnpushedDiff, createWorkingTreeDiff, findRepositoryRoot } from './gitingest/utils/git_diff_utils';
+import { loadGitHostsFile, registerGitHost, resetGitHosts } from './gitingest/utils/git_host_utils';
+import { resolveGitSource } from './gitingest/utils/git_source_utils';
+import { describeProgress } from './gitingest/utils/progress_utils';
+import { watchQuery, writeDigestFile } from './gitingest/watching';
+import { openPickerPanel } from './picker_panel';
+
+/** Where a digest is delivered: a new editor, the clipboard or a file in the workspace */
+type OutputTarget = 'editor' | 'clipboard' | 'file';
+
+/** Changes of a Git repository ingested from the Source Control view */
+type ScmChanges = 'staged' | 'unstaged' | 'unpushed';
+
+/** Default of the `gitingest.outputPath` setting */
+const DEFAULT_OUTPUT_PATH = 'digests/${repo}-${date}';
+
+/** Minimum delay in milliseconds between two updates of the progress notification */
+const PROGRESS_INTERVAL = 100;
+
+/** Directory of the content cache of local directories, in the global storage of the extension */
+let content_cache_dir: string | undefined;
+
+/**
+ * A digest file kept up to date while its folder changes
+ */
+interface AutoRegeneration {
+    /** Aborted to stop watching the folder */
+    controller: AbortController;
+    /** Status bar item showing that the digest is kept up to date, which stops it when clicked */
+    status: vscode.StatusBarItem;
+}
+
+/** The running auto-regeneration, if any */
+let auto_regeneration: AutoRegeneration | undefined;
+
+/**
+ * Return the value of a setting the user has set, in the user, workspace or folder settings.
+ *
+ * The defaults are left out, so that the `.gitingest` file of the ingested directory may replace them.
+ */
+function getUserSetting<T>(config: vscode.WorkspaceConfiguration, section: string): T | undefined {
+    const inspected = config.inspect<T>(section);
+    return inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+}
 
 /**
- * Ingest a local directory or Git repository and show results
+ * Apply the user preferences from the extension settings to a query
  */
-async function ingest_async(query_str: string, is_local: boolean): Promise<void> {
+function applySettings(query: IngestionQuery, selected_paths?: string[]): IngestionQuery {
+    // Get user preferences for ignore/include patterns
+    const config = vscode.workspace.getConfiguration('gitingest');
+    const maxFileSize = getUserSetting<number>(config, 'maxFileSize') || 0;
+    const ignorePatterns = config.get<string[]>('ignorePatterns') || [];
+    const includePatterns = config.get<string[]>('includePatterns') || [];
+    const tokenizer = getUserSetting<string>(config, 'tokenizer');
+    const maxTokens = config.get<number>('maxTokens') || 0;
+    const outputFormat = getUserSetting<OutputFormat>(config, 'outputFormat');
+    const chunkTokens = config.get<number>('chunkTokens') || 0;
+    const chunkBytes = config.get<number>('chunkBytes') || 0;
+    const useGitignore = config.get<boolean>('useGitignore') ?? true;
+
+    // Clones go to a new temporary directory each time, so only local directories are worth caching
+    if (!query.url && (config.get<boolean>('useCache') ?? true)) {
+        query.cache_dir = content_cache_dir;
+        query.max_cache_size = config.get<number>('maxCacheSize') || query.max_cache_size;
+    }
+
+    const gitLogCount = config.get<number>('gitLogCount') || 0;
+    const fileHistory = config.get<boolean>('fileHistory') ?? false;
+    if (config.get<boolean>('gitContext') || gitLogCount || fileHistory) {
+        query.git_context = createGitContextQuery({ log_count: gitLogCount, file_history: fileHistory });
+    }
+
+    return applyPatterns(query, {
+        max_file_size: maxFileSize,
+        ignore_patterns: ignorePatterns,
+        include_patterns: includePatterns,
+        tokenizer,
+        max_tokens: maxTokens,
+        output_format: outputFormat,
+        chunk_tokens: chunkTokens,
+        chunk_bytes: chunkBytes,
+        use_gitignore: useGitignore,
+        selected_paths
+    });
+}
+
+/**
+ * Register the self-hosted Git hosts of the hosts file and of the extension settings, which may have changed since
+ * the last ingestion
+ */
+async function registerGitHosts(): Promise<void> {
+    resetGitHosts();
+    await loadGitHostsFile();
+
+    const gitHosts = vscode.workspace.getConfiguration('gitingest').get<Record<string, string>>('gitHosts') || {};
+    for (const [host, flavor] of Object.entries(gitHosts)) {
+        registerGitHost(host, flavor);
+    }
+}
+
+/**
+ * Ingest a local directory or Git repository and show results, or only the changes of a diff
+ */
+async function ingest_async(
+    query_str: string,
+    is_local: boolean,
+    selected_paths?: string[],
+    diff?: DiffQuery
+): Promise<void> {
+    const target = await pickOutputTarget();
+    if (!target) {
+        return;
+    }
+
     try {
-        // Parse query based on type
+        if (!is_local) {
+            await registerGitHosts();
+        }
+
+        // Parse query based on type: ssh and file URLs and bare repositories are cloned as they are
+        const git_source = is_local ? undefined : await resolveGitSource(query_str);
         const query = is_local ?
             parseLocalDirPath(query_str) :
-            await parseRemoteRepo(query_str);
-
-        // Get user preferences for ignore/include patterns
-        const config = vscode.workspace.getConfiguration('gitingest');
-        const maxFileSize = config.get<number>('maxFileSize') || 0;
-        const ignorePatterns = config.get<string[]>('ignorePatterns') || [];
-        const includePatterns = config.get<string[]>('includePatterns') || [];
+            git_source ? parseGitSource(git_source) : await parseRemoteRepo(query_str);
 
         // Apply user preferences
-        const finalQuery = applyPatterns(query, {
-            max_file_size: maxFileSize,
-            ignore_patterns: ignorePatterns,
-            include_patterns: includePatterns
+        const finalQuery = applySettings(query, selected_paths);
+        finalQuery.diff = diff;
+        const chunked = Boolean(finalQuery.chunk_tokens || finalQuery.chunk_bytes);
+
+        // The contents are read while formatting, so the clone is only removed once the digest is built
+        const result = await withIngestionProgress(`Ingesting ${finalQuery.slug}`, async control => {
+            try {
+                if (!is_local) {
+                    let clone_config = extractCloneConfig(finalQuery);
+                    await clone(clone_config, control);
+                }
+
+                return chunked ?
+                    await ingestQueryChunks(finalQuery, control) :
+                    await ingestQuery(finalQuery, control);
+            } finally {
+                if (!is_local) {
+                    await removeClone(finalQuery);
+                }
+            }
         });
 
-        if (!is_local) {
-            let clone_config = extractCloneConfig(finalQuery);
-            await clone(clone_config);
+        if (chunked) {
+            await deliverChunks(query_str, finalQuery, result as DigestChunk[], target);
+            return;
+        }
+
+        await deliverDigest(query_str, finalQuery, result as [string, string, string], target);
+    } catch (error) {
+        showIngestionError(error);
+    }
+}
+
+/**
+ * Run an ingestion step in a progress notification with a Cancel button
+ * 
+ * Pressing Cancel aborts the signal of the control, which kills a running git process and stops the traversal.
+ */
+async function withIngestionProgress<T>(title: string, task: (control: IngestionControl) => Promise<T>): Promise<T> {
+    return vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Gitingest: ${title}`, cancellable: true },
+        async (progress, token) => {
+            const controller = new AbortController();
+            const subscription = token.onCancellationRequested(() => controller.abort());
+            let last_update = 0;
+
+            try {
+                return await task({
+                    signal: controller.signal,
+                    on_progress: report => {
+                        const now = Date.now();
+                        if (now - last_update >= PROGRESS_INTERVAL) {
+                            last_update = now;
+                            progress.report({ message: describeProgress(report) });
+                        }
+                    }
+                });
+            } finally {
+                subscription.dispose();
+            }
+        }
+    );
+}
+
+/**
+ * Remove the temporary directory of a cloned repository
+ */
+async function removeClone(query: IngestionQuery): Promise<void> {
+    try {
+        // The clone lives in a directory of its own under the temporary base path
+        await fs.rm(path.dirname(query.local_path), { recursive: true, force: true });
+    } catch (error) {
+        console.warn(`Failed to clean up temporary directory: ${error}`);
+    }
+}
+
+/**
+ * Show the error of a failed ingestion, or a short message if it was cancelled
+ */
+function showIngestionError(error: unknown): void {
+    if (error instanceof IngestionCancelledError) {
+        vscode.window.showInformationMessage('Gitingest: Ingestion cancelled');
+        return;
+    }
+    vscode.window.showErrorMessage(`Ingestion failed: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+/**
+ * Build a digest from in-memory files, such as open editors, and show results
+ * 
+ * The files are laid out under the first workspace folder, and their content is used instead of what is on disk, so
+ * unsaved changes are part of the digest. Patterns do not apply, since the files were picked explicitly.
+ */
+async function ingestDocuments(title: string, files: InMemoryFile[]): Promise<void> {
+    if (files.length === 0) {
+        vscode.window.showInformationMessage('There are no open text editors to ingest');
+        return;
+    }
+
+    const target = await pickOutputTarget();
+    if (!target) {
+        return;
+    }
+
+    try {
+        const root = vscode.workspace.workspaceFolders?.[0];
+        const query = applySettings(createIngestionQuery({
+            local_path: root ? root.uri.fsPath : '',
+            slug: vscode.workspace.name || 'editors'
+        }));
+        const node = buildDocumentTree(query.slug, query.local_path, files);
+
+        if (query.chunk_tokens || query.chunk_bytes) {
+            await deliverChunks(title, query, formatChunks(node, query), target);
+            return;
+        }
+
+        await deliverDigest(title, query, formatNode(node, query), target);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Ingestion failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Read the text documents shown in a list of tabs, including their unsaved changes
+ */
+async function readTabs(tabs: readonly vscode.Tab[]): Promise<InMemoryFile[]> {
+    const files: InMemoryFile[] = [];
+    const seen = new Set<string>();
+
+    for (const tab of tabs) {
+        if (!(tab.input instanceof vscode.TabInputText) || seen.has(tab.input.uri.toString())) {
+            continue;
+        }
+        seen.add(tab.input.uri.toString());
+
+        // Returns the open document, with its unsaved changes, rather than reading the file again
+        const document = await vscode.workspace.openTextDocument(tab.input.uri);
+        files.push({ path_str: getDocumentPath(document), path: document.fileName, content: document.getText() });
+    }
+
+    return files;
+}
+
+/**
+ * Read the non-empty selections of a text editor, each labelled with its line range
+ */
+function readSelections(editor: vscode.TextEditor): InMemoryFile[] {
+    return editor.selections
+        .filter(selection => !selection.isEmpty)
+        .sort((a, b) => a.start.compareTo(b.start))
+        .map(selection => {
+            // A selection ending at the start of a line does not include that line
+            const last_line = selection.end.character === 0 && selection.end.line > selection.start.line ?
+                selection.end.line :
+                selection.end.line + 1;
+            return {
+                path_str: getDocumentPath(editor.document),
+                path: editor.document.fileName,
+                content: editor.document.getText(selection),
+                label: `lines ${selection.start.line + 1}-${last_line}`
+            };
+        });
+}
+
+/**
+ * Return the path of a document relative to its workspace folder, or its file name outside of the workspace
+ */
+function getDocumentPath(document: vscode.TextDocument): string {
+    const multi_root = (vscode.workspace.workspaceFolders?.length || 0) > 1;
+    return vscode.workspace.asRelativePath(document.uri, multi_root).split(path.sep).join('/');
+}
+
+/**
+ * Open the file picker on a local directory, to check the files to export with live token totals
+ */
+async function openPicker(extension_uri: vscode.Uri, folder: string): Promise<void> {
+    try {
+        const query = applySettings(parseLocalDirPath(folder));
+
+        await withIngestionProgress(`Reading ${query.slug}`, async control => {
+            const root = await buildFileSystemTree(query, control);
+            if (root.type !== FileSystemNodeType.DIRECTORY) {
+                throw new Error(`${folder} is not a directory`);
+            }
+            // The picker counts the tokens of every file
+            const cache = await openContentCache(query);
+            await loadContents(root, query, control, cache);
+
+            openPickerPanel(extension_uri, query, root, {
+                exportSelection: selection => ingest_async(folder, true, selection.selected_paths),
+                savePatterns: (kind, patterns) => savePatterns(kind, patterns)
+            });
+            await cache?.save(root);
+        });
+    } catch (error) {
+        showIngestionError(error);
+    }
+}
+
+/**
+ * Save patterns from the file picker to the settings
+ * 
+ * Include patterns replace the configured ones, since they describe the whole selection, while ignore patterns are
+ * added to the configured ones.
+ */
+async function savePatterns(kind: 'include' | 'ignore', patterns: string[]): Promise<void> {
+    const config = vscode.workspace.getConfiguration('gitingest');
+    const target = vscode.workspace.workspaceFolders ?
+        vscode.ConfigurationTarget.Workspace :
+        vscode.ConfigurationTarget.Global;
+
+    if (kind === 'include') {
+        await config.update('includePatterns', patterns, target);
+    } else {
+        if (patterns.length === 0) {
+            vscode.window.showInformationMessage('Every file is checked, there is nothing to ignore');
+            return;
+        }
+        const existing = (config.get<string[]>('ignorePatterns') || []).filter(pattern => !patterns.includes(pattern));
+        await config.update('ignorePatterns', [...existing, ...patterns], target);
+    }
+
+    const scope = target === vscode.ConfigurationTarget.Workspace ? 'workspace' : 'user';
+    vscode.window.showInformationMessage(`Saved ${patterns.length} ${kind} patterns to the ${scope} settings`);
+}
+
+/**
+ * Ask for a folder to work on, by default to open the file picker on: the only workspace folder, one of the workspace
+ * folders or any folder
+ */
+async function pickFolder(
+    place_holder: string = 'Select a folder to pick files from',
+    title: string = 'Select Directory to Pick Files From'
+): Promise<string | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 1) {
+        return folders[0].uri.fsPath;
+    }
+    if (folders.length > 1) {
+        return (await vscode.window.showWorkspaceFolderPick({ placeHolder: place_holder }))?.uri.fsPath;
+    }
+
+    const result = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        title
+    });
+    return result?.[0]?.fsPath;
+}
+
+/**
+ * Start keeping the digest file of a folder up to date, or stop it if it is running
+ * 
+ * The digest is written to the `gitingest.outputPath` file and rewritten each time the folder changes. Changes to
+ * ignored files are skipped, and edits to `.gitingest` and `.gitignore` files re-evaluate which files are ingested.
+ * Chunk sizes do not apply: the digest is always written to a single file.
+ */
+async function toggleAutoRegeneration(): Promise<void> {
+    if (auto_regeneration) {
+        auto_regeneration.controller.abort();
+        auto_regeneration = undefined;
+        vscode.window.showInformationMessage('Gitingest: Stopped auto-regenerating the digest');
+        return;
+    }
+
+    const folder = await pickFolder(
+        'Select a folder to keep the digest of up to date',
+        'Select Directory to Keep the Digest Of Up to Date'
+    );
+    if (!folder) {
+        return;
+    }
+
+    try {
+        const query = applySettings(parseLocalDirPath(folder));
+        const output_path = resolveOutputPath(query);
+        const relative_path = vscode.workspace.asRelativePath(output_path);
+        await fs.mkdir(path.dirname(output_path), { recursive: true });
+
+        const controller = new AbortController();
+        const status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        status.text = `$(sync) Gitingest: ${query.slug}`;
+        status.tooltip = `Keeping ${relative_path} up to date. Click to stop`;
+        status.command = 'gitingest.toggleAutoRegeneration';
+        status.show();
+        auto_regeneration = { controller, status };
+
+        const watching = watchQuery(query, (run_query, control) => writeDigestFile(run_query, output_path, control), {
+            signal: controller.signal,
+            ignored_paths: [output_path, getTempOutputPath(output_path)],
+            on_update: () => {
+                status.tooltip = `${relative_path} updated at ${new Date().toLocaleTimeString()}. Click to stop`;
+            },
+            on_error: error => showIngestionError(error)
+        });
+        watching.catch(showIngestionError).finally(() => {
+            status.dispose();
+            if (auto_regeneration?.controller === controller) {
+                auto_regeneration = undefined;
+            }
+        });
+
+        vscode.window.showInformationMessage(`Gitingest: Keeping ${relative_path} up to date`);
+    } catch (error) {
+        showIngestionError(error);
+    }
+}
+
+/**
+ * Ingest the staged or unstaged changes, or the unpushed commits, of a Git repository
+ * 
+ * Each changed file is ingested with its patch and its current content. The repository is the one of the source
+ * control or resource group the command was run on in the Source Control view, or is asked for otherwise.
+ */
+async function ingestScmChanges(
+    changes: ScmChanges,
+    source?: vscode.SourceControl | vscode.SourceControlResourceGroup
+): Promise<void> {
+    const directory = getScmDirectory(source) ?? await pickFolder(
+        'Select a folder of the Git repository',
+        'Select a Folder of the Git Repository'
+    );
+    if (!directory) {
+        return;
+    }
+
+    let root: string;
+    try {
+        root = await findRepositoryRoot(directory);
+    } catch (error) {
+        showIngestionError(error);
+        return;
+    }
+
+    const diff = changes === 'unpushed' ?
+        createUnpushedDiff() :
+        createWorkingTreeDiff(changes === 'staged' ? WorkingTreeChanges.STAGED : WorkingTreeChanges.UNSTAGED);
+    await ingest_async(root, true, undefined, diff);
+}
+
+/**
+ * Return a directory of the repository of a source control or resource group of the Source Control view
+ */
+function getScmDirectory(source?: vscode.SourceControl | vscode.SourceControlResourceGroup): string | undefined {
+    if (source && 'rootUri' in source && source.rootUri) {
+        return source.rootUri.fsPath;
+    }
+    const resource = source && 'resourceStates' in source ? source.resourceStates[0] : undefined;
+    return resource && path.dirname(resource.resourceUri.fsPath);
+}
+
+/**
+ * Ingest the files and folders selected in the Explorer as one digest, rooted at their workspace folder
+ */
+async function ingestSelection(uris: vscode.Uri[]): Promise<void> {
+    const folders = new Set(uris.map(uri => vscode.workspace.getWorkspaceFolder(uri)));
+    if (folders.has(undefined)) {
+        vscode.window.showErrorMessage('Only files and folders of the open workspace can be ingested');
+        return;
+    }
+    if (folders.size !== 1) {
+        vscode.window.showErrorMessage('The selected files and folders must belong to the same workspace folder');
+        return;
+    }
+
+    const root = Array.from(folders)[0]!.uri.fsPath;
+    const selected_paths = uris.map(uri => path.relative(root, uri.fsPath).split(path.sep).join('/'));
+    await ingest_async(root, true, selected_paths);
+}
+
+/**
+ * Return the output target from the settings, asking the user when the setting is 'ask'
+ */
+async function pickOutputTarget(): Promise<OutputTarget | undefined> {
+    const config = vscode.workspace.getConfiguration('gitingest');
+    const setting = config.get<string>('outputTarget') || 'editor';
+    if (setting !== 'ask') {
+        return setting as OutputTarget;
+    }
+
+    const items: (vscode.QuickPickItem & { target: OutputTarget })[] = [
+        { label: 'Open in Editor', target: 'editor' },
+        { label: 'Copy to Clipboard', target: 'clipboard' },
+        { label: 'Save to File', description: config.get<string>('outputPath') || DEFAULT_OUTPUT_PATH, target: 'file' }
+    ];
+    const selected = await vscode.window.showQuickPick(items, { title: 'Gitingest', placeHolder: 'Where should the digest go?' });
+    return selected?.target;
+}
+
+/**
+ * Deliver a digest to the output target, with a notification offering to open or copy it
+ */
+async function deliverDigest(
+    title: string,
+    query: IngestionQuery,
+    [summary, structure, contents]: [string, string, string],
+    target: OutputTarget
+): Promise<void> {
+    const openResult = async () => {
+        const doc = await vscode.workspace.openTextDocument(
+            createResultDocument(title, query.output_format, summary, structure, contents)
+        );
+        await vscode.window.showTextDocument(doc, { preview: false });
+    };
+
+    if (target === 'editor') {
+        await openResult();
+        return;
+    }
+
+    // The clipboard and files get the same digest as the output file of the CLI
+    const digest = createDigest(query.output_format, summary, structure, contents);
+
+    if (target === 'clipboard') {
+        await vscode.env.clipboard.writeText(digest);
+        const action = await vscode.window.showInformationMessage(`Digest of ${title} copied to the clipboard`, 'Open');
+        if (action === 'Open') {
+            await openResult();
         }
+        return;
+    }
 
-        // Run ingestion
-        const [summary, structure, contents] = await ingestQuery(finalQuery);
+    const output_path = resolveOutputPath(query);
+    await fs.mkdir(path.dirname(output_path), { recursive: true });
+    await fs.writeFile(output_path, digest, 'utf-8');
 
-        // Create output document
-        const doc = await vscode.workspace.openTextDocument({
-            content: `Ingestion Results for ${query_str}
+    const action = await vscode.window.showInformationMessage(
+        `Digest of ${title} saved to ${vscode.workspace.asRelativePath(output_path)}`,
+        'Open',
+        'Copy'
+    );
+    if (action === 'Open') {
+        await vscode.window.showTextDocument(vscode.Uri.file(output_path), { preview: false });
+    } else if (action === 'Copy') {
+        await vscode.env.clipboard.writeText(digest);
+    }
+}
+
+/**
+ * Deliver the chunks of a digest to the output target
+ * 
+ * Parts are opened or copied one at a time from a picker, while the file target writes every part next to the
+ * output path, e.g. 'digest.part-001.txt'.
+ */
+async function deliverChunks(
+    title: string,
+    query: IngestionQuery,
+    chunks: DigestChunk[],
+    target: OutputTarget
+): Promise<void> {
+    if (target !== 'file') {
+        await showChunks(chunks, query.output_format, target === 'clipboard' ? 'copy' : 'open');
+        return;
+    }
+
+    const output_path = resolveOutputPath(query);
+    await fs.mkdir(path.dirname(output_path), { recursive: true });
+    await removeChunkFiles(output_path);
+    for (const chunk of chunks) {
+        await fs.writeFile(getChunkFilePath(output_path, chunk.part), chunk.content, 'utf-8');
+    }
+
+    const action = await vscode.window.showInformationMessage(
+        `Digest of ${title} saved in ${chunks.length} parts to ${vscode.workspace.asRelativePath(getChunkFilePath(output_path, 1))}`,
+        'Open',
+        'Copy'
+    );
+    if (action) {
+        await showChunks(chunks, query.output_format, action === 'Copy' ? 'copy' : 'open');
+    }
+}
+
+/**
+ * Return the absolute path of the output file for a query, from the `gitingest.outputPath` setting
+ * 
+ * `${repo}` is replaced by the slug of the query and `${date}` by the current date (YYYY-MM-DD). The extension of the
+ * output format is added when the setting has none, and relative paths are resolved against the first workspace
+ * folder.
+ */
+function resolveOutputPath(query: IngestionQuery): string {
+    const template = vscode.workspace.getConfiguration('gitingest').get<string>('outputPath') || DEFAULT_OUTPUT_PATH;
+
+    const now = new Date();
+    const date = [
+        now.getFullYear(),
+        String(now.getMonth() + 1).padStart(2, '0'),
+        String(now.getDate()).padStart(2, '0')
+    ].join('-');
+
+    let output_path = expandOutputPath(template, { repo: query.slug, date });
+    if (!path.extname(template)) {
+        output_path += getOutputFileExtension(query.output_format);
+    }
+    if (path.isAbsolute(output_path)) {
+        return output_path;
+    }
+
+    const root = vscode.workspace.workspaceFolders?.[0];
+    if (!root) {
+        throw new Error('Saving a digest to a relative gitingest.outputPath requires an open workspace folder');
+    }
+    return path.join(root.uri.fsPath, output_path);
+}
+
+/**
+ * Let the user page through the chunks of a digest, opening each selected part in a new document or copying it to the
+ * clipboard
+ */
+async function showChunks(chunks: DigestChunk[], format: OutputFormat, action: 'open' | 'copy' = 'open'): Promise<void> {
+    const language = format === OutputFormat.TEXT ? 'plaintext' : format;
+    const items = chunks.map(chunk => ({
+        label: `Part ${chunk.part} of ${chunk.total}`,
+        description: `${chunk.tokens} tokens, ${chunk.bytes} bytes`,
+        detail: chunk.files.join(', '),
+        chunk
+    }));
+    const options = {
+        title: action === 'copy' ? 'Copy digest part' : 'Open digest part',
+        placeHolder: action === 'copy' ? 'Select a part to copy to the clipboard' : 'Select a part to open'
+    };
+
+    let selected = await vscode.window.showQuickPick(items, options);
+    while (selected) {
+        if (action === 'copy') {
+            await vscode.env.clipboard.writeText(selected.chunk.content);
+            vscode.window.setStatusBarMessage(`Copied digest part ${selected.chunk.part} of ${selected.chunk.total}`, 3000);
+        } else {
+            const doc = await vscode.workspace.openTextDocument({ content: selected.chunk.content, language });
+            await vscode.window.showTextDocument(doc, { preview: false });
+        }
+
+        // Offer the next part first, so the parts can be handled one after the other
+        const next = items.slice(selected.chunk.part).concat(items.slice(0, selected.chunk.part));
+        selected = await vscode.window.showQuickPick(next, options);
+    }
+}
+
+/**
+ * Build the content and language of the document showing the ingestion results
+ */
+function createResultDocument(
+    query_str: string,
+    format: OutputFormat,
+    summary: string,
+    structure: string,
+    contents: string
+): { content: string; language: string } {
+    if (format === OutputFormat.JSON || format === OutputFormat.XML) {
+        return { content: createDigest(format, summary, structure, contents), language: format };
+    }
+
+    if (format === OutputFormat.MARKDOWN) {
+        return {
+            content: `# Ingestion Results for ${query_str}
+
+## Summary
+
+\`\`\`text
+${summary}
+\`\`\`
+
+${structure}
+## File Contents
+
+${contents}`,
+            language: 'markdown'
+        };
+    }
+
+    return {
+        content: `Ingestion Results for ${query_str}
 Summary
 ${summary}\n
 
@@ -47,13 +727,8 @@ ${structure}
 
 File Contents\n
 ${contents}`,
-            // language: 'markdown'
-        });
-
-        await vscode.window.showTextDocument(doc, { preview: false });
-    } catch (error) {
-        vscode.window.showErrorMessage(`Ingestion failed: ${error instanceof Error ? error.message : String(error)}`);
-    }
+        language: 'plaintext'
+    };
 }
 
 /**
@@ -61,6 +736,7 @@ ${contents}`,
  */
 export function activate(context: vscode.ExtensionContext) {
     console.log('Gitingest extension is now active');
+    content_cache_dir = vscode.Uri.joinPath(context.globalStorageUri, 'cache').fsPath;
 
     // Register command to ingest local directory
     let ingestLocal = vscode.commands.registerCommand('gitingest.ingestLocal', async () => {
@@ -80,7 +756,7 @@ export function activate(context: vscode.ExtensionContext) {
     let ingestGit = vscode.commands.registerCommand('gitingest.ingestGit', async () => {
         const repoUrl = await vscode.window.showInputBox({
             prompt: 'Enter Git repository URL',
-            placeHolder: 'e.g., https://github.com/username/repo'
+            placeHolder: 'e.g., https://github.com/username/repo, git@github.com:username/repo.git or a bare repository path'
         });
 
         if (repoUrl) {
@@ -88,7 +764,90 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    context.subscriptions.push(ingestLocal, ingestGit);
+    // Register command to ingest the files and folders selected in the Explorer
+    let ingestSelected = vscode.commands.registerCommand(
+        'gitingest.ingestSelection',
+        async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            // The Explorer passes the clicked item and the whole selection, which includes it
+            const selection = uris && uris.length > 0 ? uris : uri ? [uri] : [];
+            if (selection.length === 0) {
+                vscode.window.showInformationMessage('Select files or folders in the Explorer to ingest them');
+                return;
+            }
+            await ingestSelection(selection);
+        }
+    );
+
+    // Register commands to ingest the open editors, the editors of the active group and the editor selection
+    let ingestOpenEditors = vscode.commands.registerCommand('gitingest.ingestOpenEditors', async () => {
+        const tabs = vscode.window.tabGroups.all.flatMap(group => group.tabs);
+        await ingestDocuments('open editors', await readTabs(tabs));
+    });
+
+    let ingestEditorGroup = vscode.commands.registerCommand('gitingest.ingestEditorGroup', async () => {
+        await ingestDocuments('active editor group', await readTabs(vscode.window.tabGroups.activeTabGroup.tabs));
+    });
+
+    let ingestEditorSelection = vscode.commands.registerCommand('gitingest.ingestEditorSelection', async () => {
+        const editor = vscode.window.activeTextEditor;
+        const files = editor ? readSelections(editor) : [];
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('Select some text in an editor to ingest it');
+            return;
+        }
+        await ingestDocuments(`selection of ${files[0].path_str}`, files);
+    });
+
+    // Register command to pick the files to export in a webview
+    let pickFiles = vscode.commands.registerCommand('gitingest.pickFiles', async (uri?: vscode.Uri) => {
+        const folder = uri ? uri.fsPath : await pickFolder();
+        if (folder) {
+            await openPicker(context.extensionUri, folder);
+        }
+    });
+
+    // Register command to keep a digest file up to date while its folder changes
+    let toggleAutoRegenerate = vscode.commands.registerCommand('gitingest.toggleAutoRegeneration', async () => {
+        await toggleAutoRegeneration();
+    });
+
+    // Register commands to ingest the changes of a Git repository from the Source Control view
+    // The Source Control view passes the source control or the resource group the command was run on
+    let ingestStagedChanges = vscode.commands.registerCommand(
+        'gitingest.ingestStagedChanges',
+        async (source?: vscode.SourceControl | vscode.SourceControlResourceGroup) => {
+            await ingestScmChanges('staged', source);
+        }
+    );
+
+    let ingestUnstagedChanges = vscode.commands.registerCommand(
+        'gitingest.ingestUnstagedChanges',
+        async (source?: vscode.SourceControl | vscode.SourceControlResourceGroup) => {
+            await ingestScmChanges('unstaged', source);
+        }
+    );
+
+    let ingestUnpushedCommits = vscode.commands.registerCommand(
+        'gitingest.ingestUnpushedCommits',
+        async (source?: vscode.SourceControl) => {
+            await ingestScmChanges('unpushed', source);
+        }
+    );
+
+    context.subscriptions.push(
+        ingestLocal,
+        ingestGit,
+        ingestSelected,
+        ingestOpenEditors,
+        ingestEditorGroup,
+        ingestEditorSelection,
+        pickFiles,
+        toggleAutoRegenerate,
+        ingestStagedChanges,
+        ingestUnstagedChanges,
+        ingestUnpushedCommits,
+        { dispose: () => auto_regeneration?.controller.abort() }
+    );
 }
 
 /**
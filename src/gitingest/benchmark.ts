@@ -0,0 +1,107 @@
+/**
+ * Benchmark of the ingestion of a generated repository, comparing sequential and concurrent file reads.
+ *
+ * Usage: node out/gitingest/benchmark.js [file count] [file size in bytes]
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MAX_CONCURRENT_IO } from './config';
+import { ingestQuery } from './ingestion';
+import { createIngestionQuery } from './types/ingestion_schema';
+
+/** Number of files generated when none is given */
+const DEFAULT_FILE_COUNT = 2000;
+
+/** Size in bytes of each generated file when none is given */
+const DEFAULT_FILE_SIZE = 2048;
+
+/** Number of files per generated directory */
+const FILES_PER_DIRECTORY = 100;
+
+/** Number of timed runs for each concurrency, after one warm-up run */
+const RUNS = 3;
+
+/**
+ * Generate a repository of text files spread over several directories.
+ *
+ * @param root_path - The directory to fill
+ * @param file_count - The number of files
+ * @param file_size - The size in bytes of each file
+ */
+async function generateRepository(root_path: string, file_count: number, file_size: number): Promise<void> {
+    const line = 'export const value = "lorem ipsum dolor sit amet";\n';
+    const content = line.repeat(Math.ceil(file_size / line.length)).slice(0, file_size);
+
+    for (let index = 0; index < file_count; index++) {
+        const directory = path.join(root_path, `dir_${Math.floor(index / FILES_PER_DIRECTORY)}`);
+        if (index % FILES_PER_DIRECTORY === 0) {
+            await fs.mkdir(directory);
+        }
+        await fs.writeFile(path.join(directory, `file_${index}.ts`), content);
+    }
+}
+
+/**
+ * Ingest the repository several times and return the median duration.
+ *
+ * @param root_path - The repository to ingest
+ * @param max_concurrent_io - The maximum number of concurrent file operations
+ * @param file_count - The number of files, so that no limit of the query cuts the ingestion short
+ * @returns The median duration in milliseconds
+ */
+async function timeIngestion(root_path: string, max_concurrent_io: number, file_count: number): Promise<number> {
+    const durations: number[] = [];
+
+    for (let run = 0; run <= RUNS; run++) {
+        const query = createIngestionQuery({
+            local_path: root_path,
+            slug: 'benchmark',
+            max_concurrent_io,
+            max_files: file_count + 1,
+            max_total_size: Number.MAX_SAFE_INTEGER
+        });
+        const started = process.hrtime.bigint();
+        // The ingestion logs every file it processes, which would dominate the timings in a terminal
+        const log = console.log;
+        console.log = () => {};
+        try {
+            await ingestQuery(query);
+        } finally {
+            console.log = log;
+        }
+        // The first run warms the caches of the file system and is not counted
+        if (run > 0) {
+            durations.push(Number(process.hrtime.bigint() - started) / 1e6);
+        }
+    }
+
+    durations.sort((a, b) => a - b);
+    return durations[Math.floor(durations.length / 2)];
+}
+
+async function main(): Promise<void> {
+    const file_count = parseInt(process.argv[2] ?? '', 10) || DEFAULT_FILE_COUNT;
+    const file_size = parseInt(process.argv[3] ?? '', 10) || DEFAULT_FILE_SIZE;
+    const root_path = await fs.mkdtemp(path.join(os.tmpdir(), 'gitingest-benchmark-'));
+
+    try {
+        console.log(`Generating ${file_count} files of ${file_size} bytes in ${root_path}`);
+        await generateRepository(root_path, file_count, file_size);
+
+        for (const max_concurrent_io of [1, MAX_CONCURRENT_IO]) {
+            const duration = await timeIngestion(root_path, max_concurrent_io, file_count);
+            console.log(`max_concurrent_io=${max_concurrent_io}: ${duration.toFixed(0)} ms (median of ${RUNS} runs)`);
+        }
+    } finally {
+        await fs.rm(root_path, { recursive: true, force: true });
+    }
+}
+
+if (require.main === module) {
+    main().catch(error => {
+        console.error(error);
+        process.exit(1);
+    });
+}
@@ -2,20 +2,98 @@
  * Command-line interface for the Gitingest package.
  */
 
-import { Command } from 'commander';
-import { MAX_FILE_SIZE, OUTPUT_FILE_NAME } from './config';
-import { ingestAsync } from './entrypoint';
+import { WriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { finished } from 'stream/promises';
+import { Command, Option } from 'commander';
+import {
+    CACHE_DIR,
+    DEFAULT_TOKENIZER,
+    GIT_HISTORY_DEPTH,
+    GIT_HOSTS_FILE,
+    MAX_CACHE_SIZE,
+    MAX_FILE_SIZE,
+    OUTPUT_FILE_NAME
+} from './config';
+import { ingestChunksAsync, ingestStreamAsync, watchAsync } from './entrypoint';
+import { IngestionCancelledError } from './errors/exceptions';
+import { getOutputFileExtension } from './output_formatters';
+import { IngestionProgress, IngestionQuery, OutputFormat } from './types/ingestion_schema';
+import { loadGitHostsFile, parseGitHostSpec, registerGitHost } from './utils/git_host_utils';
+import { getChunkFilePath, getTempOutputPath, resolveOutputPath } from './utils/path_utils';
+import { describeProgress } from './utils/progress_utils';
+import { listTokenizers } from './utils/tokenizer_utils';
 
 const program = new Command();
 
+/** Minimum delay in milliseconds between two updates of the progress line */
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * A single line of the terminal, rewritten in place with the progress of the ingestion.
+ */
+interface ProgressLine {
+    /** Show a progress report, unless the line was updated less than `PROGRESS_INTERVAL` ago */
+    update(progress: IngestionProgress): void;
+    /** Erase the line */
+    clear(): void;
+}
+
+/**
+ * Create the progress line of the command, written to standard error.
+ * 
+ * Nothing is written when standard error is not a terminal, so that logs and redirected output stay clean.
+ * 
+ * @returns The progress line
+ */
+function createProgressLine(): ProgressLine {
+    const stream = process.stderr;
+    let last_update = 0;
+    let shown = false;
+
+    return {
+        update(progress) {
+            const now = Date.now();
+            if (!stream.isTTY || now - last_update < PROGRESS_INTERVAL) {
+                return;
+            }
+            last_update = now;
+            shown = true;
+            const width = Math.max(1, (stream.columns || 80) - 1);
+            stream.write(`\r\x1b[K${describeProgress(progress).slice(0, width)}`);
+        },
+        clear() {
+            if (shown) {
+                stream.write('\r\x1b[K');
+                shown = false;
+            }
+        },
+    };
+}
+
+/**
+ * Return the default path of the output file: the output file name, with the extension of the output format.
+ * 
+ * @param format - The output format of the digest
+ * @returns The path, in the current directory
+ */
+function getDefaultOutputPath(format: OutputFormat): string {
+    return path.parse(OUTPUT_FILE_NAME).name + getOutputFileExtension(format);
+}
+
 /**
  * Analyze a directory or repository and create a text dump of its contents.
  * 
  * This command analyzes the contents of a specified source directory or repository, applies custom include and
  * exclude patterns, and generates a text summary of the analysis which is then written to an output file.
+ * The progress is shown on a line of the terminal, and Ctrl+C cancels the ingestion and removes the temporary clone.
+ * In watch mode, the output file is rewritten each time the directory changes, until Ctrl+C.
  * 
  * @param source - The source directory or repository to analyze
- * @param options - Command line options including output path, max size, patterns, and branch
+ * @param options - Command line options including output path, max size, patterns, branch, tokenizer, token budget,
+ *                  format, chunk size, whether to honor .gitignore files, the content cache settings, watch mode,
+ *                  diff range, pull request diff, git context and self-hosted Git hosts
  */
 async function asyncMain(
     source: string,
@@ -25,48 +103,239 @@ async function asyncMain(
         excludePattern?: string[];
         includePattern?: string[];
         branch?: string;
+        tokenizer?: string;
+        maxTokens?: number;
+        format?: OutputFormat;
+        chunkTokens?: number;
+        chunkBytes?: number;
+        gitignore?: boolean;
+        cache?: boolean;
+        cacheDir?: string;
+        maxCacheSize?: number;
+        watch?: boolean;
+        diff?: string;
+        diffContent?: boolean;
+        prDiff?: boolean;
+        gitContext?: boolean;
+        gitLog?: number;
+        gitLogPath?: boolean;
+        fileHistory?: boolean;
+        historyDepth?: number;
+        gitHost?: string[];
+        gitHostsFile?: string;
     }
 ): Promise<void> {
+    const progress_line = createProgressLine();
+    const controller = new AbortController();
+    const cancel = () => {
+        if (controller.signal.aborted) {
+            // A second Ctrl+C exits without waiting for the cleanup
+            process.exit(130);
+        }
+        controller.abort();
+    };
+    process.on('SIGINT', cancel);
+
     try {
+        // Register the self-hosted services before the source URL is parsed
+        await loadGitHostsFile(options.gitHostsFile);
+        for (const spec of options.gitHost || []) {
+            registerGitHost(...parseGitHostSpec(spec));
+        }
+
         // Combine default and custom ignore patterns
         const exclude_patterns = new Set(options.excludePattern || []);
         const include_patterns = new Set(options.includePattern || []);
-        const output = options.output || OUTPUT_FILE_NAME;
-
-        const [summary] = await ingestAsync(
-            source,
-            options.maxSize || MAX_FILE_SIZE,
-            include_patterns,
-            exclude_patterns,
-            options.branch,
-            output
-        );
-
-        console.log(`Analysis complete! Output written to: ${output}`);
+        // Without an output path, the file is named after the output format, which the .gitingest file may set
+        let output_path = options.output;
+        const output = options.output || ((query: IngestionQuery) => {
+            output_path = getDefaultOutputPath(query.output_format);
+            return output_path;
+        });
+
+        const ingest_options = {
+            tokenizer: options.tokenizer,
+            max_tokens: options.maxTokens,
+            output_format: options.format,
+            chunk_tokens: options.chunkTokens,
+            chunk_bytes: options.chunkBytes,
+            use_gitignore: options.gitignore,
+            cache_dir: options.cache === false ? undefined : options.cacheDir || CACHE_DIR,
+            max_cache_size: options.maxCacheSize,
+            diff: options.diff,
+            diff_content: options.diffContent,
+            pull_request_diff: options.prDiff,
+            git_context: options.gitContext,
+            git_log: options.gitLog,
+            git_log_per_path: options.gitLogPath,
+            file_history: options.fileHistory,
+            history_depth: options.historyDepth,
+            signal: controller.signal,
+            on_progress: (progress: IngestionProgress) => progress_line.update(progress)
+        };
+
+        if (options.chunkTokens || options.chunkBytes) {
+            const chunks = await ingestChunksAsync(
+                source,
+                options.maxSize,
+                include_patterns,
+                exclude_patterns,
+                options.branch,
+                output,
+                ingest_options
+            );
+            progress_line.clear();
+
+            console.log(`Analysis complete! Output written to ${chunks.length} chunk(s):`);
+            for (const chunk of chunks) {
+                console.log(`  ${getChunkFilePath(output_path!, chunk.part)} (${chunk.tokens} tokens, ${chunk.bytes} bytes)`);
+            }
+            return;
+        }
+
+        if (options.watch) {
+            console.log(`Watching ${source} (press Ctrl+C to stop)`);
+            // Each digest may change the default output path, so none of the candidates is ingested
+            const default_paths = Object.values(OutputFormat).map(format => getDefaultOutputPath(format));
+            await watchAsync(
+                source,
+                output,
+                options.maxSize,
+                include_patterns,
+                exclude_patterns,
+                {
+                    ...ingest_options,
+                    ignored_paths: options.output ? [] : [...default_paths, ...default_paths.map(getTempOutputPath)],
+                    on_update: summary => {
+                        progress_line.clear();
+                        const tokens = /^Tokens: .*$/m.exec(summary);
+                        console.log(
+                            `[${new Date().toLocaleTimeString()}] Digest written to ${output_path}${tokens ? `. ${tokens[0]}` : ''}`
+                        );
+                    },
+                    on_error: error => {
+                        progress_line.clear();
+                        console.error(`[${new Date().toLocaleTimeString()}] Error: ${error}`);
+                    }
+                }
+            );
+            progress_line.clear();
+            console.log("Stopped watching");
+            return;
+        }
+
+        // Stream the digest to the file, so that large repositories are never held in memory
+        let stream: WriteStream | undefined;
+        let summary: string;
+        try {
+            summary = await ingestStreamAsync(
+                source,
+                async query => {
+                    stream = (await fs.open(resolveOutputPath(output, query), 'w')).createWriteStream({ encoding: 'utf-8' });
+                    return stream;
+                },
+                options.maxSize,
+                include_patterns,
+                exclude_patterns,
+                options.branch,
+                ingest_options
+            );
+        } catch (error) {
+            // Do not leave a partial digest behind
+            if (stream) {
+                stream.destroy();
+                await fs.rm(output_path!, { force: true });
+            }
+            throw error;
+        }
+        stream!.end();
+        await finished(stream!);
+        progress_line.clear();
+
+        console.log(`Analysis complete! Output written to: ${output_path}`);
         console.log("\nSummary:");
         console.log(summary);
     } catch (exc) {
+        progress_line.clear();
+        if (exc instanceof IngestionCancelledError) {
+            console.error("Cancelled");
+            process.exit(130);
+        }
         console.error(`Error: ${exc}`);
         process.exit(1);
+    } finally {
+        process.off('SIGINT', cancel);
     }
 }
 
 program
     .name('gitingest')
     .description('CLI tool to analyze and create a text dump of repository contents')
-    .argument('<source>', 'Source directory or repository to analyze', '.')
-    .option('-o, --output <path>', 'Output file path (default: <repo_name>.txt in current directory)')
+    .argument('[source]', 'Source directory or repository to analyze', '.')
+    .option('-o, --output <path>', 'Output file path (default: digest with the extension of the output format, e.g. digest.txt, in current directory)')
     .option('-s, --max-size <bytes>', 'Maximum file size to process in bytes', String(MAX_FILE_SIZE))
     .option('-e, --exclude-pattern <patterns...>', 'Patterns to exclude')
     .option('-i, --include-pattern <patterns...>', 'Patterns to include')
     .option('-b, --branch <name>', 'Branch to clone')
-    .action(async (source: string, options: any) => {
+    .option('-t, --tokenizer <name>', `Tokenizer used to count tokens (${listTokenizers().join(', ')})`, DEFAULT_TOKENIZER)
+    .option('--max-tokens <count>', 'Fit the digest within this many tokens by truncating or omitting files')
+    .addOption(
+        new Option('-f, --format <format>', 'Output format')
+            .choices(Object.values(OutputFormat))
+            .default(OutputFormat.TEXT)
+    )
+    .addOption(
+        new Option('--chunk-tokens <count>', 'Split the digest into numbered files of at most this many tokens')
+            .conflicts('chunkBytes')
+    )
+    .option('--chunk-bytes <bytes>', 'Split the digest into numbered files of at most this many bytes')
+    .option('--no-gitignore', 'Include the files excluded by .gitignore files and .git/info/exclude')
+    .option('--no-cache', 'Read every file instead of reusing the contents cached by previous runs')
+    .option('--cache-dir <path>', 'Directory of the content cache of local directories', CACHE_DIR)
+    .option('--max-cache-size <bytes>', 'Maximum size of the content cache in bytes', String(MAX_CACHE_SIZE))
+    .addOption(
+        new Option('-w, --watch', 'Keep the output file up to date while the local directory changes')
+            .conflicts(['chunkTokens', 'chunkBytes'])
+    )
+    .option('--diff <range>', 'Only ingest the changes between two refs, as <base>[..<head>] or <base>...<head>')
+    .option('--diff-content', 'With --diff or --pr-diff, also include the full content of each changed file')
+    .option('--pr-diff', 'For a pull or merge request URL, only ingest its changes against its merge base')
+    .option('--git-context', 'Show the checked out commit, remote and uncommitted changes in the summary')
+    .option('--git-log <count>', 'List this many recent commits in the summary')
+    .option('--git-log-path', 'With --git-log, list the commits changing the ingested path only')
+    .option('--file-history', 'Show the last commit that changed each file')
+    .option('--history-depth <count>', 'Number of commits fetched when cloning with a git context', String(GIT_HISTORY_DEPTH))
+    .option('--git-host <host=flavor...>', 'Register self-hosted Git hosts, as <host>=<github|gitlab|gitea|bitbucket>')
+    .option('--git-hosts-file <path>', 'TOML file registering self-hosted Git hosts in a [hosts] table', GIT_HOSTS_FILE)
+    .action(async (source: string, options: any, command: Command) => {
+        // Options left at their default are not passed on, so that the .gitingest file of the source may set them
+        const given = (name: string) => command.getOptionValueSource(name) !== 'default';
         await asyncMain(source, {
             output: options.output,
-            maxSize: parseInt(options.maxSize, 10),
+            maxSize: given('maxSize') ? parseInt(options.maxSize, 10) : undefined,
             excludePattern: options.excludePattern,
             includePattern: options.includePattern,
-            branch: options.branch
+            branch: options.branch,
+            tokenizer: given('tokenizer') ? options.tokenizer : undefined,
+            maxTokens: options.maxTokens ? parseInt(options.maxTokens, 10) : undefined,
+            format: given('format') ? options.format : undefined,
+            chunkTokens: options.chunkTokens ? parseInt(options.chunkTokens, 10) : undefined,
+            chunkBytes: options.chunkBytes ? parseInt(options.chunkBytes, 10) : undefined,
+            gitignore: options.gitignore,
+            cache: options.cache,
+            cacheDir: options.cacheDir,
+            maxCacheSize: parseInt(options.maxCacheSize, 10),
+            watch: options.watch,
+            diff: options.diff,
+            diffContent: options.diffContent,
+            prDiff: options.prDiff,
+            gitContext: options.gitContext,
+            gitLog: options.gitLog ? parseInt(options.gitLog, 10) : undefined,
+            gitLogPath: options.gitLogPath,
+            fileHistory: options.fileHistory,
+            historyDepth: parseInt(options.historyDepth, 10),
+            gitHost: options.gitHost,
+            gitHostsFile: options.gitHostsFile
         });
     });
 
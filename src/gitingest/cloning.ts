@@ -5,24 +5,79 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { spawn } from 'child_process';
-import { CloneConfig } from './types/ingestion_schema';
-import { asyncTimeout } from './utils/timeout_wrapper';
+import { AsyncTimeoutError, IngestionCancelledError } from './errors/exceptions';
+import { CloneConfig, IngestionControl } from './types/ingestion_schema';
+import { parseGitProgress, throwIfCancelled } from './utils/progress_utils';
 
-/** Timeout in seconds for clone operations */
+/** Timeout in seconds for clone operations that cannot be cancelled by their caller */
 export const TIMEOUT = 60;
 
+/**
+ * Options of `runCommand`.
+ */
+export interface RunCommandOptions {
+    /** Aborting this signal kills the process */
+    signal?: AbortSignal;
+    /** Called with each chunk written by the process to its standard error */
+    on_stderr?: (data: string) => void;
+    /** Called with each chunk written by the process to its standard output, which is then not kept in the result */
+    on_stdout?: (data: Buffer) => void;
+    /** Text written to the standard input of the process, which is then closed */
+    input?: string;
+}
+
 /**
  * Clone a repository to a local path based on the provided configuration.
  * 
  * This function handles the process of cloning a Git repository to the local file system.
  * It can clone a specific branch or commit if provided, and it raises exceptions if
- * any errors occur during the cloning process.
+ * any errors occur during the cloning process. With `full_history`, all branches and commits are fetched, so that
+ * refs can be compared in diff mode. The head of a pull or merge request is fetched from its ref and checked out
+ * after cloning the default branch.
+ * 
+ * The spawned git processes are killed when the clone is cancelled or takes more than `timeout` seconds. A caller
+ * passing a signal decides itself when to stop, so no timeout applies by default. The caller is responsible for
+ * removing the partial clone.
  * 
  * @param config - The configuration for cloning the repository
+ * @param control - Cancellation signal and progress callback, which receives the progress reported by git
+ * @param timeout - Seconds after which the clone is stopped, 0 for no timeout (defaults to `TIMEOUT` without a signal)
  * @throws Error if the repository is not found or if the provided URL is invalid
  * @throws Error if an error occurs while creating the parent directory for the repository
+ * @throws IngestionCancelledError if the signal is aborted
+ * @throws AsyncTimeoutError if the clone takes more than `timeout` seconds
+ */
+export async function clone(
+    config: CloneConfig,
+    control: IngestionControl = {},
+    timeout: number = control.signal ? 0 : TIMEOUT
+): Promise<void> {
+    const timeout_signal = timeout ? AbortSignal.timeout(timeout * 1000) : undefined;
+    const signals = [control.signal, timeout_signal].filter((signal): signal is AbortSignal => signal !== undefined);
+    const signal = AbortSignal.any(signals);
+
+    try {
+        await cloneRepository(config, signal, control.on_progress);
+    } catch (error) {
+        if (error instanceof IngestionCancelledError && timeout_signal?.aborted && !control.signal?.aborted) {
+            throw new AsyncTimeoutError(`Operation timed out after ${timeout} seconds`);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Run the git commands of a clone.
+ * 
+ * @param config - The configuration for cloning the repository
+ * @param signal - Aborting this signal kills the running git process
+ * @param on_progress - Called with the progress reported by git
  */
-export const clone = asyncTimeout(TIMEOUT)(async (config: CloneConfig): Promise<void> => {
+async function cloneRepository(
+    config: CloneConfig,
+    signal: AbortSignal,
+    on_progress?: IngestionControl['on_progress']
+): Promise<void> {
     // Extract and validate query parameters
     const { url, local_path, commit, branch } = config;
     const partial_clone = config.subpath !== "/";
@@ -35,20 +90,24 @@ export const clone = asyncTimeout(TIMEOUT)(async (config: CloneConfig): Promise<
         throw new Error(`Failed to create parent directory ${parent_dir}: ${exc}`);
     }
 
-    // Check if the repository exists
-    if (!(await checkRepoExists(url))) {
-        throw new Error("Repository not found, make sure it is public");
+    // Diffs need the history of the other branches, whose file contents are only fetched when they are read
+    const clone_cmd = config.full_history ? ["clone"] : ["clone", "--single-branch"];
+    if (on_progress) {
+        // Git only reports its progress to a terminal unless asked to
+        clone_cmd.push("--progress");
     }
-
-    const clone_cmd = ["clone", "--single-branch"];
     // TODO re-enable --recurse-submodules
 
     if (partial_clone) {
         clone_cmd.push("--filter=blob:none", "--sparse");
+    } else if (config.full_history) {
+        clone_cmd.push("--filter=blob:none");
     }
 
     if (!commit) {
-        clone_cmd.push("--depth=1");
+        if (!config.full_history) {
+            clone_cmd.push(`--depth=${config.depth ?? 1}`);
+        }
         if (branch && branch.toLowerCase() !== "main" && branch.toLowerCase() !== "master") {
             clone_cmd.push("--branch", branch);
         }
@@ -57,7 +116,28 @@ export const clone = asyncTimeout(TIMEOUT)(async (config: CloneConfig): Promise<
     clone_cmd.push(url, local_path);
 
     // Clone the repository
-    await runCommand("git", clone_cmd);
+    try {
+        await runCommand("git", clone_cmd, {
+            signal,
+            on_stderr: on_progress && (data => parseGitProgress(data).forEach(on_progress)),
+        });
+    } catch (error) {
+        // Tell a missing or private repository from other failures. Only HTTP URLs can be asked whether they exist,
+        // git reports the other ones with its own message
+        if (!(error instanceof IngestionCancelledError) && /^https?:\/\//i.test(url) &&
+            !(await checkRepoExists(url, signal))) {
+            throwIfCancelled(signal);
+            throw new Error("Repository not found, make sure it is public");
+        }
+        throw error;
+    }
+
+    if (config.pull_request_ref) {
+        // The ref is not a branch, so it is not cloned with the others
+        const depth_args = config.full_history ? [] : [`--depth=${config.depth ?? 1}`];
+        await runCommand("git", ["-C", local_path, "fetch", ...depth_args, "origin", config.pull_request_ref], { signal });
+        await runCommand("git", ["-C", local_path, "checkout", "--detach", "FETCH_HEAD"], { signal });
+    }
 
     if (commit || partial_clone) {
         const checkout_cmd = ["-C", local_path];
@@ -77,20 +157,21 @@ export const clone = asyncTimeout(TIMEOUT)(async (config: CloneConfig): Promise<
         }
 
         // Check out the specific commit and/or subpath
-        await runCommand("git", checkout_cmd);
+        await runCommand("git", checkout_cmd, { signal });
     }
-});
+}
 
 /**
  * Check if a Git repository exists at the provided URL.
  * 
  * @param url - The URL of the Git repository to check
+ * @param signal - Aborting this signal kills the curl process
  * @returns True if the repository exists, False otherwise
  * @throws Error if the curl command returns an unexpected status code
  */
-export async function checkRepoExists(url: string): Promise<boolean> {
+export async function checkRepoExists(url: string, signal?: AbortSignal): Promise<boolean> {
     try {
-        const { stdout } = await runCommand("curl", ["-I", url]);
+        const { stdout } = await runCommand("curl", ["-I", url], { signal });
         const response = stdout.toString();
         const status_code = getStatusCode(response);
 
@@ -112,10 +193,11 @@ export async function checkRepoExists(url: string): Promise<boolean> {
  * Fetch the list of branches from a remote Git repository.
  * 
  * @param url - The URL of the Git repository to fetch branches from
+ * @param signal - Aborting this signal kills the git process
  * @returns A list of branch names available in the remote repository
  */
-export async function fetchRemoteBranchList(url: string): Promise<string[]> {
-    const { stdout } = await runCommand("git", ["ls-remote", "--heads", url]);
+export async function fetchRemoteBranchList(url: string, signal?: AbortSignal): Promise<string[]> {
+    const { stdout } = await runCommand("git", ["ls-remote", "--heads", url], { signal });
     const stdout_decoded = stdout.toString();
 
     return stdout_decoded
@@ -129,22 +211,45 @@ export async function fetchRemoteBranchList(url: string): Promise<string[]> {
  * 
  * @param command - The command to execute
  * @param args - The arguments for the command
+ * @param options - Cancellation signal, output callbacks and standard input
  * @returns A promise that resolves to an object containing stdout and stderr
  * @throws Error if command exits with a non-zero status
+ * @throws IngestionCancelledError if the signal is aborted, in which case the process is killed
  */
-export async function runCommand(command: string, args: string[]): Promise<{ stdout: Buffer; stderr: Buffer }> {
+export async function runCommand(
+    command: string,
+    args: string[],
+    options: RunCommandOptions = {}
+): Promise<{ stdout: Buffer; stderr: Buffer }> {
     // await checkGitInstalled();
+    const { signal, on_stderr, on_stdout, input } = options;
+    throwIfCancelled(signal);
 
     return new Promise((resolve, reject) => {
         const proc = spawn(command, args);
         const stdout: Buffer[] = [];
         const stderr: Buffer[] = [];
 
-        proc.stdout.on('data', (data) => stdout.push(Buffer.from(data)));
-        proc.stderr.on('data', (data) => stderr.push(Buffer.from(data)));
+        const kill = () => proc.kill();
+        signal?.addEventListener('abort', kill, { once: true });
+
+        if (input !== undefined) {
+            // A process exiting before reading its input is reported by its exit code
+            proc.stdin.on('error', () => undefined);
+            proc.stdin.end(input);
+        }
+
+        proc.stdout.on('data', (data) => on_stdout ? on_stdout(Buffer.from(data)) : stdout.push(Buffer.from(data)));
+        proc.stderr.on('data', (data) => {
+            stderr.push(Buffer.from(data));
+            on_stderr?.(data.toString());
+        });
 
         proc.on('close', (code) => {
-            if (code !== 0) {
+            signal?.removeEventListener('abort', kill);
+            if (signal?.aborted) {
+                reject(new IngestionCancelledError());
+            } else if (code !== 0) {
                 const error_message = Buffer.concat(stderr).toString().trim();
                 reject(new Error(`Command failed: ${command} ${args.join(' ')}\nError: ${error_message}`));
             } else {
@@ -156,6 +261,7 @@ export async function runCommand(command: string, args: string[]): Promise<{ std
         });
 
         proc.on('error', (err) => {
+            signal?.removeEventListener('abort', kill);
             reject(new Error(`Failed to start command: ${err.message}`));
         });
     });
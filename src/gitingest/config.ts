@@ -22,3 +22,26 @@ export const OUTPUT_FILE_NAME = "digest.txt";
 
 /** Base path for temporary files */
 export const TMP_BASE_PATH = path.join(os.tmpdir(), "gitingest");
+
+/** Tokenizer used to count the tokens of the digest */
+export const DEFAULT_TOKENIZER = "o200k_base";
+
+/** Maximum number of file system operations (stats and reads) run at the same time during ingestion */
+export const MAX_CONCURRENT_IO = 32;
+
+/** Directory of the persistent content cache of the command line */
+export const CACHE_DIR = path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache"), "gitingest");
+
+/** TOML file registering the self-hosted Git hosting services, read by the command line and the extension */
+export const GIT_HOSTS_FILE = path.join(
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"), "gitingest", "hosts.toml"
+);
+
+/** Maximum size in bytes of the persistent content cache (256 MB) */
+export const MAX_CACHE_SIZE = 256 * 1024 * 1024;
+
+/** Delay in milliseconds without changes before a watched directory is ingested again */
+export const WATCH_DEBOUNCE_MS = 300;
+
+/** Number of commits fetched when cloning a repository whose git context is requested */
+export const GIT_HISTORY_DEPTH = 50;
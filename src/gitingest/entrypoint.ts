@@ -7,9 +7,22 @@ import { rimraf } from 'rimraf';
 
 import { clone } from './cloning';
 import { TMP_BASE_PATH } from './config';
-import { ingestQuery } from './ingestion';
+import { ingestQuery, ingestQueryChunks, ingestQueryToStream } from './ingestion';
+import { createDigest } from './output_formatters';
 import { parseQuery } from './query_parsing';
-import { IngestionQuery } from './types/ingestion_schema';
+import {
+    DigestChunk,
+    DigestOutput,
+    IngestOptions,
+    IngestionQuery,
+    OutputPath,
+    WatchOptions,
+    extractCloneConfig
+} from './types/ingestion_schema';
+import { createGitContextQuery } from './utils/git_context_utils';
+import { createPullRequestDiff, parseDiffRange } from './utils/git_diff_utils';
+import { getChunkFilePath, getTempOutputPath, removeChunkFiles, resolveOutputPath } from './utils/path_utils';
+import { watchQuery, writeDigestFile } from './watching';
 
 /**
  * Main entry point for ingesting a source and processing its contents.
@@ -19,32 +32,165 @@ import { IngestionQuery } from './types/ingestion_schema';
  * structure of the files, and the content of the files. The results can optionally be written to an output file.
  * 
  * @param source - The source to analyze, which can be a URL (for a Git repository) or a local directory path
- * @param max_file_size - Maximum allowed file size for file ingestion. Files larger than this size are ignored
+ * @param max_file_size - Maximum allowed file size for file ingestion, `MAX_FILE_SIZE` if not given. Files larger
+ *                        than this size are ignored
  * @param include_patterns - Pattern or set of patterns specifying which files to include
  * @param exclude_patterns - Pattern or set of patterns specifying which files to exclude
  * @param branch - The branch to clone and ingest
  * @param output - File path where the summary and content should be written
- * @returns A tuple containing summary string, tree-like structure, and file contents
+ * @param options - Additional ingestion options, such as the tokenizer, token budget, output format, cancellation
+ *                  signal and progress callback
+ * @returns A tuple containing summary string, tree-like structure, and file contents. With the JSON output format,
+ *          the file contents are the JSON digest described in `types/json_digest_schema.ts`
  * @throws Error if clone operation fails or if source type is unsupported
  */
 export async function ingestAsync(
     source: string,
-    max_file_size: number = 10 * 1024 * 1024, // 10 MB
+    max_file_size?: number,
     include_patterns?: Set<string> | string,
     exclude_patterns?: Set<string> | string,
     branch?: string,
     output?: string,
+    options: IngestOptions = {},
 ): Promise<[string, string, string]> {
-    let repo_cloned = false;
+    return withIngestionQuery(
+        source,
+        max_file_size,
+        include_patterns,
+        exclude_patterns,
+        branch,
+        options,
+        async (query) => {
+            const [summary, tree, content] = await ingestQuery(query, options);
+
+            if (output) {
+                await fs.writeFile(output, createDigest(query.output_format, summary, tree, content), 'utf-8');
+            }
+
+            return [summary, tree, content];
+        }
+    );
+}
+
+/**
+ * Ingest a source and write its digest to a stream.
+ * 
+ * This works like `ingestAsync` with an output file, but the digest is written piece by piece to the given stream,
+ * such as a file, standard output or an HTTP response, without building it in memory. The stream is not ended.
+ * 
+ * @param source - The source to analyze, which can be a URL (for a Git repository) or a local directory path
+ * @param output - The stream the digest is written to, or a function opening it once the root `.gitingest` file is
+ *                 applied to the query, e.g. to name the file after the output format
+ * @param max_file_size - Maximum allowed file size for file ingestion, `MAX_FILE_SIZE` if not given. Files larger
+ *                        than this size are ignored
+ * @param include_patterns - Pattern or set of patterns specifying which files to include
+ * @param exclude_patterns - Pattern or set of patterns specifying which files to exclude
+ * @param branch - The branch to clone and ingest
+ * @param options - Additional ingestion options, such as the tokenizer, token budget, output format, cancellation
+ *                  signal and progress callback. Chunk sizes are ignored
+ * @returns The summary, including the token count of the digest
+ * @throws Error if clone operation fails, if source type is unsupported, or if the stream fails
+ */
+export async function ingestStreamAsync(
+    source: string,
+    output: DigestOutput,
+    max_file_size?: number,
+    include_patterns?: Set<string> | string,
+    exclude_patterns?: Set<string> | string,
+    branch?: string,
+    options: IngestOptions = {},
+): Promise<string> {
+    return withIngestionQuery(
+        source,
+        max_file_size,
+        include_patterns,
+        exclude_patterns,
+        branch,
+        options,
+        async (query) => ingestQueryToStream(query, output, options)
+    );
+}
+
+/**
+ * Ingest a source and split its digest into numbered chunks.
+ * 
+ * This works like `ingestAsync`, but the digest is split into chunks of at most `options.chunk_tokens` tokens or
+ * `options.chunk_bytes` bytes. Each chunk starts with a "part k of n" header and the full directory structure.
+ * When an output path is given, each chunk is written to its own file, e.g. 'digest.part-001.txt'. Part files of a
+ * previous run are removed first.
+ * 
+ * @param source - The source to analyze, which can be a URL (for a Git repository) or a local directory path
+ * @param max_file_size - Maximum allowed file size for file ingestion, `MAX_FILE_SIZE` if not given. Files larger
+ *                        than this size are ignored
+ * @param include_patterns - Pattern or set of patterns specifying which files to include
+ * @param exclude_patterns - Pattern or set of patterns specifying which files to exclude
+ * @param branch - The branch to clone and ingest
+ * @param output - File path from which the paths of the chunk files are derived, or a function choosing it once the
+ *                 root `.gitingest` file is applied to the query
+ * @param options - Additional ingestion options, which must include `chunk_tokens` or `chunk_bytes`
+ * @returns The chunks of the digest, in order
+ * @throws Error if clone operation fails, if source type is unsupported, or if no chunk size is given
+ */
+export async function ingestChunksAsync(
+    source: string,
+    max_file_size?: number,
+    include_patterns?: Set<string> | string,
+    exclude_patterns?: Set<string> | string,
+    branch?: string,
+    output?: OutputPath,
+    options: IngestOptions = {},
+): Promise<DigestChunk[]> {
+    return withIngestionQuery(
+        source,
+        max_file_size,
+        include_patterns,
+        exclude_patterns,
+        branch,
+        options,
+        async (query) => {
+            const chunks = await ingestQueryChunks(query, options);
+
+            if (output) {
+                const output_path = resolveOutputPath(output, query);
+                await removeChunkFiles(output_path);
+                for (const chunk of chunks) {
+                    await fs.writeFile(getChunkFilePath(output_path, chunk.part), chunk.content, 'utf-8');
+                }
+            }
+
+            return chunks;
+        }
+    );
+}
+
+/**
+ * Parse a source into a query, clone the repository if needed, and run the given ingestion step on the query.
+ * 
+ * The temporary directory of the clone is removed once the ingestion step completes, fails or is cancelled, including
+ * when the clone itself is interrupted.
+ * 
+ * @param source - The source to analyze, which can be a URL (for a Git repository) or a local directory path
+ * @param max_file_size - Maximum allowed file size for file ingestion
+ * @param include_patterns - Pattern or set of patterns specifying which files to include
+ * @param exclude_patterns - Pattern or set of patterns specifying which files to exclude
+ * @param branch - The branch to clone and ingest
+ * @param options - Additional ingestion options
+ * @param run - The ingestion step to run on the parsed query
+ * @returns The result of the ingestion step
+ */
+async function withIngestionQuery<T>(
+    source: string,
+    max_file_size: number | undefined,
+    include_patterns: Set<string> | string | undefined,
+    exclude_patterns: Set<string> | string | undefined,
+    branch: string | undefined,
+    options: IngestOptions,
+    run: (query: IngestionQuery) => Promise<T>
+): Promise<T> {
+    let clone_started = false;
 
     try {
-        const query: IngestionQuery = await parseQuery({
-            source,
-            max_file_size,
-            from_web: false,
-            include_patterns,
-            ignore_patterns: exclude_patterns,
-        });
+        const query = await createQuery(source, max_file_size, include_patterns, exclude_patterns, options);
 
         if (query.url) {
             // prioritize branch argument
@@ -52,20 +198,14 @@ export async function ingestAsync(
             query.branch = selected_branch;
 
             const clone_config = extractCloneConfig(query);
-            await clone(clone_config);
-            repo_cloned = true;
-        }
-
-        const [summary, tree, content] = await ingestQuery(query);
-
-        if (output) {
-            await fs.writeFile(output, tree + "\n" + content, 'utf-8');
+            clone_started = true;
+            await clone(clone_config, options, options.clone_timeout);
         }
 
-        return [summary, tree, content];
+        return await run(query);
     } finally {
         // Clean up the temporary directory if it was created
-        if (repo_cloned) {
+        if (clone_started) {
             try {
                 await rimraf(TMP_BASE_PATH);
             } catch (error) {
@@ -75,6 +215,107 @@ export async function ingestAsync(
     }
 }
 
+/**
+ * Ingest a local directory into an output file, then keep the file up to date while the directory changes.
+ * 
+ * The directory is watched until the signal of the options is aborted. Changes are debounced, changes to ignored
+ * files and to the output file itself are skipped, and edits to `.gitingest` and `.gitignore` files re-evaluate which
+ * files are ingested. With a content cache, each new digest only re-reads the files that changed. The output file is
+ * replaced once each digest is complete, so it never holds a partial digest.
+ * 
+ * @param source - The local directory to watch
+ * @param output - Path of the output file, or a function choosing it from the query of each digest. The paths it
+ *                 may return should be listed in `ignored_paths`, with their temporary files
+ * @param max_file_size - Maximum allowed file size for file ingestion, `MAX_FILE_SIZE` if not given. Files larger
+ *                        than this size are ignored
+ * @param include_patterns - Pattern or set of patterns specifying which files to include
+ * @param exclude_patterns - Pattern or set of patterns specifying which files to exclude
+ * @param options - Additional ingestion options, and the watch options: debounce delay, callbacks called after each
+ *                  digest or failure, and the signal that stops watching. Chunk sizes are ignored
+ * @returns A promise resolved once the signal is aborted
+ * @throws Error if the source is not a local directory or cannot be watched
+ */
+export async function watchAsync(
+    source: string,
+    output: OutputPath,
+    max_file_size?: number,
+    include_patterns?: Set<string> | string,
+    exclude_patterns?: Set<string> | string,
+    options: IngestOptions & WatchOptions = {},
+): Promise<void> {
+    const query = await createQuery(source, max_file_size, include_patterns, exclude_patterns, options);
+    if (query.url) {
+        throw new Error(`Only local directories can be watched, not ${source}`);
+    }
+
+    const ignored_paths = [
+        ...(typeof output === 'string' ? [output, getTempOutputPath(output)] : []),
+        ...(options.ignored_paths || [])
+    ];
+    await watchQuery(query, (run_query, control) => writeDigestFile(run_query, output, control), {
+        ...options,
+        ignored_paths
+    });
+}
+
+/**
+ * Parse a source into a query with the given options.
+ * 
+ * @param source - The source to analyze, which can be a URL (for a Git repository) or a local directory path
+ * @param max_file_size - Maximum allowed file size for file ingestion
+ * @param include_patterns - Pattern or set of patterns specifying which files to include
+ * @param exclude_patterns - Pattern or set of patterns specifying which files to exclude
+ * @param options - Additional ingestion options
+ * @returns The parsed query
+ */
+async function createQuery(
+    source: string,
+    max_file_size: number | undefined,
+    include_patterns: Set<string> | string | undefined,
+    exclude_patterns: Set<string> | string | undefined,
+    options: IngestOptions
+): Promise<IngestionQuery> {
+    const query = await parseQuery({
+        source,
+        max_file_size,
+        from_web: false,
+        include_patterns,
+        ignore_patterns: exclude_patterns,
+        tokenizer: options.tokenizer,
+        max_tokens: options.max_tokens,
+        output_format: options.output_format,
+        chunk_tokens: options.chunk_tokens,
+        chunk_bytes: options.chunk_bytes,
+        use_gitignore: options.use_gitignore,
+    });
+
+    if (!query.url && options.cache_dir) {
+        // Clones go to a new temporary directory each time, so only local directories are worth caching
+        query.cache_dir = options.cache_dir;
+        query.max_cache_size = options.max_cache_size || query.max_cache_size;
+    }
+
+    if (options.diff) {
+        query.diff = parseDiffRange(options.diff, options.diff_content);
+    } else if (options.pull_request_diff) {
+        if (!query.pull_request) {
+            throw new Error(`Only the changes of pull and merge requests can be ingested, not ${source}`);
+        }
+        query.diff = createPullRequestDiff(options.diff_content);
+    }
+
+    if (options.git_context || options.git_log || options.file_history) {
+        query.git_context = createGitContextQuery({
+            log_count: options.git_log,
+            log_per_path: options.git_log_per_path,
+            file_history: options.file_history,
+            history_depth: options.history_depth,
+        });
+    }
+
+    return query;
+}
+
 /**
  * Synchronous version of ingestAsync.
  * 
@@ -87,21 +328,27 @@ export async function ingestAsync(
  * because Node.js doesn't have a synchronous event loop like Python.
  * 
  * @param source - The source to analyze, which can be a URL (for a Git repository) or a local directory path
- * @param max_file_size - Maximum allowed file size for file ingestion. Files larger than this size are ignored
+ * @param max_file_size - Maximum allowed file size for file ingestion, `MAX_FILE_SIZE` if not given. Files larger
+ *                        than this size are ignored
  * @param include_patterns - Pattern or set of patterns specifying which files to include
  * @param exclude_patterns - Pattern or set of patterns specifying which files to exclude
  * @param branch - The branch to clone and ingest
  * @param output - File path where the summary and content should be written
- * @returns A Promise that resolves to a tuple containing summary string, tree-like structure, and file contents
+ * @param options - Additional ingestion options, such as the tokenizer, token budget, output format, cancellation
+ *                  signal and progress callback
+ * @returns A Promise that resolves to a tuple containing summary string, tree-like structure, and file contents.
+ *          With the JSON output format, the file contents are the JSON digest described in
+ *          `types/json_digest_schema.ts`
  * @see ingestAsync - The main asynchronous version of this function
  */
 export async function ingest(
     source: string,
-    max_file_size: number = 10 * 1024 * 1024, // 10 MB
+    max_file_size?: number,
     include_patterns?: Set<string> | string,
     exclude_patterns?: Set<string> | string,
     branch?: string,
     output?: string,
+    options: IngestOptions = {},
 ): Promise<[string, string, string]> {
     return ingestAsync(
         source,
@@ -109,28 +356,8 @@ export async function ingest(
         include_patterns,
         exclude_patterns,
         branch,
-        output
+        output,
+        options
     );
 }
 
-/**
- * Helper function to extract clone configuration from an IngestionQuery.
- * This is used internally by ingestAsync.
- * 
- * @param query - The IngestionQuery to extract configuration from
- * @returns The clone configuration object
- */
-function extractCloneConfig(query: IngestionQuery) {
-    if (!query.url) {
-        throw new Error("URL is required for cloning");
-    }
-
-    return {
-        url: query.url,
-        local_path: query.local_path,
-        commit: query.commit,
-        branch: query.branch,
-        subpath: query.subpath || "/",
-        blob: query.type === "blob"
-    };
-}
@@ -3,19 +3,28 @@
  */
 
 /**
- * Exception raised when a pattern contains invalid characters.
+ * Exception raised when a pattern is not a valid glob.
  * This exception is used to signal that a pattern provided for some operation
- * contains characters that are not allowed. The valid characters for the pattern
- * include alphanumeric characters, dash (-), underscore (_), dot (.), forward slash (/),
- * plus (+), and asterisk (*).
+ * cannot be parsed, e.g. because of an unclosed brace or character class. When
+ * the position of the offending character is known, the message points at it.
  */
 export class InvalidPatternError extends Error {
-    constructor(pattern: string) {
+    /** The invalid pattern */
+    readonly pattern: string;
+    /** The 0-based position of the offending character, if known */
+    readonly position?: number;
+
+    constructor(pattern: string, reason: string = 'invalid pattern', position?: number) {
         super(
-            `Pattern '${pattern}' contains invalid characters. Only alphanumeric characters, dash (-), ` +
-            `underscore (_), dot (.), forward slash (/), plus (+), and asterisk (*) are allowed.`
+            position === undefined ?
+                `Invalid pattern '${pattern}': ${reason}` :
+                `Invalid pattern '${pattern}': ${reason} at position ${position + 1}\n` +
+                `    ${pattern}\n` +
+                `    ${' '.repeat(position)}^`
         );
         this.name = 'InvalidPatternError';
+        this.pattern = pattern;
+        this.position = position;
     }
 }
 
@@ -23,7 +32,8 @@ export class InvalidPatternError extends Error {
  * Exception raised when an async operation exceeds its timeout limit.
  * 
  * This exception is used by the `asyncTimeout` decorator to signal that the wrapped
- * asynchronous function has exceeded the specified time limit for execution.
+ * asynchronous function has exceeded the specified time limit for execution, and by
+ * `clone` when the clone takes longer than its timeout.
  */
 export class AsyncTimeoutError extends Error {
     constructor(message: string = 'Operation timed out') {
@@ -32,6 +42,16 @@ export class AsyncTimeoutError extends Error {
     }
 }
 
+/**
+ * Exception raised when an operation is stopped through the `signal` of its `IngestionControl`.
+ */
+export class IngestionCancelledError extends Error {
+    constructor(message: string = 'Ingestion cancelled') {
+        super(message);
+        this.name = 'IngestionCancelledError';
+    }
+}
+
 /**
  * Exception raised when a Jupyter notebook is invalid or cannot be processed.
  */
@@ -41,3 +61,32 @@ export class InvalidNotebookError extends Error {
         this.name = 'InvalidNotebookError';
     }
 }
+
+/**
+ * Exception raised when the requested tokenizer is not registered.
+ */
+export class InvalidTokenizerError extends Error {
+    constructor(name: string, available: string[]) {
+        super(`Unknown tokenizer '${name}'. Available tokenizers: ${available.join(', ')}`);
+        this.name = 'InvalidTokenizerError';
+    }
+}
+
+/**
+ * Exception raised when a `.gitingest` configuration file is invalid.
+ * 
+ * The message points at the file and, when it is known, the line of the offending key.
+ */
+export class GitingestConfigError extends Error {
+    /** Path of the configuration file */
+    readonly file_path: string;
+    /** 1-based line of the error, if known */
+    readonly line?: number;
+
+    constructor(file_path: string, message: string, line?: number) {
+        super(`${file_path}${line === undefined ? '' : `:${line}`}: ${message}`);
+        this.name = 'GitingestConfigError';
+        this.file_path = file_path;
+        this.line = line;
+    }
+}
@@ -3,10 +3,59 @@
  */
 
 export { clone } from './cloning';
-export { ingest, ingestAsync } from './entrypoint';
-export { ingestQuery } from './ingestion';
-export { parseQuery } from './query_parsing';
+export { IngestionCancelledError } from './errors/exceptions';
+export { ingest, ingestAsync, ingestChunksAsync, ingestStreamAsync, watchAsync } from './entrypoint';
+export { buildDiffTree, buildDocumentTree, buildFileSystemTree, ingestQuery, ingestQueryChunks, ingestQueryToStream, loadContents } from './ingestion';
+export { createDigest, createJsonDigest, formatChunks, formatNode, writeDigest } from './output_formatters';
+export { parseGitSource, parseQuery } from './query_parsing';
+export { watchQuery, writeDigestFile } from './watching';
 
 // Re-export types that consumers might need
-export { IngestionQuery } from './types/ingestion_schema';
-export { FileSystemNode, FileSystemNodeType, FileSystemStats } from './types/filesystem_schema';
+export {
+    DigestChunk,
+    DigestOutput,
+    GitSource,
+    IngestOptions,
+    IngestionControl,
+    IngestionProgress,
+    IngestionQuery,
+    IngestionStage,
+    OutputFormat,
+    OutputPath,
+    PullRequest,
+    WatchOptions
+} from './types/ingestion_schema';
+export {
+    JSON_DIGEST_SCHEMA_VERSION,
+    JsonDigest,
+    JsonDigestChange,
+    JsonDigestDiff,
+    JsonDigestNode,
+    JsonDigestQuery
+} from './types/json_digest_schema';
+export { Tokenizer, getTokenizer, listTokenizers, registerTokenizer } from './utils/tokenizer_utils';
+export { FileSystemNode, FileSystemNodeType, FileSystemStats, InMemoryFile } from './types/filesystem_schema';
+export { CachedFile } from './types/content_cache_schema';
+export { ContentCache, openContentCache } from './utils/content_cache_utils';
+export { ChangeStatus, ChangedFile, DiffQuery, DiffResult, WorkingTreeChanges } from './types/diff_schema';
+export {
+    createPullRequestDiff,
+    createUnpushedDiff,
+    createWorkingTreeDiff,
+    findRepositoryRoot,
+    parseDiffRange,
+    readDiff
+} from './utils/git_diff_utils';
+export { CommitInfo, GitContext, GitContextQuery } from './types/git_context_schema';
+export { createGitContextQuery, readGitContext } from './utils/git_context_utils';
+export { isBareRepository, resolveGitSource } from './utils/git_source_utils';
+export { GitHost, GitHostFlavor, RepositoryPath } from './types/git_host_schema';
+export {
+    getGitHost,
+    listGitHosts,
+    loadGitHostsFile,
+    parseGitHostSpec,
+    parseRepositoryPath,
+    registerGitHost,
+    resetGitHosts
+} from './utils/git_host_utils';
@@ -2,22 +2,60 @@
  * Functions to ingest and analyze a codebase directory or single file.
  */
 
+import { Dirent, Stats } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as toml from '@iarna/toml';
 
-import { MAX_DIRECTORY_DEPTH, MAX_FILES, MAX_TOTAL_SIZE_BYTES } from './config';
-import { FileSystemNode, FileSystemNodeType, FileSystemStats } from './types/filesystem_schema';
-import { formatNode } from './output_formatters';
-import { IngestionQuery } from './types/ingestion_schema';
-import { shouldExclude, shouldInclude } from './utils/ingestion_utils';
+import { IngestionCancelledError } from './errors/exceptions';
+import { FileSystemNode, FileSystemNodeType, FileSystemStats, InMemoryFile } from './types/filesystem_schema';
+import { GitingestConfig } from './types/gitingest_config_schema';
+import { formatChunks, formatNode, writeDigest } from './output_formatters';
+import { ChangeStatus, ChangedFile } from './types/diff_schema';
+import { DigestChunk, DigestOutput, IngestionControl, IngestionQuery, IngestionStage } from './types/ingestion_schema';
+import { readGitingestConfig, scopePattern } from './utils/gitingest_config_utils';
+import { GitignoreRule, isGitignored, readGitignoreRules, readInheritedGitignoreRules } from './utils/gitignore_utils';
+import { mapConcurrent } from './utils/async_utils';
+import { ContentCache, openContentCache } from './utils/content_cache_utils';
+import { readGitContext } from './utils/git_context_utils';
+import { findRepositoryRoot, readChangedFileContents, readDiff } from './utils/git_diff_utils';
+import { appendPatterns } from './utils/glob_utils';
+import { isSelected, shouldExclude, shouldInclude } from './utils/ingestion_utils';
 import { isSafeSymlink } from './utils/path_utils';
+import { throwIfCancelled } from './utils/progress_utils';
+import { collectFiles } from './utils/token_budget_utils';
 
-/** Interface for .gitingest file configuration */
-interface GitingestConfig {
-    config?: {
-        ignore_patterns?: string | string[];
-    };
+/**
+ * Settings that apply to a directory and its subtree during traversal.
+ * 
+ * They start from the query and are refined by the `.gitignore` and nested `.gitingest` files of each directory.
+ */
+interface TraversalScope {
+    /** Ordered ignore rules, relative to the root of the source */
+    ignore_patterns: Set<string>;
+    /** Ordered include rules, relative to the root of the source, if any */
+    include_patterns?: Set<string>;
+    /** The `.gitignore` rules, from the outermost to the innermost file */
+    gitignore_rules: GitignoreRule[];
+    /** Maximum size in bytes of an ingested file */
+    max_file_size: number;
+    /** Whether the outputs of notebook cells are included */
+    include_notebook_output: boolean;
+}
+
+/**
+ * A directory entry with its symlink resolved and its target stat-ed.
+ */
+interface ResolvedEntry {
+    /** The directory entry */
+    entry: Dirent;
+    /** Absolute path of the entry */
+    entry_path: string;
+    /** Absolute path of the entry, or of its target for a symlink */
+    target_path: string;
+    /** Absolute path of the symlink, if the entry is one */
+    symlink_path?: string;
+    /** Stats of the target, or undefined if the entry is an unsafe symlink */
+    target_stats?: Stats;
 }
 
 /**
@@ -28,14 +66,303 @@ interface GitingestConfig {
  * along with token estimations.
  * 
  * @param query - The parsed query object containing information about the repository and query parameters
+ * @param control - Cancellation signal and progress callback for the scanning and formatting stages
  * @returns A tuple containing the summary, directory structure, and file contents
  * @throws Error if the path cannot be found, is not a file, or the file has no content
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function ingestQuery(
+    query: IngestionQuery,
+    control: IngestionControl = {}
+): Promise<[string, string, string]> {
+    const node = await buildIngestionTree(query, control);
+    const cache = await openContentCache(query);
+    await loadContents(node, query, control, cache);
+    const result = formatNode(node, query, control);
+    await cache?.save(node);
+    return result;
+}
+
+/**
+ * Run the ingestion process for a parsed query and write the digest to a stream.
+ * 
+ * This works like `ingestQuery` followed by `createDigest`, but the digest is written piece by piece with
+ * `writeDigest`, reading each file only when its block is written, so large repositories do not have to fit in memory.
+ * 
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param output - The stream the digest is written to, which is not ended, or a function opening it once the tree is
+ *                 built and the root `.gitingest` file applied to the query
+ * @param control - Cancellation signal and progress callback for the scanning and formatting stages
+ * @returns The summary, including the token count of the digest
+ * @throws Error if the path cannot be found, is not a file, or the file has no content
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function ingestQueryToStream(
+    query: IngestionQuery,
+    output: DigestOutput,
+    control: IngestionControl = {}
+): Promise<string> {
+    const node = await buildIngestionTree(query, control);
+    const stream = typeof output === 'function' ? await output(query) : output;
+    const cache = await openContentCache(query);
+    const summary = await writeDigest(node, query, stream, control, cache);
+    await cache?.save(node);
+    return summary;
+}
+
+/**
+ * Run the ingestion process for a parsed query and split the digest into chunks.
+ * 
+ * The chunk size is taken from the query (`chunk_tokens` or `chunk_bytes`). Each chunk starts with a "part k of n"
+ * header and the full directory structure, and chunks only break between files, unless a single file is too large
+ * for one chunk, in which case it is split at line boundaries.
+ * 
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param control - Cancellation signal and progress callback for the scanning and formatting stages
+ * @returns The chunks of the digest, in order
+ * @throws Error if the path cannot be found, is not a file, or the file has no content
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function ingestQueryChunks(query: IngestionQuery, control: IngestionControl = {}): Promise<DigestChunk[]> {
+    const node = await buildIngestionTree(query, control);
+    const cache = await openContentCache(query);
+    await loadContents(node, query, control, cache);
+    const chunks = formatChunks(node, query, control);
+    await cache?.save(node);
+    return chunks;
+}
+
+/**
+ * Read the contents of all files under a node concurrently, and cache them on the nodes.
+ * 
+ * Formatting then reads the cached contents instead of reading each file synchronously, possibly several times.
+ * 
+ * @param node - The directory or file node
+ * @param query - The parsed query object, holding the maximum number of concurrent reads
+ * @param control - Cancellation signal and progress callback, called for each file read
+ * @param cache - The persistent content cache of the directory, from which unchanged files are taken, if any
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function loadContents(
+    node: FileSystemNode,
+    query: IngestionQuery,
+    control: IngestionControl = {},
+    cache?: ContentCache
+): Promise<void> {
+    const files = collectFiles(node);
+    let loaded = 0;
+
+    await mapConcurrent(files, query.max_concurrent_io, async file => {
+        await file.loadContent(cache);
+        loaded += 1;
+        control.on_progress?.({ stage: IngestionStage.READING, message: file.path_str, files: loaded });
+    }, control.signal);
+}
+
+/**
+ * Build a file system tree from files whose content is already in memory, such as open editors.
+ * 
+ * Directories are created from the paths of the files, and the nodes use the given content instead of reading the
+ * files from disk, so the tree can be formatted with `formatNode` or `formatChunks` like an ingested directory. No
+ * pattern, `.gitignore` or limit is applied: every file is part of the tree, in the order of `sortChildren`.
+ * 
+ * @param root_name - Name of the root directory in the directory structure
+ * @param root_path - Absolute path of the root directory
+ * @param files - The files, several of which may share a path when they hold different excerpts of one file
+ * @returns The root directory node
+ */
+export function buildDocumentTree(root_name: string, root_path: string, files: InMemoryFile[]): FileSystemNode {
+    const root_node = new FileSystemNode(root_name, FileSystemNodeType.DIRECTORY, "", root_path);
+    const directories = new Map<string, FileSystemNode>([["", root_node]]);
+
+    for (const file of files) {
+        const segments = file.path_str.split('/').filter(segment => segment.length > 0);
+        const file_name = segments.pop() || path.basename(file.path);
+
+        // Create the missing parent directories, from the root down
+        let parent = root_node;
+        const ancestors: FileSystemNode[] = [root_node];
+        segments.forEach((segment, index) => {
+            const key = segments.slice(0, index + 1).join('/');
+            let directory = directories.get(key);
+            if (!directory) {
+                directory = new FileSystemNode(
+                    segment,
+                    FileSystemNodeType.DIRECTORY,
+                    segments.slice(0, index + 1).join(path.sep),
+                    path.join(root_path, ...segments.slice(0, index + 1))
+                );
+                directory.depth = index + 1;
+                directories.set(key, directory);
+                parent.children.push(directory);
+                ancestors.forEach(ancestor => ancestor.dir_count += 1);
+            }
+            parent = directory;
+            ancestors.push(directory);
+        });
+
+        const relative_path = [...segments, file_name].join(path.sep);
+        const file_node = new FileSystemNode(
+            file.name ?? file_name,
+            FileSystemNodeType.FILE,
+            file.label ? `${relative_path} (${file.label})` : relative_path,
+            file.path
+        );
+        file_node.content_override = file.content;
+        file_node.language = file.language;
+        file_node.size = Buffer.byteLength(file.content, 'utf-8');
+        file_node.file_count = 1;
+        file_node.depth = segments.length + 1;
+        parent.children.push(file_node);
+
+        for (const ancestor of ancestors) {
+            ancestor.size += file_node.size;
+            ancestor.file_count += 1;
+        }
+    }
+
+    for (const directory of directories.values()) {
+        directory.sortChildren();
+    }
+
+    return root_node;
+}
+
+/**
+ * Build the tree of a parsed query: the tree of its changes in diff mode, its file system tree otherwise.
+ * 
+ * The git context of the query, if any, is read once the tree is built.
+ * 
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param control - Cancellation signal and progress callback
+ * @returns The root node
+ * @throws Error if the path cannot be found, is not a file, or the file has no content
+ * @throws Error if the changes of the diff cannot be read
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+async function buildIngestionTree(query: IngestionQuery, control: IngestionControl): Promise<FileSystemNode> {
+    const node = query.diff ? await buildDiffTree(query, control) : await buildFileSystemTree(query, control);
+    await readGitContext(query, node, control.signal);
+    return node;
+}
+
+/**
+ * Build the tree of the changes between the two refs of the diff of a query.
+ * 
+ * Each changed file gets a node holding its patch, labelled with how it changed, and, if the diff includes contents,
+ * a second node holding its full content after the change. The patch is then listed as `<name>.diff` in the directory
+ * structure, so the two nodes can be told apart. The changed files are filtered with the patterns of the query and of
+ * the root `.gitingest` file. The resolved range and the kept files are stored in `query.diff.result` for the summary.
+ * 
+ * @param query - The parsed query object, with its diff
+ * @param control - Cancellation signal and progress callback, called before the contents are read
+ * @returns The root directory node
+ * @throws Error if the query is not a directory in a Git repository, or a ref of the diff is unknown
+ * @throws GitingestConfigError if the `.gitingest` file of a local directory is invalid
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function buildDiffTree(query: IngestionQuery, control: IngestionControl = {}): Promise<FileSystemNode> {
+    throwIfCancelled(control.signal);
+
+    const subpath = path.posix.join(...query.subpath.split('/').filter(Boolean));
+    const targetPath = path.join(query.local_path, subpath);
+
+    // Only the user's own directories are strict, the settings of a cloned repository are skipped with a warning
+    const root_config = await readGitingestConfig(targetPath, true, !query.url);
+    if (root_config) {
+        const directory = path.relative(query.local_path, targetPath).split(path.sep).join('/');
+        applyRootGitingestConfig(root_config, query, directory);
+    }
+
+    const result = await readDiff(query, control.signal);
+    result.files = result.files.filter(file => isChangeIncluded(path.join(targetPath, file.path), query));
+    query.diff!.result = result;
+
+    const files: InMemoryFile[] = result.files.map(file => ({
+        path_str: file.path,
+        path: path.join(targetPath, file.path),
+        content: file.patch,
+        label: describeChange(file),
+        name: query.diff!.include_content ? `${path.posix.basename(file.path)}.diff` : undefined,
+        language: "diff",
+    }));
+
+    if (query.diff!.include_content) {
+        const kept_files = result.files.filter(file => file.status !== ChangeStatus.DELETED);
+        control.on_progress?.({
+            stage: IngestionStage.READING,
+            message: `Reading ${kept_files.length} changed files`,
+            files: kept_files.length,
+        });
+        const contents = await readChangedFileContents(query, result.head_commit, kept_files, control.signal);
+
+        kept_files.forEach((file, index) => files.push({
+            path_str: file.path,
+            path: path.join(targetPath, file.path),
+            content: contents[index],
+            label: "full content",
+        }));
+    }
+
+    return buildDocumentTree(path.basename(targetPath), targetPath, files);
+}
+
+/**
+ * Check whether a changed file passes the ignore and include patterns of a query.
+ * 
+ * @param file_path - The absolute path of the file in the working tree
+ * @param query - The parsed query object holding the patterns
+ * @returns True if the changes of the file are ingested, False otherwise
+ */
+function isChangeIncluded(file_path: string, query: IngestionQuery): boolean {
+    if (shouldExclude(file_path, query.local_path, query.ignore_patterns)) {
+        return false;
+    }
+    return !query.include_patterns || shouldInclude(file_path, query.local_path, query.include_patterns);
+}
+
+/**
+ * Describe how a file changed, for the label of its patch.
+ * 
+ * @param file - The changed file
+ * @returns The description, e.g. 'modified' or 'renamed from src/old.ts'
+ */
+function describeChange(file: ChangedFile): string {
+    if (file.old_path !== undefined) {
+        return `${file.status} from ${file.old_path}`;
+    }
+    return file.status;
+}
+
+/**
+ * Build the file system tree for a parsed query.
+ * 
+ * The patterns, `.gitignore` files, `.gitingest` files and limits of the query are applied during the traversal, and
+ * the contents of the files are read lazily from the nodes.
+ * 
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param control - Cancellation signal, checked before each directory entry, and progress callback, called for each
+ *                  file added to the tree
+ * @returns The root node, a directory node or a single file node
+ * @throws Error if the path cannot be found, is not a file, or the file has no content
+ * @throws GitingestConfigError if the `.gitingest` file of a local directory is invalid
+ * @throws IngestionCancelledError if the signal is aborted
  */
-export async function ingestQuery(query: IngestionQuery): Promise<[string, string, string]> {
+export async function buildFileSystemTree(
+    query: IngestionQuery,
+    control: IngestionControl = {}
+): Promise<FileSystemNode> {
+    throwIfCancelled(control.signal);
+
     const subpath = path.posix.join(...query.subpath.split('/').filter(Boolean));
     const targetPath = path.join(query.local_path, subpath);
 
-    await applyGitingestFile(targetPath, query);
+    // Only the user's own directories are strict, the settings of a cloned repository are skipped with a warning
+    const root_config = await readGitingestConfig(targetPath, true, !query.url);
+    if (root_config) {
+        const directory = path.relative(query.local_path, targetPath).split(path.sep).join('/');
+        applyRootGitingestConfig(root_config, query, directory);
+    }
 
     try {
         await fs.access(targetPath);
@@ -59,13 +386,15 @@ export async function ingestQuery(query: IngestionQuery): Promise<[string, strin
             targetPath
         );
         file_node.size = stats.size;
+        file_node.mtime_ms = stats.mtimeMs;
         file_node.file_count = 1;
+        file_node.include_notebook_output = query.include_notebook_output;
 
-        if (!file_node.content) {
+        if (!await file_node.loadContent()) {
             throw new Error(`File ${file_node.name} has no content`);
         }
 
-        return formatNode(file_node, query);
+        return file_node;
     }
 
     const root_node = new FileSystemNode(
@@ -76,101 +405,198 @@ export async function ingestQuery(query: IngestionQuery): Promise<[string, strin
     );
 
     const stats_tracker = new FileSystemStats();
+    const root_scope: TraversalScope = {
+        ignore_patterns: query.ignore_patterns,
+        include_patterns: query.include_patterns,
+        gitignore_rules: query.use_gitignore
+            ? await readInheritedGitignoreRules(await findGitignoreRoot(query, targetPath, control.signal), targetPath)
+            : [],
+        max_file_size: query.max_file_size,
+        include_notebook_output: query.include_notebook_output,
+    };
 
-    await processNode(root_node, query, stats_tracker);
+    await processNode(root_node, query, stats_tracker, root_scope, control);
 
-    return formatNode(root_node, query);
+    return root_node;
 }
 
 /**
- * Apply the .gitingest file to the query object.
- * 
- * This function reads the .gitingest file in the specified path and updates the query object with the ignore
- * patterns found in the file.
- * 
- * @param filePath - The path of the directory to ingest
- * @param query - The parsed query object containing information about the repository and query parameters
+ * Find the directory whose `.gitignore` and `.git/info/exclude` files apply to the ingested directory.
+ *
+ * This is the root of the Git working tree containing the directory, which is above the root of the source when a
+ * subdirectory of a repository is ingested, or the root of the source if it is not in a Git repository.
+ *
+ * @param query - The parsed query object
+ * @param targetPath - The absolute path of the ingested directory
+ * @param signal - Aborting this signal kills the git process
+ * @returns The absolute path of the root, through the same symlinks as `targetPath`
+ * @throws IngestionCancelledError if the signal is aborted
  */
-async function applyGitingestFile(filePath: string, query: IngestionQuery): Promise<void> {
-    const gitingestPath = path.join(filePath, ".gitingest");
-
+async function findGitignoreRoot(query: IngestionQuery, targetPath: string, signal?: AbortSignal): Promise<string> {
     try {
-        await fs.access(gitingestPath);
-    } catch {
-        return;
+        const root = await findRepositoryRoot(targetPath, signal);
+        // Git reports the real path of the root, which differs from the ingested path when it goes through a symlink
+        return path.resolve(targetPath, path.relative(await fs.realpath(targetPath), root));
+    } catch (error) {
+        if (error instanceof IngestionCancelledError) {
+            throw error;
+        }
+        return query.local_path;
     }
+}
 
-    try {
-        const content = await fs.readFile(gitingestPath, 'utf-8');
-        const data = toml.parse(content) as GitingestConfig;
-
-        const ignorePatterns = data.config?.ignore_patterns;
-        if (!ignorePatterns) {
-            return;
-        }
+/**
+ * Apply the `.gitingest` file of the ingested directory to the query object.
+ * 
+ * Patterns are appended to the query patterns. The other settings only replace the values of the query that the
+ * caller did not set, so that explicit options (command line, extension settings, API arguments) take precedence over
+ * the project configuration, even when they are equal to the default.
+ * 
+ * @param config - The validated configuration
+ * @param query - The parsed query object, modified in place
+ * @param directory - The ingested directory relative to the root of the source, with forward slashes
+ */
+function applyRootGitingestConfig(config: GitingestConfig, query: IngestionQuery, directory: string): void {
+    if (config.ignore_patterns) {
+        appendPatterns(query.ignore_patterns, config.ignore_patterns.map(pattern => scopePattern(pattern, directory)));
+    }
+    if (config.include_patterns) {
+        query.include_patterns = appendPatterns(
+            query.include_patterns || new Set(),
+            config.include_patterns.map(pattern => scopePattern(pattern, directory))
+        );
+    }
 
-        // If a single string is provided, make it a list of one element
-        const patterns = Array.isArray(ignorePatterns) ? ignorePatterns : [ignorePatterns];
+    const explicit = query.explicit_settings;
+    if (config.max_file_size && !explicit.has('max_file_size')) {
+        query.max_file_size = config.max_file_size;
+    }
+    if (config.max_depth && !explicit.has('max_depth')) {
+        query.max_depth = config.max_depth;
+    }
+    if (config.max_files && !explicit.has('max_files')) {
+        query.max_files = config.max_files;
+    }
+    if (config.max_total_size && !explicit.has('max_total_size')) {
+        query.max_total_size = config.max_total_size;
+    }
+    if (config.output_format && !explicit.has('output_format')) {
+        query.output_format = config.output_format;
+    }
+    if (config.tokenizer && !explicit.has('tokenizer')) {
+        query.tokenizer = config.tokenizer;
+    }
+    if (config.max_tokens && !query.max_tokens) {
+        query.max_tokens = config.max_tokens;
+    }
+    if (config.header !== undefined && query.header === undefined) {
+        query.header = config.header;
+    }
+    if (config.footer !== undefined && query.footer === undefined) {
+        query.footer = config.footer;
+    }
+    if (config.notebook?.include_output !== undefined && !explicit.has('include_notebook_output')) {
+        query.include_notebook_output = config.notebook.include_output;
+    }
+}
 
-        // Filter out any non-string entries
-        const validPatterns = new Set(patterns.filter(pattern => typeof pattern === 'string'));
-        const invalidPatterns = patterns.filter(pattern => typeof pattern !== 'string');
+/**
+ * Compute the settings of a directory from the settings of its parent, its `.gitignore` file and, for
+ * subdirectories of the ingested directory, its `.gitingest` file.
+ * 
+ * @param node - The directory node
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param parent_scope - The settings of the parent directory
+ * @returns The settings of the directory
+ */
+async function enterDirectory(
+    node: FileSystemNode,
+    query: IngestionQuery,
+    parent_scope: TraversalScope
+): Promise<TraversalScope> {
+    const scope = { ...parent_scope };
 
-        if (invalidPatterns.length > 0) {
-            console.warn(`Ignore patterns ${invalidPatterns} are not strings. Skipping.`);
-        }
+    // Rules of this directory's .gitignore come last, so they override the inherited ones
+    if (query.use_gitignore) {
+        scope.gitignore_rules = [...parent_scope.gitignore_rules, ...await readGitignoreRules(node.path)];
+    }
 
-        if (validPatterns.size === 0) {
-            return;
-        }
+    // The .gitingest file of the ingested directory has already been applied to the query. Invalid settings of
+    // nested files are skipped with a warning, so that a single bad file does not abort the ingestion
+    const config = node.depth > 0 ? await readGitingestConfig(node.path, false, false) : undefined;
+    if (!config) {
+        return scope;
+    }
 
-        if (!query.ignore_patterns) {
-            query.ignore_patterns = validPatterns;
-        } else {
-            validPatterns.forEach(pattern => query.ignore_patterns!.add(pattern));
-        }
-    } catch (error) {
-        console.warn(`Invalid TOML in ${gitingestPath}: ${error}`);
+    const directory = path.relative(query.local_path, node.path).split(path.sep).join('/');
+    if (config.ignore_patterns) {
+        scope.ignore_patterns = appendPatterns(
+            new Set(parent_scope.ignore_patterns),
+            config.ignore_patterns.map(pattern => scopePattern(pattern, directory))
+        );
+    }
+    if (config.include_patterns) {
+        // The include rules of a nested file replace the inherited ones for its subtree
+        scope.include_patterns = new Set(config.include_patterns.map(pattern => scopePattern(pattern, directory)));
+    }
+    if (config.max_file_size) {
+        scope.max_file_size = config.max_file_size;
+    }
+    if (config.notebook?.include_output !== undefined) {
+        scope.include_notebook_output = config.notebook.include_output;
     }
+
+    return scope;
 }
 
 /**
  * Process a file or directory item within a directory.
  * 
  * This function handles each file or directory item, checking if it should be included or excluded based on the
- * provided patterns. It handles symlinks, directories, and files accordingly.
+ * provided patterns, `.gitignore` rules and nested `.gitingest` files. It handles symlinks, directories, and files
+ * accordingly.
  * 
  * @param node - The current directory or file node being processed
  * @param query - The parsed query object containing information about the repository and query parameters
  * @param stats - Statistics tracking object for the total file count and size
+ * @param parent_scope - The settings inherited from the parent directory
+ * @param control - Cancellation signal and progress callback
  * @throws Error if an unexpected error occurs during processing
+ * @throws IngestionCancelledError if the signal is aborted
  */
 async function processNode(
     node: FileSystemNode,
     query: IngestionQuery,
-    stats: FileSystemStats
+    stats: FileSystemStats,
+    parent_scope: TraversalScope,
+    control: IngestionControl
 ): Promise<void> {
-    if (limitExceeded(stats, node.depth)) {
+    if (limitExceeded(stats, node.depth, query)) {
         return;
     }
 
-    const entries = await fs.readdir(node.path, { withFileTypes: true });
+    const scope = await enterDirectory(node, query, parent_scope);
 
-    for (const entry of entries) {
-        console.log(`Processing ${entry.name} in ${node.path}`);
-        const entryPath = path.join(node.path, entry.name);
+    const entries = await fs.readdir(node.path, { withFileTypes: true });
 
-        let symlink_path: string | undefined;
-        let targetPath = entryPath;
+    // Stat the entries concurrently, then decide on them in order so that the limits apply deterministically
+    const resolved_entries = await mapConcurrent(
+        entries,
+        query.max_concurrent_io,
+        entry => resolveEntry(node.path, entry, query),
+        control.signal
+    );
 
-        if (entry.isSymbolicLink()) {
-            if (!await isSafeSymlink(entryPath, query.local_path)) {
-                console.log(`Skipping unsafe symlink: ${entryPath}`);
-                continue;
-            }
+    for (const resolved of resolved_entries) {
+        throwIfCancelled(control.signal);
+        const { entry, symlink_path } = resolved;
+        const entryPath = resolved.entry_path;
+        const targetPath = resolved.target_path;
+        console.log(`Processing ${entry.name} in ${node.path}`);
 
-            symlink_path = entryPath;
-            targetPath = await fs.realpath(entryPath);
+        if (!resolved.target_stats) {
+            console.log(`Skipping unsafe symlink: ${entryPath}`);
+            continue;
         }
 
         if (stats.visited.has(targetPath)) {
@@ -180,21 +606,47 @@ async function processNode(
 
         stats.visited.add(targetPath);
 
-        if (query.ignore_patterns && shouldExclude(targetPath, query.local_path, query.ignore_patterns)) {
+        const targetStats = resolved.target_stats;
+        const is_directory = targetStats.isDirectory();
+
+        if (shouldExclude(targetPath, query.local_path, scope.ignore_patterns, is_directory)) {
+            continue;
+        }
+
+        if (
+            scope.include_patterns &&
+            !shouldInclude(targetPath, query.local_path, scope.include_patterns, is_directory)
+        ) {
+            continue;
+        }
+
+        // The selection names the entries themselves rather than the symlink targets
+        if (query.selected_paths && !isSelected(entryPath, query.local_path, query.selected_paths, is_directory)) {
             continue;
         }
 
-        if (query.include_patterns && !shouldInclude(targetPath, query.local_path, query.include_patterns)) {
+        // Match the entry itself rather than the symlink target, as git does
+        if (
+            scope.gitignore_rules.length > 0 &&
+            isGitignored(path.join(node.path, entry.name), is_directory, scope.gitignore_rules)
+        ) {
             continue;
         }
 
-        const targetStats = await fs.stat(targetPath);
         console.log(`Processing ${targetPath}`);
         // console.log(`Stats: ${JSON.stringify(targetStats)}`);
         if (targetStats.isFile()) {
             console.log(`Processing file ${targetPath}`);
-            await processFile(targetPath, node, stats, query.local_path);
-        } else if (targetStats.isDirectory()) {
+            const file_count = node.file_count;
+            await processFile(targetPath, targetStats, node, stats, query, scope);
+            if (node.file_count > file_count) {
+                control.on_progress?.({
+                    stage: IngestionStage.SCANNING,
+                    message: path.relative(query.local_path, entryPath),
+                    files: stats.total_files,
+                });
+            }
+        } else if (is_directory) {
             console.log(`Processing directory ${targetPath}`);
             const child_directory_node = new FileSystemNode(
                 path.basename(targetPath),
@@ -210,7 +662,16 @@ async function processNode(
                 child_directory_node.path_str = symlink_path;
             }
 
-            await processNode(child_directory_node, query, stats);
+            await processNode(child_directory_node, query, stats, scope, control);
+
+            // Directories entered only because they could contain included (re-included or selected) files are
+            // dropped if they did not
+            if (
+                child_directory_node.file_count === 0 &&
+                (scope.include_patterns || hasNegatedPattern(scope.ignore_patterns) || query.selected_paths)
+            ) {
+                continue;
+            }
             node.children.push(child_directory_node);
             node.size += child_directory_node.size;
             node.file_count += child_directory_node.file_count;
@@ -223,27 +684,58 @@ async function processNode(
     node.sortChildren();
 }
 
+/**
+ * Resolve the symlink of a directory entry, if it is one, and stat its target.
+ * 
+ * @param directory - The absolute path of the directory containing the entry
+ * @param entry - The directory entry
+ * @param query - The parsed query object, whose local path symlinks must stay within
+ * @returns The resolved entry, without stats if it is a symlink pointing outside of the local path
+ */
+async function resolveEntry(directory: string, entry: Dirent, query: IngestionQuery): Promise<ResolvedEntry> {
+    const entry_path = path.join(directory, entry.name);
+
+    if (!entry.isSymbolicLink()) {
+        return { entry, entry_path, target_path: entry_path, target_stats: await fs.stat(entry_path) };
+    }
+
+    if (!await isSafeSymlink(entry_path, query.local_path)) {
+        return { entry, entry_path, target_path: entry_path };
+    }
+
+    const target_path = await fs.realpath(entry_path);
+    return { entry, entry_path, target_path, symlink_path: entry_path, target_stats: await fs.stat(target_path) };
+}
+
 /**
  * Process a file in the file system.
  * 
- * This function checks the file's size, increments the statistics, and reads its content.
- * If the file size exceeds the maximum allowed, it raises an error.
+ * This function checks the file's size, increments the statistics, and adds the file to its parent. Its content is
+ * read later, with `loadContents` or when the digest is formatted.
+ * Files larger than the maximum file size of their directory are skipped.
  * 
  * @param filePath - The full path of the file
+ * @param file_stats - The stats of the file, holding its size and modification time
  * @param parent_node - The parent node to add this file to
  * @param stats - Statistics tracking object for the total file count and size
- * @param local_path - The base path of the repository or directory being processed
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param scope - The settings of the parent directory
  */
 async function processFile(
     filePath: string,
+    file_stats: Stats,
     parent_node: FileSystemNode,
     stats: FileSystemStats,
-    local_path: string
+    query: IngestionQuery,
+    scope: TraversalScope
 ): Promise<void> {
-    const fileStats = await fs.stat(filePath);
-    const file_size = fileStats.size;
+    const file_size = file_stats.size;
+    if (file_size > scope.max_file_size) {
+        console.log(`Skipping file ${filePath}: larger than the maximum file size (${scope.max_file_size} bytes)`);
+        return;
+    }
 
-    if (stats.total_size + file_size > MAX_TOTAL_SIZE_BYTES) {
+    if (stats.total_size + file_size > query.max_total_size) {
         console.log(`Skipping file ${filePath}: would exceed total size limit`);
         return;
     }
@@ -251,26 +743,38 @@ async function processFile(
     stats.total_files += 1;
     stats.total_size += file_size;
 
-    if (stats.total_files > MAX_FILES) {
-        console.log(`Maximum file limit (${MAX_FILES}) reached`);
+    if (stats.total_files > query.max_files) {
+        console.log(`Maximum file limit (${query.max_files}) reached`);
         return;
     }
 
     const child = new FileSystemNode(
         path.basename(filePath),
         FileSystemNodeType.FILE,
-        path.relative(local_path, filePath),
+        path.relative(query.local_path, filePath),
         filePath
     );
     child.size = file_size;
+    child.mtime_ms = file_stats.mtimeMs;
     child.file_count = 1;
     child.depth = parent_node.depth + 1;
+    child.include_notebook_output = scope.include_notebook_output;
 
     parent_node.children.push(child);
     parent_node.size += file_size;
     parent_node.file_count += 1;
 }
 
+/**
+ * Check whether a list of ignore patterns contains a negated pattern.
+ * 
+ * @param ignore_patterns - The ordered ignore rules
+ * @returns True if an ignore pattern starts with `!`, otherwise False
+ */
+function hasNegatedPattern(ignore_patterns: Set<string>): boolean {
+    return Array.from(ignore_patterns).some(pattern => pattern.startsWith('!'));
+}
+
 /**
  * Check if any of the traversal limits have been exceeded.
  * 
@@ -279,21 +783,22 @@ async function processFile(
  * 
  * @param stats - Statistics tracking object for the total file count and size
  * @param depth - The current depth of directory traversal
+ * @param query - The parsed query object holding the limits
  * @returns True if any limit has been exceeded, False otherwise
  */
-function limitExceeded(stats: FileSystemStats, depth: number): boolean {
-    if (depth > MAX_DIRECTORY_DEPTH) {
-        console.log(`Maximum depth limit (${MAX_DIRECTORY_DEPTH}) reached`);
+function limitExceeded(stats: FileSystemStats, depth: number, query: IngestionQuery): boolean {
+    if (depth > query.max_depth) {
+        console.log(`Maximum depth limit (${query.max_depth}) reached`);
         return true;
     }
 
-    if (stats.total_files >= MAX_FILES) {
-        console.log(`Maximum file limit (${MAX_FILES}) reached`);
+    if (stats.total_files >= query.max_files) {
+        console.log(`Maximum file limit (${query.max_files}) reached`);
         return true;
     }
 
-    if (stats.total_size >= MAX_TOTAL_SIZE_BYTES) {
-        console.log(`Maximum total size limit (${(MAX_TOTAL_SIZE_BYTES / 1024 / 1024).toFixed(1)}MB) reached`);
+    if (stats.total_size >= query.max_total_size) {
+        console.log(`Maximum total size limit (${(query.max_total_size / 1024 / 1024).toFixed(1)}MB) reached`);
         return true;
     }
 
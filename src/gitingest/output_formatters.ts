@@ -2,38 +2,1044 @@
  * Functions to ingest and analyze a codebase directory or single file.
  */
 
+import { once } from 'events';
+import { Writable } from 'stream';
+
+import { ChangeStatus, DiffQuery, DiffResult, WorkingTreeChanges } from './types/diff_schema';
 import { FileSystemNode, FileSystemNodeType } from './types/filesystem_schema';
-import { IngestionQuery } from './types/ingestion_schema';
+import { CommitInfo, GitContext, GitContextQuery } from './types/git_context_schema';
+import { DigestChunk, IngestionControl, IngestionQuery, IngestionStage, OutputFormat } from './types/ingestion_schema';
+import { JSON_DIGEST_SCHEMA_VERSION, JsonDigest, JsonDigestNode, JsonDigestQuery } from './types/json_digest_schema';
+import { getLanguageForFile } from './utils/language_utils';
+import { mapConcurrent } from './utils/async_utils';
+import { ContentCache } from './utils/content_cache_utils';
+import { getStatusLetter } from './utils/git_diff_utils';
+import { throwIfCancelled } from './utils/progress_utils';
+import { FileBudgetStatus, TokenBudgetPlan, collectFiles, omitLowestRanked, planTokenBudget } from './utils/token_budget_utils';
+import { Tokenizer, getTokenizer } from './utils/tokenizer_utils';
+
+/** Maximum number of planning passes when fitting a digest under a token budget */
+const MAX_BUDGET_ATTEMPTS = 4;
+
+/** Characters that XML 1.0 does not allow, not even as character references: the C0 controls but tab and newlines */
+const INVALID_XML_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Return the content of a file node to format.
+ * 
+ * @param node - The file node
+ * @returns The content of the file
+ */
+type ContentReader = (node: FileSystemNode) => string;
+
+/** Default content reader, reading the content of the node */
+const readContent: ContentReader = node => node.contentString;
+
+/**
+ * Formatting rules for one output format of the digest.
+ */
+interface DigestFormatter {
+    /** Extension of the output file, including the leading dot */
+    file_extension: string;
+    /**
+     * Wrap the tree-like directory structure.
+     * 
+     * @param tree - The directory structure as generated by `createTreeStructure`
+     * @returns The formatted directory structure section
+     */
+    formatTree(tree: string): string;
+    /**
+     * Format the block emitted for a single file in the file contents.
+     * 
+     * @param node - The file node
+     * @param content - The content of the file to emit
+     * @param index - The 1-based position of the file block in the digest, for formats that number them
+     * @returns The file block
+     */
+    formatFileBlock(node: FileSystemNode, content: string, index?: number): string;
+    /**
+     * Generate the file contents section of all files under a node, piece by piece.
+     * 
+     * Each file is read when its piece is generated, in tree order, so the section never needs to be held in memory
+     * as a whole.
+     * 
+     * @param node - The directory or file node being formatted
+     * @param query - The parsed query object containing information about the repository and query parameters
+     * @param plan - The token budgeting plan, if any
+     * @param read - Reads the content of the files that are not in the plan (defaults to `readContent`)
+     * @returns The pieces of the file contents section, in order
+     */
+    streamContents(
+        node: FileSystemNode,
+        query: IngestionQuery,
+        plan?: TokenBudgetPlan,
+        read?: ContentReader
+    ): Iterable<string>;
+    /**
+     * Assemble the digest written to the output file, piece by piece.
+     * 
+     * @param summary - The summary of the ingestion
+     * @param tree - The formatted directory structure section
+     * @param contents - The pieces of the formatted file contents section
+     * @returns The pieces of the digest, in order
+     */
+    streamDigest(summary: string, tree: string, contents: Iterable<string>): Iterable<string>;
+    /**
+     * Assemble one chunk of a digest split into chunks. Formats that cannot be split leave this undefined.
+     * 
+     * @param part - The 1-based position of the chunk
+     * @param total - The total number of chunks
+     * @param tree - The formatted directory structure section
+     * @param blocks - The file blocks of this chunk, as returned by `formatFileBlock`
+     * @returns The chunk
+     */
+    formatChunk?(part: number, total: number, tree: string, blocks: string[]): string;
+    /**
+     * Format the prompt text placed before the directory structure.
+     * 
+     * @param header - The header text, as configured
+     * @returns The formatted header, or an empty string for formats that carry it elsewhere
+     */
+    formatHeader(header: string): string;
+    /**
+     * Format the prompt text placed after the file contents.
+     * 
+     * @param footer - The footer text, as configured
+     * @returns The formatted footer, or an empty string for formats that carry it elsewhere
+     */
+    formatFooter(footer: string): string;
+}
+
+/** Plain text output, files separated by `=====` headers */
+const TEXT_FORMATTER: DigestFormatter = {
+    file_extension: ".txt",
+    formatTree: (tree: string) => "Directory structure:\n" + tree,
+    formatFileBlock: (node: FileSystemNode, content: string) => {
+        // ================================================
+        // File: README.md
+        // ================================================
+        return `===============================================
+File: ${node.path_str}${node.last_commit ? `\nLast commit: ${formatCommit(node.last_commit)}` : ''}
+===============================================\n
+${content}\n`;
+    },
+    streamContents: (node: FileSystemNode, _query: IngestionQuery, plan?: TokenBudgetPlan, read?: ContentReader) =>
+        streamFileBlocks(node, TEXT_FORMATTER, plan, read),
+    *streamDigest(_summary: string, tree: string, contents: Iterable<string>) {
+        yield tree + "\n";
+        yield* contents;
+    },
+    formatChunk: (part: number, total: number, tree: string, blocks: string[]) =>
+        `Digest part ${part} of ${total}\n\n` + tree + "\n" + blocks.join('\n'),
+    formatHeader: (header: string) => header.trimEnd() + "\n\n",
+    formatFooter: (footer: string) => "\n" + footer.trimEnd() + "\n",
+};
+
+/** Markdown output, with a heading and a language-tagged fenced code block per file */
+const MARKDOWN_FORMATTER: DigestFormatter = {
+    file_extension: ".md",
+    formatTree: (tree: string) => {
+        const fence = createCodeFence(tree);
+        return `## Directory structure\n\n${fence}text\n${tree}${fence}\n`;
+    },
+    formatFileBlock: (node: FileSystemNode, content: string) => {
+        const fence = createCodeFence(content);
+        const language = node.language ?? getLanguageForFile(node.name);
+        const body = content.endsWith('\n') ? content : content + '\n';
+        const last_commit = node.last_commit ? `Last commit: ${formatCommit(node.last_commit)}\n\n` : '';
+        return `### ${node.path_str}\n\n${last_commit}${fence}${language}\n${body}${fence}\n`;
+    },
+    streamContents: (node: FileSystemNode, _query: IngestionQuery, plan?: TokenBudgetPlan, read?: ContentReader) =>
+        streamFileBlocks(node, MARKDOWN_FORMATTER, plan, read),
+    streamDigest: TEXT_FORMATTER.streamDigest,
+    formatChunk: (part: number, total: number, tree: string, blocks: string[]) =>
+        `# Digest part ${part} of ${total}\n\n` + tree + "\n" + blocks.join('\n'),
+    formatHeader: TEXT_FORMATTER.formatHeader,
+    formatFooter: TEXT_FORMATTER.formatFooter,
+};
+
+/**
+ * JSON output, a serialization of the file system tree following the schema in `types/json_digest_schema.ts`.
+ * 
+ * The directory structure is still returned as text for display, but only the JSON document is written to the digest.
+ * The header and footer are fields of the document.
+ */
+const JSON_FORMATTER: DigestFormatter = {
+    file_extension: ".json",
+    formatTree: TEXT_FORMATTER.formatTree,
+    formatFileBlock: (_node: FileSystemNode, content: string) => JSON.stringify(content),
+    streamContents: (node: FileSystemNode, query: IngestionQuery, plan?: TokenBudgetPlan, read?: ContentReader) =>
+        streamJsonDigest(node, query, plan, read),
+    *streamDigest(_summary: string, _tree: string, contents: Iterable<string>) {
+        yield* contents;
+    },
+    formatHeader: () => "",
+    formatFooter: () => "",
+};
+
+/**
+ * XML output, wrapping each file in `<document>` tags as recommended for prompting Claude with long documents.
+ * 
+ * The summary and directory structure get their own tags, and the digest written to the output file includes all
+ * three sections.
+ */
+const XML_FORMATTER: DigestFormatter = {
+    file_extension: ".xml",
+    formatTree: (tree: string) => `<directory_structure>\n${escapeXml(tree)}</directory_structure>\n`,
+    formatFileBlock: (node: FileSystemNode, content: string, index: number = 0) =>
+        formatXmlDocument(node, content, index),
+    *streamContents(
+        node: FileSystemNode,
+        _query: IngestionQuery,
+        plan?: TokenBudgetPlan,
+        read: ContentReader = readContent
+    ) {
+        yield "<documents>\n";
+        let index = 0;
+        for (const file of collectFiles(node)) {
+            const entry = plan?.entries.get(file);
+            if (entry?.status === FileBudgetStatus.OMITTED) {
+                continue;
+            }
+            const content = entry ? entry.content : read(file);
+            index += 1;
+            yield formatXmlDocument(file, content, index);
+        }
+        yield "</documents>\n";
+    },
+    *streamDigest(summary: string, tree: string, contents: Iterable<string>) {
+        yield `<summary>\n${escapeXml(summary.trimEnd())}\n</summary>\n` + tree;
+        yield* contents;
+    },
+    formatChunk: (part: number, total: number, tree: string, blocks: string[]) =>
+        `<digest_part index="${part}" total="${total}" />\n` + tree + `<documents>\n${blocks.join('')}</documents>\n`,
+    formatHeader: (header: string) => `<header>\n${escapeXml(header.trimEnd())}\n</header>\n`,
+    formatFooter: (footer: string) => `<footer>\n${escapeXml(footer.trimEnd())}\n</footer>\n`,
+};
+
+/** Formatters keyed by output format */
+const FORMATTERS: Record<OutputFormat, DigestFormatter> = {
+    [OutputFormat.TEXT]: TEXT_FORMATTER,
+    [OutputFormat.MARKDOWN]: MARKDOWN_FORMATTER,
+    [OutputFormat.JSON]: JSON_FORMATTER,
+    [OutputFormat.XML]: XML_FORMATTER,
+};
+
+/**
+ * Return the output file extension for the given format.
+ * 
+ * @param format - The output format
+ * @returns The file extension, including the leading dot (e.g. '.md')
+ */
+export function getOutputFileExtension(format: OutputFormat): string {
+    return FORMATTERS[format].file_extension;
+}
+
+/**
+ * Assemble the digest written to the output file from the summary, directory structure and file contents.
+ * 
+ * @param format - The output format the directory structure and file contents were generated with
+ * @param summary - The summary returned by `formatNode`
+ * @param tree - The directory structure returned by `formatNode`
+ * @param content - The file contents returned by `formatNode`
+ * @returns The digest
+ */
+export function createDigest(format: OutputFormat, summary: string, tree: string, content: string): string {
+    return joinDigest(FORMATTERS[format], summary, tree, content);
+}
+
+/**
+ * Serialize a file system node and the query metadata into a JSON digest.
+ * 
+ * @param node - The directory or file node to serialize
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param plan - The token budgeting plan, if any. Omitted files get a null content and truncated files are cut
+ * @returns The JSON digest object
+ */
+export function createJsonDigest(node: FileSystemNode, query: IngestionQuery, plan?: TokenBudgetPlan): JsonDigest {
+    const tokenizer = getTokenizer(query.tokenizer);
+    let total_tokens = 0;
+
+    const serialize = (current: FileSystemNode): JsonDigestNode => {
+        const json_node = createJsonNode(current, tokenizer, plan);
+        if (current.type === FileSystemNodeType.DIRECTORY) {
+            json_node.children = current.children.map(child => serialize(child));
+        }
+        total_tokens += json_node.tokens || 0;
+        return json_node;
+    };
+
+    const root = serialize(node);
+
+    return {
+        schema_version: JSON_DIGEST_SCHEMA_VERSION,
+        query: createJsonQuery(query),
+        tokenizer: tokenizer.name,
+        total_tokens,
+        max_tokens: query.max_tokens,
+        header: query.header,
+        footer: query.footer,
+        root,
+    };
+}
+
+/**
+ * Generate the JSON digest of a file system node piece by piece, as `JSON.stringify(digest, null, 2)` would format it.
+ * 
+ * Each file is read when its piece is generated. Since the total token count is only known once every file has been
+ * serialized, the fields following the root (`total_tokens`, `max_tokens`, `header`, `footer`) come after it.
+ * 
+ * @param node - The directory or file node to serialize
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param plan - The token budgeting plan, if any. Omitted files get a null content and truncated files are cut
+ * @param read - Reads the content of the files that are not in the plan
+ * @returns The pieces of the JSON document, in order
+ */
+function* streamJsonDigest(
+    node: FileSystemNode,
+    query: IngestionQuery,
+    plan?: TokenBudgetPlan,
+    read: ContentReader = readContent
+): Generator<string> {
+    const tokenizer = getTokenizer(query.tokenizer);
+    let total_tokens = 0;
+
+    function* serialize(current: FileSystemNode, indent: string): Generator<string> {
+        const json_node = createJsonNode(current, tokenizer, plan, read);
+        total_tokens += json_node.tokens || 0;
+        const fields = indentJson(JSON.stringify(json_node, null, 2), indent);
+
+        if (current.type !== FileSystemNodeType.DIRECTORY) {
+            yield fields;
+            return;
+        }
+        if (current.children.length === 0) {
+            yield fields.slice(0, -2 - indent.length) + `,\n${indent}  "children": []\n${indent}}`;
+            return;
+        }
+
+        // Open the children array in place of the closing brace of the fields
+        yield fields.slice(0, -2 - indent.length) + `,\n${indent}  "children": [`;
+        for (let index = 0; index < current.children.length; index++) {
+            yield `${index > 0 ? "," : ""}\n${indent}    `;
+            yield* serialize(current.children[index], indent + "    ");
+        }
+        yield `\n${indent}  ]\n${indent}}`;
+    }
+
+    const head = JSON.stringify({
+        schema_version: JSON_DIGEST_SCHEMA_VERSION,
+        query: createJsonQuery(query),
+        tokenizer: tokenizer.name,
+    }, null, 2);
+    yield head.slice(0, -2) + `,\n  "root": `;
+    yield* serialize(node, "  ");
+
+    const tail = JSON.stringify({
+        total_tokens,
+        max_tokens: query.max_tokens,
+        header: query.header,
+        footer: query.footer,
+    }, null, 2);
+    yield "," + tail.slice(1) + "\n";
+}
+
+/**
+ * Serialize the query metadata of a JSON digest.
+ * 
+ * @param query - The parsed query object
+ * @returns The query metadata
+ */
+function createJsonQuery(query: IngestionQuery): JsonDigestQuery {
+    return {
+        slug: query.slug,
+        url: query.url,
+        user_name: query.user_name,
+        repo_name: query.repo_name,
+        branch: query.branch,
+        commit: query.commit,
+        pull_request: query.pull_request,
+        subpath: query.subpath,
+        type: query.type,
+        git: query.git_context?.result,
+        diff: query.diff?.result && {
+            base: query.diff.base,
+            head: query.diff.head,
+            merge_base: query.diff.merge_base,
+            working_tree: query.diff.working_tree,
+            base_commit: query.diff.result.base_commit,
+            head_commit: query.diff.result.head_commit,
+            commit_count: query.diff.result.commit_count,
+            files: query.diff.result.files.map(({ status, path, old_path, additions, deletions }) => (
+                { status, path, old_path, additions, deletions }
+            )),
+        },
+    };
+}
+
+/**
+ * Serialize a file system node for a JSON digest, without its children.
+ * 
+ * @param node - The directory or file node to serialize
+ * @param tokenizer - The tokenizer counting the tokens of file contents
+ * @param plan - The token budgeting plan, if any
+ * @param read - Reads the content of a file that is not in the plan
+ * @returns The JSON node, with the content and token count of a file
+ */
+function createJsonNode(
+    node: FileSystemNode,
+    tokenizer: Tokenizer,
+    plan?: TokenBudgetPlan,
+    read: ContentReader = readContent
+): JsonDigestNode {
+    const json_node: JsonDigestNode = {
+        name: node.name,
+        path_str: node.path_str,
+        type: node.type,
+        size: node.size,
+        file_count: node.file_count,
+        dir_count: node.dir_count,
+        depth: node.depth,
+    };
+
+    if (node.type === FileSystemNodeType.DIRECTORY) {
+        return json_node;
+    }
+
+    const entry = plan?.entries.get(node);
+    // The count of a whole file is kept on its node, and taken before reading it, which may release its content
+    const whole_file_tokens = entry ? undefined : node.countTokens(tokenizer);
+    const content = entry ? entry.content : read(node);
+    const omitted = entry?.status === FileBudgetStatus.OMITTED;
+
+    json_node.content = omitted ? null : content;
+    json_node.tokens = omitted ? 0 : whole_file_tokens ?? tokenizer.countTokens(content);
+    if (entry) {
+        json_node.budget_status = entry.status;
+    }
+    if (node.last_commit) {
+        json_node.last_commit = node.last_commit;
+    }
+
+    return json_node;
+}
+
+/**
+ * Indent every line but the first of a JSON text, to nest it in an enclosing document.
+ * 
+ * @param json - The JSON text, whose strings cannot contain line breaks since they are escaped
+ * @param indent - The indentation to add
+ * @returns The indented JSON text
+ */
+function indentJson(json: string, indent: string): string {
+    return json.replace(/\n/g, "\n" + indent);
+}
 
 /**
  * Generate a summary, directory structure, and file contents for a given file system node.
  * 
- * If the node represents a directory, the function will recursively process its contents.
+ * If the node represents a directory, the function will recursively process its contents. If the query has a token
+ * budget (`max_tokens`), files are included, truncated or omitted so that the directory structure and file contents
+ * fit within it. The header and footer of the query are prepended to the directory structure and appended to the file
+ * contents, and count against the token budget.
+ * 
+ * Formatting runs synchronously: the signal of the control is only checked before it starts.
  * 
  * @param node - The file system node to be summarized
  * @param query - The parsed query object containing information about the repository and query parameters
+ * @param control - Cancellation signal and progress callback
  * @returns A tuple containing the summary, directory structure, and file contents
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export function formatNode(
+    node: FileSystemNode,
+    query: IngestionQuery,
+    control: IngestionControl = {}
+): [string, string, string] {
+    startFormatting(node, control);
+    let summary = createSummary(node, query);
+
+    const formatter = FORMATTERS[query.output_format];
+    const [header, footer] = formatPrompts(formatter, query);
+    let tree: string;
+    let content: string;
+    let plan: TokenBudgetPlan | undefined;
+
+    if (query.max_tokens) {
+        const budget = Math.max(0, query.max_tokens - getTokenizer(query.tokenizer).countTokens(header + footer));
+        [tree, content, plan] = fitTokenBudget(node, query, formatter, budget, control, summary);
+    } else {
+        tree = formatter.formatTree(createTreeStructure(query, node));
+        content = joinContents(formatter, node, query);
+    }
+    tree = header + tree;
+    content += footer;
+
+    const token_count = formatTokenCount(joinDigest(formatter, summary, tree, content), query.tokenizer);
+    if (token_count) {
+        summary += `\nTokens: ${token_count}`;
+    }
+
+    if (plan && query.max_tokens) {
+        summary += createBudgetSummary(plan, query.max_tokens);
+    }
+
+    return [summary, tree, content];
+}
+
+/**
+ * Write the digest of a file system node to a stream, as `createDigest` would assemble it from `formatNode`.
+ * 
+ * The digest is written piece by piece: the files are read concurrently a few blocks ahead of the writer and released
+ * once written, and the tokens are counted one piece at a time, so a large repository never needs to be held in
+ * memory. Writing waits for the stream to drain when its buffer is full. With a token budget (`max_tokens`), the
+ * digest is planned as a whole as in `formatNode`, which its budget keeps small.
+ * 
+ * The XML digest starts with the summary, which is written before the token count is known and so does not include
+ * it. The JSON digest has its `total_tokens` field after the `root` node, for the same reason.
+ * 
+ * @param node - The file system node to be formatted
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param output - The stream the digest is written to, such as a file, standard output or an HTTP response. It is
+ *                 not ended, so that more can be written to it
+ * @param control - Cancellation signal, checked before each piece, and progress callback
+ * @param cache - The persistent content cache of the directory, from which unchanged files are taken, if any
+ * @returns The summary, including the token count of the digest
+ * @throws IngestionCancelledError if the signal is aborted
+ * @throws Error if the stream fails
  */
-export function formatNode(node: FileSystemNode, query: IngestionQuery): [string, string, string] {
+export async function writeDigest(
+    node: FileSystemNode,
+    query: IngestionQuery,
+    output: Writable,
+    control: IngestionControl = {},
+    cache?: ContentCache
+): Promise<string> {
+    let failure: Error | undefined;
+    const onError = (error: Error) => {
+        failure = error;
+    };
+    output.on('error', onError);
+
+    const write = async (text: string) => {
+        throwIfCancelled(control.signal);
+        if (failure) {
+            throw failure;
+        }
+        if (text && !output.write(text)) {
+            await once(output, 'drain');
+        }
+    };
+
+    const files = collectFiles(node);
+
+    try {
+        if (query.max_tokens) {
+            // Planning reads every file, so they are all loaded up front and released once the digest is written
+            await mapConcurrent(files, query.max_concurrent_io, file => file.loadContent(cache), control.signal);
+            const [summary, tree, content] = formatNode(node, query, control);
+            files.forEach(file => file.releaseContent());
+            await write(joinDigest(FORMATTERS[query.output_format], summary, tree, content));
+            return summary;
+        }
+
+        startFormatting(node, control);
+        const formatter = FORMATTERS[query.output_format];
+        const tokenizer = getTokenizer(query.tokenizer);
+        const summary = createSummary(node, query);
+        const [header, footer] = formatPrompts(formatter, query);
+        const tree = header + formatter.formatTree(createTreeStructure(query, node));
+
+        // The formatters read the files in tree order: read ahead of them, and release each file once it is formatted
+        const loads: Promise<void>[] = [];
+        let consumed = 0;
+        const readAhead = async () => {
+            while (loads.length < Math.min(files.length, consumed + query.max_concurrent_io)) {
+                loads.push(files[loads.length].loadContent(cache).then(() => undefined));
+            }
+            if (consumed < files.length) {
+                await loads[consumed];
+            }
+        };
+        const read: ContentReader = file => {
+            const content = file.contentString;
+            file.releaseContent();
+            consumed += 1;
+            return content;
+        };
+
+        const contents = function* () {
+            yield* formatter.streamContents(node, query, undefined, read);
+            yield footer;
+        };
+
+        let total_tokens = 0;
+        const pieces = formatter.streamDigest(summary, tree, contents())[Symbol.iterator]();
+        for (;;) {
+            await readAhead();
+            const piece = pieces.next();
+            if (piece.done) {
+                break;
+            }
+            total_tokens += tokenizer.countTokens(piece.value);
+            await write(piece.value);
+        }
+
+        return summary + `\nTokens: ${formatTokenTotal(total_tokens, tokenizer.name)}`;
+    } finally {
+        output.off('error', onError);
+    }
+}
+
+/**
+ * Split the digest of a file system node into chunks of bounded size.
+ * 
+ * The size limit is taken from the query: `chunk_tokens` (counted with the query tokenizer) or `chunk_bytes` (UTF-8).
+ * Every chunk starts with a "part k of n" header followed by the full directory structure, so each one can be read on
+ * its own. The header and footer of the query are repeated in every chunk. Chunks only break between files; a file
+ * too large to fit in a chunk by itself is split at line boundaries (and a single line too long for a chunk is split
+ * in the middle).
+ * 
+ * @param node - The file system node to be formatted
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param control - Cancellation signal and progress callback, as for `formatNode`
+ * @returns The chunks of the digest, in order
+ * @throws Error if no chunk size is set, if the output format cannot be chunked, or if the chunk size is too small
+ *         to hold the header and directory structure
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export function formatChunks(
+    node: FileSystemNode,
+    query: IngestionQuery,
+    control: IngestionControl = {}
+): DigestChunk[] {
+    startFormatting(node, control);
+    const formatter = FORMATTERS[query.output_format];
+    if (!formatter.formatChunk) {
+        throw new Error(`The ${query.output_format} output format cannot be split into chunks`);
+    }
+
+    const limit = query.chunk_tokens || query.chunk_bytes;
+    if (!limit) {
+        throw new Error("A chunk size (chunk_tokens or chunk_bytes) is required to split a digest into chunks");
+    }
+
+    const tokenizer = getTokenizer(query.tokenizer);
+    const measure = query.chunk_tokens ?
+        (text: string) => tokenizer.countTokens(text) :
+        (text: string) => Buffer.byteLength(text, 'utf-8');
+    const unit = query.chunk_tokens ? "tokens" : "bytes";
+
+    const [header, footer] = formatPrompts(formatter, query);
+    let tree: string;
+    let plan: TokenBudgetPlan | undefined;
+    if (query.max_tokens) {
+        const budget = Math.max(0, query.max_tokens - tokenizer.countTokens(header + footer));
+        [tree, , plan] = fitTokenBudget(node, query, formatter, budget, control);
+    } else {
+        tree = formatter.formatTree(createTreeStructure(query, node));
+    }
+    tree = header + tree;
+
+    // Header, directory structure and footer are repeated in every chunk, measured with the widest part numbers
+    const overhead = measure(formatter.formatChunk(99999, 99999, tree, []) + footer);
+    const available = limit - overhead;
+    if (available <= 0) {
+        throw new Error(
+            `Chunk size of ${limit} ${unit} is too small: the header and directory structure alone take ${overhead} ${unit}`
+        );
+    }
+
+    // Split files into blocks that each fit within a chunk
+    const blocks: { label: string; block: string; size: number }[] = [];
+    let index = 0;
+    for (const file of collectFiles(node)) {
+        const entry = plan?.entries.get(file);
+        if (entry?.status === FileBudgetStatus.OMITTED) {
+            continue;
+        }
+        const content = entry ? entry.content : file.contentString;
+
+        const whole = formatter.formatFileBlock(file, content, index + 1);
+        const whole_size = measure(whole) + 1;
+        if (whole_size <= available) {
+            blocks.push({ label: file.path_str, block: whole, size: whole_size });
+            index += 1;
+            continue;
+        }
+
+        const pieces = splitContent(file, content, available, formatter, measure);
+        pieces.forEach((piece, piece_index) => {
+            const piece_node = new FileSystemNode(
+                file.name,
+                file.type,
+                `${file.path_str} (piece ${piece_index + 1} of ${pieces.length}, lines ${piece.first_line}-${piece.last_line})`,
+                file.path
+            );
+            piece_node.last_commit = file.last_commit;
+            const block = formatter.formatFileBlock(piece_node, piece.content, index + 1);
+            blocks.push({ label: piece_node.path_str, block, size: measure(block) + 1 });
+            index += 1;
+        });
+    }
+
+    // Greedily pack the blocks into chunks
+    const groups: { labels: string[]; blocks: string[] }[] = [];
+    let current: { labels: string[]; blocks: string[] } = { labels: [], blocks: [] };
+    let current_size = 0;
+    for (const { label, block, size } of blocks) {
+        if (current.blocks.length > 0 && current_size + size > available) {
+            groups.push(current);
+            current = { labels: [], blocks: [] };
+            current_size = 0;
+        }
+        current.labels.push(label);
+        current.blocks.push(block);
+        current_size += size;
+    }
+    if (current.blocks.length > 0 || groups.length === 0) {
+        groups.push(current);
+    }
+
+    return groups.map((group, group_index) => {
+        const content = formatter.formatChunk!(group_index + 1, groups.length, tree, group.blocks) + footer;
+        return {
+            part: group_index + 1,
+            total: groups.length,
+            content,
+            files: group.labels,
+            tokens: tokenizer.countTokens(content),
+            bytes: Buffer.byteLength(content, 'utf-8'),
+        };
+    });
+}
+
+/**
+ * Format the header and footer of a query.
+ * 
+ * @param formatter - The formatter of the requested output format
+ * @param query - The parsed query object holding the header and footer
+ * @returns A tuple containing the formatted header and footer, empty when they are not set
+ */
+function formatPrompts(formatter: DigestFormatter, query: IngestionQuery): [string, string] {
+    return [
+        query.header ? formatter.formatHeader(query.header) : "",
+        query.footer ? formatter.formatFooter(query.footer) : "",
+    ];
+}
+
+/**
+ * Split the content of a file at line boundaries into pieces whose blocks fit within the given size.
+ * 
+ * @param file - The file node
+ * @param content - The content of the file
+ * @param available - The maximum size of a file block
+ * @param formatter - The formatter of the requested output format
+ * @param measure - The function measuring the size of a text, in tokens or bytes
+ * @returns The pieces, with the 1-based range of lines they cover
+ */
+function splitContent(
+    file: FileSystemNode,
+    content: string,
+    available: number,
+    formatter: DigestFormatter,
+    measure: (text: string) => number
+): { content: string; first_line: number; last_line: number }[] {
+    // Room left for the content once the block header is accounted for, measured with a worst-case label
+    const label = `${file.path_str} (piece 99999 of 99999, lines 9999999-9999999)`;
+    const empty_node = new FileSystemNode(file.name, file.type, label, file.path);
+    empty_node.last_commit = file.last_commit;
+    const empty_block = formatter.formatFileBlock(empty_node, "", 99999);
+    const room = available - measure(empty_block) - 1;
+    if (room <= 0) {
+        throw new Error(`Chunk size is too small to hold any content of ${file.path_str}`);
+    }
+
+    // Break lines that are too long on their own
+    const lines: { text: string; line: number }[] = [];
+    content.split('\n').forEach((text, line_index) => {
+        for (const part of splitLongText(text + '\n', room, measure)) {
+            lines.push({ text: part, line: line_index + 1 });
+        }
+    });
+
+    const pieces: { content: string; first_line: number; last_line: number }[] = [];
+    let current: { text: string; line: number }[] = [];
+    let current_size = 0;
+
+    const flush = () => {
+        if (current.length > 0) {
+            pieces.push({
+                content: current.map(line => line.text).join('').replace(/\n$/, ''),
+                first_line: current[0].line,
+                last_line: current[current.length - 1].line,
+            });
+        }
+        current = [];
+        current_size = 0;
+    };
+
+    for (const line of lines) {
+        const line_size = measure(line.text);
+        if (current.length > 0 && current_size + line_size > room) {
+            flush();
+        }
+        current.push(line);
+        current_size += line_size;
+    }
+    flush();
+
+    return pieces;
+}
+
+/**
+ * Split a text that is too large into halves, recursively, until every part fits within the given size.
+ * 
+ * @param text - The text to split
+ * @param room - The maximum size of a part
+ * @param measure - The function measuring the size of a text, in tokens or bytes
+ * @returns The parts, in order
+ */
+function splitLongText(text: string, room: number, measure: (text: string) => number): string[] {
+    if (text.length <= 1 || measure(text) <= room) {
+        return [text];
+    }
+    let middle = Math.ceil(text.length / 2);
+    // Never separate the two halves of a surrogate pair
+    const code = text.charCodeAt(middle - 1);
+    if (code >= 0xD800 && code <= 0xDBFF) {
+        middle += 1;
+    }
+    return [
+        ...splitLongText(text.slice(0, middle), room, measure),
+        ...splitLongText(text.slice(middle), room, measure),
+    ];
+}
+
+/**
+ * Generate the directory structure and file contents of a node so that they fit within a token budget.
+ * 
+ * The budget left for file contents is the total budget minus the directory structure, which always lists every file
+ * and marks those that were truncated or omitted. Formats that write the summary into the digest (XML) also count it,
+ * with its token count and the lists of truncated and omitted files. Since the markers and separators are only
+ * estimated up front, the plan is recomputed with a tighter budget in the rare case the result still overshoots, and
+ * the last pass drops the lowest-ranked files until the digest fits. Only the directory structure and summary, which
+ * list every file, can then exceed the budget.
+ * 
+ * @param node - The file system node to be formatted
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param formatter - The formatter of the requested output format
+ * @param max_tokens - The maximum number of tokens for the directory structure and file contents
+ * @param control - Progress callback, called before each planning pass
+ * @param summary - The summary, before its token count, if it is written into the digest with the other sections
+ * @returns A tuple containing the directory structure, file contents, and the budgeting plan
+ */
+function fitTokenBudget(
+    node: FileSystemNode,
+    query: IngestionQuery,
+    formatter: DigestFormatter,
+    max_tokens: number,
+    control: IngestionControl,
+    summary?: string
+): [string, string, TokenBudgetPlan] {
+    const tokenizer = getTokenizer(query.tokenizer);
+    const files = collectFiles(node);
+
+    const formatPlan = (plan: TokenBudgetPlan): [string, string, number] => {
+        const tree = formatter.formatTree(createTreeStructure(query, node, "", true, plan));
+        const content = joinContents(formatter, node, query, plan);
+        // The token count is not known yet, and is written no longer than the budget it has to fit in
+        const digest_summary = summary === undefined ? "" :
+            summary + `\nTokens: ${formatTokenTotal(query.max_tokens!, tokenizer.name)}` +
+            createBudgetSummary(plan, query.max_tokens!);
+        return [tree, content, tokenizer.countTokens(joinDigest(formatter, digest_summary, tree, content))];
+    };
+
+    // Upper bound for the directory structure: every file carrying the longest marker
+    const worst_case_plan: TokenBudgetPlan = {
+        budget: 0,
+        used_tokens: 0,
+        entries: new Map(files.map(file => [file, { status: FileBudgetStatus.TRUNCATED, content: "", tokens: 0, full_tokens: 0 }])),
+        omitted: [],
+        truncated: files,
+    };
+    const worst_case_tree = formatter.formatTree(createTreeStructure(query, node, "", true, worst_case_plan));
+    let overhead = tokenizer.countTokens(worst_case_tree) + files.length;
+
+    for (let attempt = 1; ; attempt++) {
+        control.on_progress?.({
+            stage: IngestionStage.FORMATTING,
+            message: `Fitting ${files.length} files in ${max_tokens} tokens (pass ${attempt})`,
+            files: files.length,
+        });
+        const plan = planTokenBudget(files, Math.max(0, max_tokens - overhead), tokenizer, formatter.formatFileBlock);
+        let [tree, content, total_tokens] = formatPlan(plan);
+
+        if (attempt >= MAX_BUDGET_ATTEMPTS) {
+            while (total_tokens > max_tokens && omitLowestRanked(plan, files)) {
+                [tree, content, total_tokens] = formatPlan(plan);
+            }
+        }
+        if (total_tokens <= max_tokens || attempt >= MAX_BUDGET_ATTEMPTS) {
+            return [tree, content, plan];
+        }
+        // Grow the correction on each attempt so that planning converges quickly
+        overhead += (total_tokens - max_tokens) * attempt;
+    }
+}
+
+/**
+ * Check that the operation has not been cancelled and report the start of the formatting stage.
+ * 
+ * @param node - The file system node to be formatted
+ * @param control - Cancellation signal and progress callback
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+function startFormatting(node: FileSystemNode, control: IngestionControl): void {
+    throwIfCancelled(control.signal);
+    control.on_progress?.({
+        stage: IngestionStage.FORMATTING,
+        message: `Formatting ${node.file_count} files`,
+        files: node.file_count,
+    });
+}
+
+/**
+ * Create the summary of a file system node, before its token count.
+ * 
+ * @param node - The file system node being formatted
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @returns The summary
+ */
+function createSummary(node: FileSystemNode, query: IngestionQuery): string {
     const is_single_file = node.type === FileSystemNodeType.FILE;
     let summary = createSummaryPrefix(query, is_single_file);
 
-    if (node.type === FileSystemNodeType.DIRECTORY) {
+    if (query.git_context?.result) {
+        summary += createGitContextSummary(query.git_context, query.git_context.result);
+    }
+
+    if (query.diff?.result) {
+        summary += createDiffSummary(query.diff, query.diff.result);
+    } else if (node.type === FileSystemNodeType.DIRECTORY) {
         summary += `Files analyzed: ${node.file_count}\n`;
     } else {
         summary += `File: ${node.name}\n`;
         summary += `Lines: ${node.content.split('\n').length.toLocaleString()}\n`;
     }
 
-    const tree = "Directory structure:\n" + createTreeStructure(query, node);
-    const content = gatherFileContents(node);
+    return summary;
+}
 
-    const token_estimate = formatTokenCount(tree + content);
-    if (token_estimate) {
-        summary += `\nEstimated tokens: ${token_estimate}`;
+/**
+ * Create the summary section describing the state and recent history of the ingested repository.
+ * 
+ * @param git_context - The git context query
+ * @param context - The git context read from the repository
+ * @returns The summary section
+ */
+function createGitContextSummary(git_context: GitContextQuery, context: GitContext): string {
+    let summary = `Head: ${context.head_commit.slice(0, 12)}${context.branch ? ` on ${context.branch}` : ''}, ` +
+        `committed ${context.commit_date}\n`;
+    if (context.remote_url) {
+        summary += `Remote: ${context.remote_url}\n`;
+    }
+    if (context.uncommitted_changes !== undefined) {
+        const changes = context.uncommitted_changes;
+        summary += `Working tree: ${changes === 0 ? 'clean' : `${changes} uncommitted change${changes === 1 ? '' : 's'}`}\n`;
+    }
+    if (context.shallow) {
+        summary += `History: shallow clone, commits older than ${git_context.history_depth} are missing\n`;
     }
 
-    return [summary, tree, content];
+    if (context.commits.length > 0) {
+        summary += `Recent commits${git_context.log_per_path ? ' of the ingested path' : ''}:\n`;
+        for (const commit of context.commits) {
+            summary += `  ${formatCommit(commit)}\n`;
+        }
+    }
+
+    return summary;
+}
+
+/**
+ * Format a commit on one line, e.g. '1a2b3c4 2024-05-01 Jane Doe: Fix the parser'.
+ * 
+ * @param commit - The commit
+ * @returns The short hash, author date, author and subject of the commit
+ */
+function formatCommit(commit: CommitInfo): string {
+    return `${commit.hash.slice(0, 7)} ${commit.date.slice(0, 10)} ${commit.author}: ${commit.subject}`;
+}
+
+/**
+ * Create the summary section of a diff mode digest: the range of commits and the changed files.
+ * 
+ * @param diff - The diff of the query
+ * @param result - The resolved range and changed files of the diff
+ * @returns The summary section
+ */
+function createDiffSummary(diff: DiffQuery, result: DiffResult): string {
+    const short = (commit: string) => commit.slice(0, 12);
+    let summary: string;
+    if (diff.working_tree === WorkingTreeChanges.STAGED) {
+        summary = 'Diff: staged changes\n' +
+            (result.base_commit ? `Base: ${short(result.base_commit)} (${diff.base})\n` : 'Base: none, no commits yet\n');
+    } else if (diff.working_tree === WorkingTreeChanges.UNSTAGED) {
+        summary = `Diff: unstaged changes\nBase: index\n`;
+    } else {
+        summary = `Diff: ${diff.base}${diff.merge_base ? '...' : '..'}${diff.head}\n`;
+        summary += `Base: ${short(result.base_commit!)}${diff.merge_base ? ` (merge base of ${diff.base})` : ''}\n`;
+        summary += `Head: ${short(result.head_commit!)}\n`;
+        summary += `Commits: ${result.commit_count}\n`;
+    }
+
+    const status_counts = new Map<ChangeStatus, number>();
+    let additions = 0;
+    let deletions = 0;
+    for (const file of result.files) {
+        status_counts.set(file.status, (status_counts.get(file.status) ?? 0) + 1);
+        additions += file.additions;
+        deletions += file.deletions;
+    }
+
+    const counts = Array.from(status_counts, ([status, count]) => `${count} ${status}`).join(', ');
+    summary += `Changed files: ${result.files.length}${counts ? ` (${counts})` : ''}, +${additions} -${deletions} lines\n`;
+    for (const file of result.files) {
+        const file_path = file.old_path !== undefined ? `${file.old_path} -> ${file.path}` : file.path;
+        summary += `  ${getStatusLetter(file.status)} ${file_path} (+${file.additions} -${file.deletions})\n`;
+    }
+
+    return summary;
+}
+
+/**
+ * Create the summary section describing how the digest was fitted under the token budget.
+ * 
+ * @param plan - The budgeting plan
+ * @param max_tokens - The maximum number of tokens requested
+ * @returns The summary section, listing truncated and omitted files
+ */
+function createBudgetSummary(plan: TokenBudgetPlan, max_tokens: number): string {
+    let summary = `\nToken budget: ${max_tokens.toLocaleString('en-US')}`;
+
+    if (plan.truncated.length > 0) {
+        summary += `\nTruncated files (${plan.truncated.length}):`;
+        for (const file of plan.truncated) {
+            const entry = plan.entries.get(file)!;
+            summary += `\n  - ${file.path_str} (${entry.tokens.toLocaleString('en-US')} of ${entry.full_tokens.toLocaleString('en-US')} tokens)`;
+        }
+    }
+
+    if (plan.omitted.length > 0) {
+        summary += `\nOmitted files (${plan.omitted.length}):`;
+        for (const file of plan.omitted) {
+            const entry = plan.entries.get(file)!;
+            summary += `\n  - ${file.path_str} (${entry.full_tokens.toLocaleString('en-US')} tokens)`;
+        }
+    }
+
+    return summary;
 }
 
 /**
@@ -48,14 +1054,16 @@ export function formatNode(node: FileSystemNode, query: IngestionQuery): [string
 function createSummaryPrefix(query: IngestionQuery, single_file: boolean = false): string {
     const parts: string[] = [];
 
-    if (query.user_name) {
-        parts.push(`Repository: ${query.user_name}/${query.repo_name}`);
+    if (query.repo_name) {
+        parts.push(`Repository: ${query.user_name ? `${query.user_name}/` : ''}${query.repo_name}`);
     } else {
         // Local scenario
         parts.push(`Directory: ${query.slug}`);
     }
 
-    if (query.commit) {
+    if (query.pull_request) {
+        parts.push(`Pull request: #${query.pull_request.number} (${query.pull_request.ref})`);
+    } else if (query.commit) {
         parts.push(`Commit: ${query.commit}`);
     } else if (query.branch && !["main", "master"].includes(query.branch.toLowerCase())) {
         parts.push(`Branch: ${query.branch}`);
@@ -69,33 +1077,133 @@ function createSummaryPrefix(query: IngestionQuery, single_file: boolean = false
 }
 
 /**
- * Recursively gather contents of all files under the given node.
+ * Generate the blocks of all files under the given node, separated by blank lines.
  * 
- * This function recursively processes a directory node and gathers the contents of all files
- * under that node. It returns the concatenated content of all files as a single string.
+ * The content of each file is read when its block is generated.
  * 
  * @param node - The current directory or file node being processed
- * @returns The concatenated content of all files under the given node
+ * @param formatter - The formatter of the requested output format
+ * @param plan - The token budgeting plan, if any. Omitted files are skipped and truncated files are cut
+ * @param read - Reads the content of the files that are not in the plan
+ * @returns The file blocks, in tree order
  */
-function gatherFileContents(node: FileSystemNode): string {
-    if (node.type === FileSystemNodeType.FILE) {
-        // Get file extension for syntax highlighting
-        const ext = node.name.split('.').pop() || '';
-        // Format content with markdown code block and file path
-        // ================================================
-        // File: README.md
-        // ================================================
-        let str = `===============================================
-File: ${node.path_str}
-===============================================\n
-${node.contentString}\n`;
-        return str;
+function* streamFileBlocks(
+    node: FileSystemNode,
+    formatter: DigestFormatter,
+    plan?: TokenBudgetPlan,
+    read: ContentReader = readContent
+): Generator<string> {
+    let first = true;
+
+    for (const file of collectFiles(node)) {
+        const entry = plan?.entries.get(file);
+        if (plan && (!entry || entry.status === FileBudgetStatus.OMITTED)) {
+            continue;
+        }
+
+        const block = formatter.formatFileBlock(file, entry ? entry.content : read(file));
+        yield first ? block : "\n" + block;
+        first = false;
     }
+}
+
+/**
+ * Format the file contents section of all files under a node as a single string.
+ * 
+ * @param formatter - The formatter of the requested output format
+ * @param node - The directory or file node being formatted
+ * @param query - The parsed query object containing information about the repository and query parameters
+ * @param plan - The token budgeting plan, if any
+ * @returns The file contents section
+ */
+function joinContents(
+    formatter: DigestFormatter,
+    node: FileSystemNode,
+    query: IngestionQuery,
+    plan?: TokenBudgetPlan
+): string {
+    return Array.from(formatter.streamContents(node, query, plan)).join('');
+}
 
-    // Process all children (both files and directories) recursively
-    return node.children
-        .map(child => gatherFileContents(child))
-        .join('\n');
+/**
+ * Assemble the digest written to the output file as a single string.
+ * 
+ * @param formatter - The formatter of the requested output format
+ * @param summary - The summary of the ingestion
+ * @param tree - The formatted directory structure section
+ * @param content - The formatted file contents section
+ * @returns The digest
+ */
+function joinDigest(formatter: DigestFormatter, summary: string, tree: string, content: string): string {
+    return Array.from(formatter.streamDigest(summary, tree, [content])).join('');
+}
+
+/**
+ * Create a Markdown code fence that cannot be closed by the given content.
+ * 
+ * The fence is made one backtick longer than the longest run of backticks in the content, with a minimum of three.
+ * 
+ * @param content - The content that will be placed inside the code block
+ * @returns The code fence
+ */
+function createCodeFence(content: string): string {
+    const runs = content.match(/`+/g) || [];
+    const longest = runs.reduce((max, run) => Math.max(max, run.length), 0);
+    return "`".repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Format a single file as an XML `<document>` element.
+ * 
+ * @param node - The file node
+ * @param content - The content of the file to emit
+ * @param index - The 1-based position of the document in the digest
+ * @returns The `<document>` element
+ */
+function formatXmlDocument(node: FileSystemNode, content: string, index: number): string {
+    return `<document index="${index}">
+<source>${escapeXml(node.path_str)}</source>
+${node.last_commit ? `<last_commit>${escapeXml(formatCommit(node.last_commit))}</last_commit>\n` : ''}<document_content>
+${formatXmlText(content)}
+</document_content>
+</document>
+`;
+}
+
+/**
+ * Make arbitrary text safe to embed as the content of an XML element.
+ * 
+ * Text without markup characters is emitted as is. Otherwise it is wrapped in a CDATA section, which keeps source
+ * code readable, unless it contains the `]]>` terminator, in which case it is entity-escaped instead. Control
+ * characters that XML does not allow in any form are replaced with U+FFFD.
+ * 
+ * @param text - The text to embed
+ * @returns The text, escaped or wrapped in a CDATA section if needed
+ */
+function formatXmlText(text: string): string {
+    const valid = text.replace(INVALID_XML_CHARACTERS, "\uFFFD");
+    if (!/[<>&]/.test(valid)) {
+        return valid;
+    }
+    if (!valid.includes("]]>")) {
+        return `<![CDATA[${valid}]]>`;
+    }
+    return escapeXml(valid);
+}
+
+/**
+ * Escape the characters that have a special meaning in XML, and replace those it does not allow with U+FFFD.
+ * 
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(INVALID_XML_CHARACTERS, "\uFFFD")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
 }
 
 /**
@@ -108,13 +1216,15 @@ ${node.contentString}\n`;
  * @param node - The current directory or file node being processed
  * @param prefix - A string used for indentation and formatting of the tree structure
  * @param is_last - A flag indicating whether the current node is the last in its directory
+ * @param plan - The token budgeting plan, if any. Truncated and omitted files are marked
  * @returns A string representing the directory structure formatted as a tree
  */
 function createTreeStructure(
     query: IngestionQuery,
     node: FileSystemNode,
     prefix: string = "",
-    is_last: boolean = true
+    is_last: boolean = true,
+    plan?: TokenBudgetPlan
 ): string {
     if (!node.name) {
         // If no name is present, use the slug as the top-level directory name
@@ -128,6 +1238,13 @@ function createTreeStructure(
     let display_name = node.name;
     if (node.type === FileSystemNodeType.DIRECTORY) {
         display_name += "/";
+    } else if (plan) {
+        const status = plan.entries.get(node)?.status;
+        if (status === FileBudgetStatus.TRUNCATED) {
+            display_name += " [truncated]";
+        } else if (status === FileBudgetStatus.OMITTED) {
+            display_name += " [omitted]";
+        }
     }
 
     tree_str += `${prefix}${current_prefix}${display_name}\n`;
@@ -139,7 +1256,8 @@ function createTreeStructure(
                 query,
                 child,
                 new_prefix,
-                index === node.children.length - 1
+                index === node.children.length - 1,
+                plan
             );
         });
     }
@@ -147,33 +1265,41 @@ function createTreeStructure(
 }
 
 /**
- * Return a human-readable string representing the token count of the given text.
+ * Return a string with the exact token count of the given text and the tokenizer that produced it.
  * 
- * E.g., '120' -> '120', '1200' -> '1.2k', '1200000' -> '1.2M'.
+ * E.g., '120 (o200k_base)', '1,200 (~1.2k, o200k_base)', '1,200,000 (~1.2M, o200k_base)'.
  * 
- * Note: In TypeScript version, we're using a simple character-based estimation
- * since we don't have direct access to tiktoken. For production use,
- * you would want to use a proper tokenizer.
- * 
- * @param text - The text string for which the token count is to be estimated
- * @returns The formatted number of tokens as a string (e.g., '1.2k', '1.2M'), or undefined if an error occurs
+ * @param text - The text string for which the tokens are to be counted
+ * @param tokenizer_name - The name of the tokenizer to use
+ * @returns The formatted number of tokens as a string, or undefined if an error occurs
  */
-function formatTokenCount(text: string): string | undefined {
+function formatTokenCount(text: string, tokenizer_name: string): string | undefined {
     try {
-        // Simple estimation: ~4 characters per token on average
-        const total_tokens = Math.ceil(text.length / 4);
-
-        if (total_tokens >= 1_000_000) {
-            return `${(total_tokens / 1_000_000).toFixed(1)}M`;
-        }
-
-        if (total_tokens >= 1_000) {
-            return `${(total_tokens / 1_000).toFixed(1)}k`;
-        }
-
-        return total_tokens.toString();
+        const tokenizer = getTokenizer(tokenizer_name);
+        return formatTokenTotal(tokenizer.countTokens(text), tokenizer.name);
     } catch (error) {
         console.error(error);
         return undefined;
     }
 }
+
+/**
+ * Format a token count with the tokenizer that produced it, as described for `formatTokenCount`.
+ * 
+ * @param total_tokens - The number of tokens
+ * @param tokenizer_name - The name of the tokenizer
+ * @returns The formatted number of tokens
+ */
+function formatTokenTotal(total_tokens: number, tokenizer_name: string): string {
+    const exact = total_tokens.toLocaleString('en-US');
+
+    if (total_tokens >= 1_000_000) {
+        return `${exact} (~${(total_tokens / 1_000_000).toFixed(1)}M, ${tokenizer_name})`;
+    }
+
+    if (total_tokens >= 1_000) {
+        return `${exact} (~${(total_tokens / 1_000).toFixed(1)}k, ${tokenizer_name})`;
+    }
+
+    return `${exact} (${tokenizer_name})`;
+}
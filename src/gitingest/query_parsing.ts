@@ -2,50 +2,94 @@
  * This module contains functions to parse and validate input sources and patterns.
  */
 
+import * as fs from 'fs/promises';
 import { URL } from 'url';
 import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
 
 import { checkRepoExists, fetchRemoteBranchList } from './cloning';
 import { TMP_BASE_PATH } from './config';
-import { InvalidPatternError } from './errors/exceptions';
-import { IngestionQuery, createIngestionQuery } from './types/ingestion_schema';
+import { InvalidTokenizerError } from './errors/exceptions';
+import {
+    GitSource,
+    IngestionQuery,
+    OutputFormat,
+    createIngestionQuery,
+    listGivenSettings
+} from './types/ingestion_schema';
+import { getGitHost, listGitHosts, parseRepositoryPath, validateHost } from './utils/git_host_utils';
+import { resolveGitSource } from './utils/git_source_utils';
+import { appendPatterns, compileGlob, validateGlob } from './utils/glob_utils';
 import { DEFAULT_IGNORE_PATTERNS } from './utils/ignore_patterns';
 import {
-    KNOWN_GIT_HOSTS,
     getUserAndRepoFromPath,
     isValidGitCommitHash,
-    isValidPattern,
     normalizePattern,
-    validateHost,
     validateUrlScheme,
 } from './utils/query_parser_utils';
+import { isKnownTokenizer, listTokenizers } from './utils/tokenizer_utils';
 
 /**
  * Parse the input source (URL or path) to extract relevant details for the query.
  * 
  * @param source - The source URL or file path to parse
- * @param max_file_size - The maximum file size in bytes to include
+ * @param max_file_size - The maximum file size in bytes to include (optional, defaults to `MAX_FILE_SIZE`)
  * @param from_web - Flag indicating whether the source is a web URL
  * @param include_patterns - Patterns to include (optional)
  * @param ignore_patterns - Patterns to ignore (optional)
+ * @param tokenizer - Name of the tokenizer used to count tokens (optional)
+ * @param max_tokens - Token budget for the directory structure and file contents (optional)
+ * @param output_format - Output format of the digest (optional)
+ * @param chunk_tokens - Maximum number of tokens per chunk, when splitting the digest into chunks (optional)
+ * @param chunk_bytes - Maximum number of bytes per chunk, when splitting the digest into chunks (optional)
+ * @param use_gitignore - Whether to skip the files excluded by `.gitignore` files (optional, defaults to true)
  * @returns A query object containing the parsed details
+ * @throws InvalidTokenizerError if the tokenizer is not registered
  */
 export async function parseQuery(
     params: {
         source: string;
-        max_file_size: number;
+        max_file_size?: number;
         from_web: boolean;
         include_patterns?: Set<string> | string;
         ignore_patterns?: Set<string> | string;
+        tokenizer?: string;
+        max_tokens?: number;
+        output_format?: OutputFormat;
+        chunk_tokens?: number;
+        chunk_bytes?: number;
+        use_gitignore?: boolean;
     }
 ): Promise<IngestionQuery> {
-    const { source, max_file_size, from_web, include_patterns, ignore_patterns } = params;
+    const {
+        source,
+        max_file_size,
+        from_web,
+        include_patterns,
+        ignore_patterns,
+        tokenizer,
+        max_tokens,
+        output_format,
+        chunk_tokens,
+        chunk_bytes,
+        use_gitignore
+    } = params;
+
+    if (tokenizer) {
+        validateTokenizer(tokenizer);
+    }
 
     // Determine the parsing method based on the source type
     let query: IngestionQuery;
-    if (from_web || /^https?:\/\//.test(source) || KNOWN_GIT_HOSTS.some(h => source.includes(h))) {
-        // We either have a full URL or a domain-less slug
+    const git_source = await resolveGitSource(source);
+    if (git_source) {
+        // An ssh or file URL, or a bare repository, which is cloned as is
+        query = parseGitSource(git_source);
+    } else if (!from_web && await pathExists(source)) {
+        // An existing local path wins over a name that looks like a host, e.g. a directory named "notes-github.com"
+        query = parseLocalDirPath(source);
+    } else if (from_web || /^https?:\/\//.test(source) || getGitHost(source.split('/')[0]) !== undefined) {
+        // We either have a full URL, a scheme-less URL of a registered host or a domain-less slug
         query = await parseRemoteRepo(source);
     } else {
         // Local path scenario
@@ -55,7 +99,7 @@ export async function parseQuery(
     // Combine default ignore patterns + custom patterns
     const ignore_patterns_set = new Set(DEFAULT_IGNORE_PATTERNS);
     if (ignore_patterns) {
-        parsePatterns(ignore_patterns).forEach(p => ignore_patterns_set.add(p));
+        appendPatterns(ignore_patterns_set, parsePatterns(ignore_patterns));
     }
 
     // Process include patterns and override ignore patterns accordingly
@@ -70,13 +114,25 @@ export async function parseQuery(
         ...query,
         max_file_size,
         ignore_patterns: ignore_patterns_set,
-        include_patterns: parsed_include
+        // An empty set of include patterns would exclude everything
+        include_patterns: parsed_include && parsed_include.size > 0 ? parsed_include : undefined,
+        tokenizer,
+        max_tokens,
+        output_format,
+        chunk_tokens,
+        chunk_bytes,
+        use_gitignore,
+        explicit_settings: new Set(listGivenSettings({ max_file_size, tokenizer, output_format }))
     });
 }
 
 /**
  * Parse a repository URL into a structured query.
  * 
+ * The host must be registered, and its flavor decides how the path of the URL is parsed (see `parseRepositoryPath`).
+ * Pull request (`/pull/123`) and merge request (`/-/merge_requests/45`) URLs set the request of the query, whose head
+ * is checked out by `clone`.
+ * 
  * @param source - The URL or domain-less slug to parse
  * @returns A query object containing the parsed details
  */
@@ -87,7 +143,6 @@ export async function parseRemoteRepo(source: string): Promise<IngestionQuery> {
     try {
         url = new URL(source);
         validateUrlScheme(url.protocol.replace(':', ''));
-        validateHost(url.hostname.toLowerCase());
     } catch {
         // No scheme or invalid URL
         const parts = source.split('/');
@@ -107,10 +162,13 @@ export async function parseRemoteRepo(source: string): Promise<IngestionQuery> {
     }
 
     const host = url.hostname.toLowerCase();
-    const [user_name, repo_name] = getUserAndRepoFromPath(url.pathname);
+    validateHost(host);
+    const repository = parseRepositoryPath(getGitHost(host)!, url.pathname);
+    const { user_name, repo_name } = repository;
 
     const id = uuidv4();
-    const slug = `${user_name}-${repo_name}`;
+    // The owner of a GitLab repository may be a group and its subgroups
+    const slug = `${user_name.replace(/\//g, '-')}-${repo_name}`;
     const local_path = path.join(TMP_BASE_PATH, id, slug);
     const final_url = `https://${host}/${user_name}/${repo_name}`;
 
@@ -127,25 +185,19 @@ export async function parseRemoteRepo(source: string): Promise<IngestionQuery> {
         ignore_patterns: new Set([...DEFAULT_IGNORE_PATTERNS])
     });
 
-    const remaining_parts = url.pathname.split('/').filter(p => p.length > 0).slice(2);
-
-    if (!remaining_parts.length) {
+    // Pull and merge requests are ingested at their head, which is not on any branch of the repository
+    if (repository.pull_request) {
+        query.pull_request = repository.pull_request;
         return query;
     }
 
-    const possible_type = remaining_parts.shift()!;
-
-    // If no extra path parts, just return
-    if (!remaining_parts.length) {
+    // Pages without a ref, such as issues, ingest the default branch
+    const remaining_parts = repository.ref_parts;
+    if (!repository.type || !remaining_parts.length) {
         return query;
     }
 
-    // If this is an issues page or pull requests, return early without processing subpath
-    if (possible_type === 'issues' || possible_type === 'pull') {
-        return query;
-    }
-
-    query.type = possible_type;
+    query.type = repository.type;
 
     // Commit or branch
     const commit_or_branch = remaining_parts[0];
@@ -164,6 +216,30 @@ export async function parseRemoteRepo(source: string): Promise<IngestionQuery> {
     return query;
 }
 
+/**
+ * Create the query of a Git repository that is cloned from its URL as is.
+ * 
+ * @param source - The resolved ssh, scp-like or file URL, or path of a bare repository
+ * @returns A query object cloning the default branch of the repository
+ */
+export function parseGitSource(source: GitSource): IngestionQuery {
+    const id = uuidv4();
+    const slug = source.owner ? `${path.basename(source.owner)}-${source.repo_name}` : source.repo_name;
+
+    return createIngestionQuery({
+        user_name: source.owner,
+        repo_name: source.repo_name,
+        url: source.url,
+        local_path: path.join(TMP_BASE_PATH, id, slug),
+        slug,
+        id,
+        type: 'tree',
+        subpath: '/',
+        max_file_size: 0,
+        ignore_patterns: new Set([...DEFAULT_IGNORE_PATTERNS])
+    });
+}
+
 /**
  * Configure the branch and subpath based on the remaining parts of the URL.
  * 
@@ -190,25 +266,29 @@ async function configureBranchAndSubpath(remaining_parts: string[], url: string)
 /**
  * Parse and validate file/directory patterns.
  * 
+ * The order of the patterns is kept, since a negated pattern (`!pattern`) only overrides the patterns before it. Each
+ * pattern is normalized, validated and compiled with the glob engine (see `utils/glob_utils.ts`), so that the
+ * compiled pattern is cached for traversal.
+ * 
+ * A string is split on commas (except inside braces) and on whitespace (except when escaped with a backslash).
+ * 
  * @param pattern - Pattern(s) to parse
- * @returns A set of normalized patterns
- * @throws InvalidPatternError if any pattern contains invalid characters
+ * @returns An ordered set of normalized patterns
+ * @throws InvalidPatternError if any pattern is invalid, pointing at the offending character
  */
-function parsePatterns(pattern: string | Set<string>): Set<string> {
-    const patterns = typeof pattern === 'string' ? pattern.split(/[,\s]+/) : Array.from(pattern);
+export function parsePatterns(pattern: string | Set<string>): Set<string> {
+    const patterns = typeof pattern === 'string' ? pattern.split(/(?<!\\)\s+|,(?![^{]*\})/) : Array.from(pattern);
     const normalized = new Set<string>();
 
     for (const p of patterns) {
-        if (!p) continue;
-
-        if (!isValidPattern(p)) {
-            throw new InvalidPatternError(
-                `Invalid pattern: ${p}. Only alphanumeric characters, dash (-), underscore (_), ` +
-                'dot (.), forward slash (/), plus (+), and asterisk (*) are allowed.'
-            );
+        const normalized_pattern = normalizePattern(p);
+        if (!normalized_pattern) {
+            continue;
         }
 
-        normalized.add(normalizePattern(p));
+        validateGlob(normalized_pattern);
+        compileGlob(normalized_pattern);
+        appendPatterns(normalized, [normalized_pattern]);
     }
 
     return normalized;
@@ -224,8 +304,11 @@ function parsePatterns(pattern: string | Set<string>): Set<string> {
  * Apply user-defined patterns and settings to a query
  * 
  * @param query - The base query to modify
- * @param params - Object containing max_file_size, ignore_patterns, and include_patterns
+ * @param params - Object containing max_file_size, ignore_patterns, include_patterns, tokenizer, max_tokens,
+ *                 output_format, chunk_tokens, chunk_bytes, use_gitignore, and selected_paths
  * @returns Modified query with user preferences applied
+ * @throws InvalidPatternError if any pattern is invalid
+ * @throws InvalidTokenizerError if the tokenizer is not registered
  */
 export function applyPatterns(
     query: IngestionQuery,
@@ -233,34 +316,91 @@ export function applyPatterns(
         max_file_size?: number;
         ignore_patterns?: string[];
         include_patterns?: string[];
+        tokenizer?: string;
+        max_tokens?: number;
+        output_format?: OutputFormat;
+        chunk_tokens?: number;
+        chunk_bytes?: number;
+        use_gitignore?: boolean;
+        selected_paths?: string[];
     }
 ): IngestionQuery {
     const {
         max_file_size = 0,
         ignore_patterns = [],
-        include_patterns = []
+        include_patterns = [],
+        tokenizer,
+        max_tokens,
+        output_format,
+        chunk_tokens,
+        chunk_bytes,
+        use_gitignore,
+        selected_paths
     } = params;
 
-    // Convert arrays to sets for pattern matching
-    const ignoreSet = new Set(ignore_patterns.map(normalizePattern));
-    const includeSet = new Set(include_patterns.map(normalizePattern));
+    if (tokenizer) {
+        validateTokenizer(tokenizer);
+    }
+
+    // Validate and normalize the patterns the same way as for parseQuery
+    const ignoreSet = parsePatterns(new Set(ignore_patterns));
+    const includeSet = parsePatterns(new Set(include_patterns));
 
-    // Merge with default ignore patterns
-    const mergedIgnorePatterns = new Set([
-        ...DEFAULT_IGNORE_PATTERNS,  // Add default patterns first
-        ...query.ignore_patterns,    // Add existing patterns
-        ...ignoreSet                 // Add user-specified patterns
-    ]);
+    // Merge with default ignore patterns, keeping the order so that later negated patterns override earlier ones
+    const mergedIgnorePatterns = new Set(DEFAULT_IGNORE_PATTERNS);  // Add default patterns first
+    appendPatterns(mergedIgnorePatterns, query.ignore_patterns);    // Add existing patterns
+    appendPatterns(mergedIgnorePatterns, ignoreSet);                // Add user-specified patterns
 
     // Create new query with updated patterns
     return createIngestionQuery({
         ...query,
-        max_file_size,
+        max_file_size: max_file_size || query.max_file_size,
         ignore_patterns: mergedIgnorePatterns,
-        include_patterns: includeSet.size > 0 ? includeSet : query.include_patterns
+        include_patterns: includeSet.size > 0 ? includeSet : query.include_patterns,
+        tokenizer: tokenizer || query.tokenizer,
+        max_tokens: max_tokens || query.max_tokens,
+        output_format: output_format || query.output_format,
+        chunk_tokens: chunk_tokens || query.chunk_tokens,
+        chunk_bytes: chunk_bytes || query.chunk_bytes,
+        use_gitignore: use_gitignore ?? query.use_gitignore,
+        explicit_settings: new Set([
+            ...query.explicit_settings,
+            ...listGivenSettings({ max_file_size, tokenizer, output_format })
+        ]),
+        // Selecting the root itself selects everything
+        selected_paths: selected_paths && !selected_paths.some(selected => !selected.replace(/^\/+|\/+$/g, '')) ?
+            selected_paths :
+            query.selected_paths
     });
 }
 
+/**
+ * Validate that the given tokenizer is registered.
+ * 
+ * @param tokenizer - The name of the tokenizer to validate
+ * @throws InvalidTokenizerError if the tokenizer is not registered
+ */
+function validateTokenizer(tokenizer: string): void {
+    if (!isKnownTokenizer(tokenizer)) {
+        throw new InvalidTokenizerError(tokenizer, listTokenizers());
+    }
+}
+
+/**
+ * Check whether a local file or directory exists.
+ * 
+ * @param path_str - The path to check
+ * @returns True if the path exists, otherwise False
+ */
+async function pathExists(path_str: string): Promise<boolean> {
+    try {
+        await fs.access(path_str);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Parse a local directory path into a structured query.
  * 
@@ -290,7 +430,7 @@ export function parseLocalDirPath(path_str: string): IngestionQuery {
  * @throws Error if no valid repository host is found
  */
 async function tryDomainsForUserAndRepo(user_name: string, repo_name: string): Promise<string> {
-    for (const host of KNOWN_GIT_HOSTS) {
+    for (const host of listGitHosts()) {
         const url = `https://${host}/${user_name}/${repo_name}`;
         try {
             if (await checkRepoExists(url)) {
@@ -303,6 +443,6 @@ async function tryDomainsForUserAndRepo(user_name: string, repo_name: string): P
 
     throw new Error(
         `Could not find repository ${user_name}/${repo_name} on any known hosting service: ` +
-        KNOWN_GIT_HOSTS.join(', ')
+        listGitHosts().join(', ')
     );
 }
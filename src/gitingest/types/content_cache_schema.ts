@@ -0,0 +1,43 @@
+/**
+ * Define the schema of the persistent content cache.
+ *
+ * The cache keeps one index file per ingested directory, holding what reading each file produced. Any change to
+ * these interfaces must bump `CONTENT_CACHE_VERSION`: indexes of another version are discarded when they are read.
+ */
+
+/** Version of the index files described in this module */
+export const CONTENT_CACHE_VERSION = 1;
+
+/**
+ * Index file of the cache for one ingested directory.
+ */
+export interface ContentCacheIndex {
+    /** Version of the index, see `CONTENT_CACHE_VERSION` */
+    version: number;
+    /** Absolute path of the ingested directory */
+    root: string;
+    /** The cached files, keyed by their path relative to the root */
+    files: Record<string, CachedFile>;
+}
+
+/**
+ * What reading a file produced, valid as long as its modification time and size are unchanged.
+ */
+export interface CachedFile {
+    /** Modification time of the file in milliseconds when it was read */
+    mtime_ms: number;
+    /** Size of the file in bytes when it was read */
+    size: number;
+    /** SHA-256 of the bytes of the file, in hexadecimal */
+    hash: string;
+    /** Whether the file was classified as binary, in which case no content is stored */
+    binary: boolean;
+    /** Whether the outputs of notebook cells were included when the file was converted */
+    include_notebook_output: boolean;
+    /** The decoded content of a text file, after notebook conversion */
+    content?: string;
+    /** Token counts of the content, keyed by tokenizer name */
+    tokens: Record<string, number>;
+    /** Time in milliseconds when the entry was last used, to evict the least recently used entries first */
+    used_at: number;
+}
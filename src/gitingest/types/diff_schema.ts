@@ -0,0 +1,78 @@
+/**
+ * Define the schema of diff mode, which ingests the changes between two Git refs instead of a whole directory.
+ */
+
+/**
+ * Status of a file changed between the two refs of a diff.
+ */
+export enum ChangeStatus {
+    ADDED = "added",
+    MODIFIED = "modified",
+    DELETED = "deleted",
+    RENAMED = "renamed",
+    COPIED = "copied",
+    TYPE_CHANGED = "type changed"
+}
+
+/**
+ * Uncommitted changes of a working tree.
+ */
+export enum WorkingTreeChanges {
+    /** Changes added to the index, compared to the base */
+    STAGED = "staged",
+    /** Changes of the working tree not added to the index, including untracked files */
+    UNSTAGED = "unstaged"
+}
+
+/**
+ * The range of a diff, as requested with `<base>..<head>` or `<base>...<head>`, or the uncommitted changes.
+ */
+export interface DiffQuery {
+    /** The ref the changes are compared to, e.g. 'main' */
+    base: string;
+    /** The ref holding the changes, 'HEAD' if not given */
+    head: string;
+    /** Whether the changes are compared to the merge base of the refs (`...`) rather than to the base itself (`..`) */
+    merge_base: boolean;
+    /** Whether the full content of each changed file, after the change, is ingested along with its patch */
+    include_content: boolean;
+    /** Ingest these uncommitted changes instead of the changes up to the head, which is then ignored */
+    working_tree?: WorkingTreeChanges;
+    /** The resolved range and changed files, set by the ingestion */
+    result?: DiffResult;
+}
+
+/**
+ * The resolved range of a diff and the files it changes.
+ */
+export interface DiffResult {
+    /**
+     * Commit the changes are compared to: the base, or the merge base of the refs. Undefined for unstaged changes,
+     * compared to the index, and for staged changes in a repository with no commits yet, compared to the empty tree
+     */
+    base_commit?: string;
+    /** Commit holding the changes, undefined for the uncommitted changes of the working tree */
+    head_commit?: string;
+    /** Number of commits reachable from the head but not from the base, 0 for uncommitted changes */
+    commit_count: number;
+    /** The changed files, in the order of git */
+    files: ChangedFile[];
+}
+
+/**
+ * A file changed between the two refs of a diff.
+ */
+export interface ChangedFile {
+    /** How the file changed */
+    status: ChangeStatus;
+    /** Path of the file after the change (before it, for deleted files), relative to the ingested directory */
+    path: string;
+    /** Path of the file before the change, for renamed and copied files */
+    old_path?: string;
+    /** The unified patch of the file */
+    patch: string;
+    /** Number of added lines */
+    additions: number;
+    /** Number of deleted lines */
+    deletions: number;
+}
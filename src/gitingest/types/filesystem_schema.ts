@@ -4,13 +4,19 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
-import { getEncodingList } from '../utils/ingestion_utils';
-import { isTextFile } from '../utils/textfile_checker_utils';
-import { processNotebook } from '../utils/notebook_utils';
+import { createHash } from 'crypto';
+import { ContentCache } from '../utils/content_cache_utils';
+import { CommitInfo } from './git_context_schema';
+import { isTextBuffer } from '../utils/textfile_checker_utils';
+import { processNotebookContent } from '../utils/notebook_utils';
+import { Tokenizer } from '../utils/tokenizer_utils';
 
 /** Tiktoken, the tokenizer openai uses, counts 2 tokens if we have more than 48 */
 export const SEPARATOR = "=".repeat(48);
 
+/** Content of the files classified as binary */
+const NON_TEXT_CONTENT = "[Non-text file]";
+
 /**
  * Enum representing the type of a file system node (directory or file).
  */
@@ -28,6 +34,24 @@ export class FileSystemStats {
     total_size: number = 0;
 }
 
+/**
+ * A file whose content is already in memory, such as the buffer of an open editor.
+ */
+export interface InMemoryFile {
+    /** Path of the file in the digest, relative to the root with forward slashes */
+    path_str: string;
+    /** Absolute path of the file on disk, or its name for buffers that were never saved */
+    path: string;
+    /** Content of the file, which may differ from the file on disk */
+    content: string;
+    /** Text appended to the path in the file header, e.g. the line range of an excerpt */
+    label?: string;
+    /** Name of the file in the directory structure, defaults to the last segment of `path_str` */
+    name?: string;
+    /** Language of the content for syntax highlighting, detected from the file name if not set */
+    language?: string;
+}
+
 /**
  * Class representing a node in the file system (either a file or directory).
  * Tracks properties of files/directories for comprehensive analysis.
@@ -42,6 +66,21 @@ export class FileSystemNode {
     dir_count: number = 0;
     depth: number = 0;
     children: FileSystemNode[] = [];
+    include_notebook_output: boolean = true;
+    /** Content used instead of reading the file, e.g. the text of an unsaved editor */
+    content_override?: string;
+    /** Language of the content for syntax highlighting, e.g. 'diff' for a patch, detected from the name if not set */
+    language?: string;
+    /** Modification time of the file in milliseconds, used to validate its cached content */
+    mtime_ms?: number;
+    /** SHA-256 of the bytes of the file, set once it has been read with `loadContent` */
+    content_hash?: string;
+    /** Token counts of the content, keyed by tokenizer name */
+    token_counts: Map<string, number> = new Map();
+    /** The last commit that changed the file, when the git context asks for the file history */
+    last_commit?: CommitInfo;
+    /** Content read from the file, kept until `releaseContent` is called */
+    private cached_content?: string;
 
     constructor(name: string, type: FileSystemNodeType, path_str: string, path: string) {
         this.name = name;
@@ -102,6 +141,9 @@ export class FileSystemNode {
     /**
      * Read the content of a file if it's text (or a notebook). Return an error message otherwise.
      * 
+     * The content override is returned as is when set. The file is read once and its content is cached on the node;
+     * when it was not loaded with `loadContent`, it is read synchronously here.
+     * 
      * @throws Error if the node is a directory
      */
     get content(): string {
@@ -109,32 +151,104 @@ export class FileSystemNode {
             throw new Error("Cannot read content of a directory node");
         }
 
-        if (!isTextFile(this.path)) {
-            return "[Non-text file]";
+        if (this.content_override !== undefined) {
+            return this.content_override;
         }
 
-        if (path.extname(this.path) === ".ipynb") {
+        if (this.cached_content === undefined) {
             try {
-                return processNotebook(this.path);
-            } catch (exc) {
-                return `Error processing notebook: ${exc}`;
+                this.cached_content = this.decodeContent(fs.readFileSync(this.path));
+            } catch (error) {
+                return `Error reading file: ${error}`;
             }
         }
+        return this.cached_content;
+    }
+
+    /**
+     * Read the content of a file asynchronously and cache it on the node, so that `content` does not block.
+     * 
+     * With a content cache, an unchanged file is not read: its content and token counts are taken from the cache.
+     * Otherwise the file is read and the cache updated.
+     * 
+     * @param cache - The persistent content cache of the ingested directory, if any
+     * @returns The content, as returned by `content`
+     * @throws Error if the node is a directory
+     */
+    async loadContent(cache?: ContentCache): Promise<string> {
+        if (this.type === FileSystemNodeType.DIRECTORY) {
+            throw new Error("Cannot read content of a directory node");
+        }
+
+        if (this.content_override !== undefined || this.cached_content !== undefined) {
+            return this.content;
+        }
+
+        const entry = cache?.lookup(this);
+        if (entry) {
+            this.cached_content = entry.content ?? NON_TEXT_CONTENT;
+            this.content_hash = entry.hash;
+            this.token_counts = new Map(Object.entries(entry.tokens));
+            return this.cached_content;
+        }
 
-        // Try multiple encodings
-        for (const encoding of getEncodingList()) {
+        let buffer: Buffer;
+        try {
+            buffer = await fs.promises.readFile(this.path);
+        } catch (error) {
+            return `Error reading file: ${error}`;
+        }
+
+        this.content_hash = createHash('sha256').update(buffer).digest('hex');
+        this.cached_content = this.decodeContent(buffer);
+        if (cache) {
+            const stored = cache.store(this, this.content_hash, isTextBuffer(buffer) ? this.cached_content : undefined);
+            this.token_counts = new Map(Object.entries(stored.tokens));
+        }
+        return this.cached_content;
+    }
+
+    /**
+     * Count the tokens of the content, remembering the count for each tokenizer.
+     * 
+     * @param tokenizer - The tokenizer
+     * @returns The number of tokens of `content`
+     */
+    countTokens(tokenizer: Tokenizer): number {
+        let count = this.token_counts.get(tokenizer.name);
+        if (count === undefined) {
+            count = tokenizer.countTokens(this.content);
+            this.token_counts.set(tokenizer.name, count);
+        }
+        return count;
+    }
+
+    /**
+     * Drop the cached content of the file, e.g. once it has been written to a stream. It is read again if needed.
+     */
+    releaseContent(): void {
+        this.cached_content = undefined;
+    }
+
+    /**
+     * Decode the bytes of the file: text as UTF-8, notebooks as Python scripts, and binary files as a placeholder.
+     * 
+     * @param buffer - The content of the file
+     * @returns The content of the node
+     */
+    private decodeContent(buffer: Buffer): string {
+        if (!isTextBuffer(buffer)) {
+            return NON_TEXT_CONTENT;
+        }
+
+        if (path.extname(this.path) === ".ipynb") {
             try {
-                const content = require('fs').readFileSync(this.path, { encoding });
-                return content;
-            } catch (error) {
-                if (error instanceof Error && 
-                    (error.message.includes('decode') || error.message.includes('encoding'))) {
-                    continue;
-                }
-                return `Error reading file: ${error}`;
+                return processNotebookContent(buffer.toString('utf-8'), this.path, this.include_notebook_output);
+            } catch (exc) {
+                return `Error processing notebook: ${exc}`;
             }
         }
 
-        return "Error: Unable to decode file with available encodings";
+        return buffer.toString('utf-8');
     }
 }
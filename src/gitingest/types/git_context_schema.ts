@@ -0,0 +1,53 @@
+/**
+ * Define the schema of the git context of a digest: the state and recent history of the ingested repository.
+ */
+
+/**
+ * The git context requested for an ingestion.
+ */
+export interface GitContextQuery {
+    /** Number of recent commits listed in the summary, 0 for none */
+    log_count: number;
+    /** Whether the recent commits are those changing the ingested path, rather than the whole repository */
+    log_per_path: boolean;
+    /** Whether each file block shows the last commit that changed the file */
+    file_history: boolean;
+    /** Number of commits fetched when cloning a repository, so that its history can be read */
+    history_depth: number;
+    /** The git context read from the repository, set by the ingestion */
+    result?: GitContext;
+}
+
+/**
+ * The state and recent history of an ingested repository.
+ */
+export interface GitContext {
+    /** Hash of the checked out commit */
+    head_commit: string;
+    /** Commit date of the checked out commit, in ISO 8601 format */
+    commit_date: string;
+    /** Name of the checked out branch, undefined for a detached HEAD */
+    branch?: string;
+    /** URL of the `origin` remote, or of the cloned repository */
+    remote_url?: string;
+    /** Number of changed and untracked files of the working tree, for local repositories only */
+    uncommitted_changes?: number;
+    /** Whether the history was cut by a shallow clone, in which case older commits are missing */
+    shallow: boolean;
+    /** The most recent commits, newest first */
+    commits: CommitInfo[];
+}
+
+/**
+ * A commit of the history of an ingested repository.
+ */
+export interface CommitInfo {
+    /** Full hash of the commit */
+    hash: string;
+    /** Name of the author */
+    author: string;
+    /** Author date, in ISO 8601 format */
+    date: string;
+    /** First line of the commit message */
+    subject: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * Define the schema of the registry of Git hosting services, whose flavor tells how the paths of their URLs are
+ * parsed.
+ */
+
+import { PullRequest } from './ingestion_schema';
+
+/**
+ * Software run by a Git hosting service, which decides the grammar of its URLs and the refs of its pull requests.
+ */
+export enum GitHostFlavor {
+    /** `/owner/repo/tree/<ref>/<path>`, pull requests under `refs/pull/<n>/head` */
+    GITHUB = "github",
+    /** `/group/subgroup/repo/-/tree/<ref>/<path>`, merge requests under `refs/merge-requests/<n>/head` */
+    GITLAB = "gitlab",
+    /** `/owner/repo/src/branch/<ref>/<path>` or `src/tag/<ref>/<path>`, pull requests under `refs/pull/<n>/head` */
+    GITEA = "gitea",
+    /** Bitbucket Cloud, `/owner/repo/src/<ref>/<path>`, publishing no refs for pull requests */
+    BITBUCKET = "bitbucket"
+}
+
+/**
+ * A Git hosting service of the registry.
+ */
+export interface GitHost {
+    /** Host name of the service, lowercase, e.g. 'github.com' or 'git.corp.example' */
+    host: string;
+    /** Software run by the service */
+    flavor: GitHostFlavor;
+}
+
+/**
+ * The path of a repository URL, split according to the grammar of its host.
+ */
+export interface RepositoryPath {
+    /** The path of the repository before its name: the owner, or the group and subgroups on GitLab */
+    user_name: string;
+    /** Name of the repository, without its `.git` suffix */
+    repo_name: string;
+    /** 'tree' or 'blob' when the URL points at a ref, e.g. `/tree/main/src` */
+    type?: string;
+    /** The parts after the type: the branch or commit, then the subpath */
+    ref_parts: string[];
+    /** The pull or merge request the URL points at, if any */
+    pull_request?: PullRequest;
+}
@@ -0,0 +1,68 @@
+/**
+ * Define the schema of the `.gitingest` configuration file.
+ *
+ * The file is a TOML document whose settings live in a `[config]` table:
+ *
+ * ```toml
+ * [config]
+ * ignore_patterns = ["tests/fixtures/", "*.snap"]
+ * include_patterns = ["src/", "README.md"]
+ * max_file_size = 1048576
+ * output_format = "markdown"
+ * header = "Review the following code."
+ *
+ * [config.notebook]
+ * include_output = false
+ * ```
+ *
+ * The `.gitingest` file of the ingested directory may use every setting. Nested `.gitingest` files apply to their
+ * own subtree and may only use the settings of `SUBTREE_CONFIG_KEYS`.
+ */
+
+import { OutputFormat } from './ingestion_schema';
+
+/**
+ * Notebook settings of a `.gitingest` file.
+ */
+export interface GitingestNotebookConfig {
+    /** Whether the outputs of the cells are included in the converted notebook */
+    include_output?: boolean;
+}
+
+/**
+ * Settings of a `.gitingest` file, as read from its `[config]` table.
+ */
+export interface GitingestConfig {
+    /** Ordered ignore rules, relative to the directory of the file */
+    ignore_patterns?: string[];
+    /** Ordered include rules, relative to the directory of the file */
+    include_patterns?: string[];
+    /** Maximum size in bytes of an ingested file */
+    max_file_size?: number;
+    /** Maximum depth of directory traversal */
+    max_depth?: number;
+    /** Maximum number of files to ingest */
+    max_files?: number;
+    /** Maximum total size in bytes of the ingested files */
+    max_total_size?: number;
+    /** Output format of the digest */
+    output_format?: OutputFormat;
+    /** Name of the tokenizer used to count tokens */
+    tokenizer?: string;
+    /** Token budget for the directory structure and file contents */
+    max_tokens?: number;
+    /** Prompt text placed before the digest */
+    header?: string;
+    /** Prompt text placed after the digest */
+    footer?: string;
+    /** Settings for Jupyter notebooks */
+    notebook?: GitingestNotebookConfig;
+}
+
+/** Settings that nested `.gitingest` files may use, since they make sense for a subtree */
+export const SUBTREE_CONFIG_KEYS: ReadonlySet<keyof GitingestConfig> = new Set<keyof GitingestConfig>([
+    "ignore_patterns",
+    "include_patterns",
+    "max_file_size",
+    "notebook",
+]);
@@ -2,8 +2,19 @@
  * This module contains the interfaces and types for the ingestion process.
  */
 
+import { Writable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
-import { MAX_FILE_SIZE } from '../config';
+import {
+    DEFAULT_TOKENIZER,
+    MAX_CACHE_SIZE,
+    MAX_CONCURRENT_IO,
+    MAX_DIRECTORY_DEPTH,
+    MAX_FILES,
+    MAX_FILE_SIZE,
+    MAX_TOTAL_SIZE_BYTES
+} from '../config';
+import { DiffQuery } from './diff_schema';
+import { GitContextQuery } from './git_context_schema';
 
 /**
  * Configuration for cloning a Git repository.
@@ -24,8 +35,177 @@ export interface CloneConfig {
     subpath: string;
     /** Whether this is a blob (file) or tree (directory) */
     blob: boolean;
+    /** Whether the whole history of all branches is fetched (without file contents), e.g. to diff two refs */
+    full_history?: boolean;
+    /** Number of commits fetched when no commit is requested (defaults to 1) */
+    depth?: number;
+    /** The ref of a pull or merge request, fetched and checked out after cloning */
+    pull_request_ref?: string;
 }
 
+/**
+ * A Git repository given by a URL that is cloned as is: an ssh, scp-like (`git@host:org/repo.git`) or file URL, or the
+ * path of a local bare repository.
+ */
+export interface GitSource {
+    /** The URL or path passed to `git clone` */
+    url: string;
+    /** The path of the repository before its name, e.g. 'org' or 'srv/mirrors', if any */
+    owner?: string;
+    /** Name of the repository, without its `.git` suffix */
+    repo_name: string;
+}
+
+/**
+ * A pull request (GitHub) or merge request (GitLab) of a remote repository.
+ */
+export interface PullRequest {
+    /** Number of the request */
+    number: number;
+    /** The ref the host publishes the head commit of the request under, e.g. `refs/pull/123/head` */
+    ref: string;
+}
+
+/**
+ * Output formats supported for the digest.
+ */
+export enum OutputFormat {
+    TEXT = "text",
+    MARKDOWN = "markdown",
+    JSON = "json",
+    XML = "xml"
+}
+
+/**
+ * Stages of an ingestion, in the order in which they run.
+ */
+export enum IngestionStage {
+    CLONING = "cloning",
+    SCANNING = "scanning",
+    READING = "reading",
+    FORMATTING = "formatting"
+}
+
+/**
+ * Progress report of a running ingestion.
+ */
+export interface IngestionProgress {
+    /** The running stage */
+    stage: IngestionStage;
+    /** Description of the current step, e.g. 'Receiving objects: 45%' or the path of the last scanned file */
+    message: string;
+    /** Completed percentage of the current step, when git reports it */
+    percent?: number;
+    /** Number of files found so far */
+    files?: number;
+}
+
+/**
+ * Cancellation and progress reporting for a long-running operation.
+ */
+export interface IngestionControl {
+    /** Aborting this signal stops the operation, which then rejects with an `IngestionCancelledError` */
+    signal?: AbortSignal;
+    /** Called with the progress of the operation */
+    on_progress?: (progress: IngestionProgress) => void;
+}
+
+/**
+ * Additional options for `ingestAsync` and `ingest`.
+ */
+export interface IngestOptions extends IngestionControl {
+    /** Name of the tokenizer used to count tokens (defaults to `DEFAULT_TOKENIZER`) */
+    tokenizer?: string;
+    /** Maximum number of tokens for the directory structure and file contents */
+    max_tokens?: number;
+    /** Output format of the digest (defaults to `OutputFormat.TEXT`) */
+    output_format?: OutputFormat;
+    /** Split the digest into chunks of at most this many tokens */
+    chunk_tokens?: number;
+    /** Split the digest into chunks of at most this many bytes */
+    chunk_bytes?: number;
+    /** Skip the files excluded by `.gitignore` files and `.git/info/exclude` (defaults to true) */
+    use_gitignore?: boolean;
+    /** Directory of the persistent content cache, used for local directories only. No cache is used if not set */
+    cache_dir?: string;
+    /** Maximum size in bytes of the persistent content cache (defaults to `MAX_CACHE_SIZE`) */
+    max_cache_size?: number;
+    /** Ingest only the changes between two refs, given as `<base>[..<head>]` or `<base>...<head>` */
+    diff?: string;
+    /** In diff mode, also ingest the full content of each changed file after the change */
+    diff_content?: boolean;
+    /** Show the checked out commit, remote and uncommitted changes of the repository in the summary */
+    git_context?: boolean;
+    /** Number of recent commits listed in the summary, which implies `git_context` */
+    git_log?: number;
+    /** List the recent commits changing the ingested path rather than the whole repository */
+    git_log_per_path?: boolean;
+    /** Show the last commit that changed each file in its block, which implies `git_context` */
+    file_history?: boolean;
+    /** Number of commits fetched when cloning with a git context (defaults to `GIT_HISTORY_DEPTH`) */
+    history_depth?: number;
+    /** For a pull or merge request URL, ingest only its changes against its merge base with the default branch */
+    pull_request_diff?: boolean;
+    /** Seconds after which cloning is stopped, 0 for none (defaults to `TIMEOUT`, or to none if `signal` is set) */
+    clone_timeout?: number;
+}
+
+/**
+ * Options for watching a directory and ingesting it again when it changes.
+ */
+export interface WatchOptions extends IngestionControl {
+    /** Delay in milliseconds without changes before ingesting again (defaults to `WATCH_DEBOUNCE_MS`) */
+    debounce_ms?: number;
+    /** Absolute paths whose changes are ignored, such as the output file */
+    ignored_paths?: string[];
+    /** Called with the summary of the digest after each ingestion */
+    on_update?: (summary: string) => void;
+    /** Called when an ingestion fails, watching goes on (defaults to logging the error) */
+    on_error?: (error: unknown) => void;
+}
+
+/**
+ * One part of a digest split into chunks.
+ */
+export interface DigestChunk {
+    /** 1-based position of the chunk */
+    part: number;
+    /** Total number of chunks */
+    total: number;
+    /** The chunk: a "part k of n" header, the full directory structure and the file blocks of this part */
+    content: string;
+    /** Paths of the files (or pieces of files) contained in this chunk */
+    files: string[];
+    /** Token count of the chunk, for the query tokenizer */
+    tokens: number;
+    /** Size of the chunk in bytes, UTF-8 encoded */
+    bytes: number;
+}
+
+/**
+ * Path of an output file, or a function choosing it from the query once its root `.gitingest` file is applied, e.g. to
+ * name the file after the output format.
+ */
+export type OutputPath = string | ((query: IngestionQuery) => string);
+
+/**
+ * Stream a digest is written to, or a function opening it from the query once its root `.gitingest` file is applied.
+ */
+export type DigestOutput = Writable | ((query: IngestionQuery) => Promise<Writable>);
+
+/**
+ * Settings of a query that have a default value, which the root `.gitingest` file may only replace when the caller
+ * did not set them.
+ */
+export type DefaultedSetting =
+    'max_file_size' | 'max_depth' | 'max_files' | 'max_total_size' | 'output_format' | 'tokenizer' |
+    'include_notebook_output';
+
+/** Settings of a query that have a default value */
+const DEFAULTED_SETTINGS: DefaultedSetting[] = [
+    'max_file_size', 'max_depth', 'max_files', 'max_total_size', 'output_format', 'tokenizer', 'include_notebook_output'
+];
+
 /**
  * Model to store the parsed details of the repository or file path.
  */
@@ -50,18 +230,62 @@ export interface IngestionQuery {
     branch?: string;
     /** Commit hash */
     commit?: string;
+    /** The pull or merge request whose head is ingested, for pull and merge request URLs */
+    pull_request?: PullRequest;
     /** Maximum file size to process */
     max_file_size: number;
     /** Patterns to ignore */
     ignore_patterns: Set<string>;
     /** Patterns to include */
     include_patterns?: Set<string>;
+    /** Name of the tokenizer used to count tokens */
+    tokenizer: string;
+    /** Token budget for the directory structure and file contents, unlimited if not set */
+    max_tokens?: number;
+    /** Output format of the digest */
+    output_format: OutputFormat;
+    /** Maximum number of tokens per chunk, when splitting the digest into chunks */
+    chunk_tokens?: number;
+    /** Maximum number of bytes per chunk, when splitting the digest into chunks */
+    chunk_bytes?: number;
+    /** Whether the files excluded by `.gitignore` files and `.git/info/exclude` are skipped */
+    use_gitignore: boolean;
+    /** Maximum depth of directory traversal */
+    max_depth: number;
+    /** Maximum number of files to process */
+    max_files: number;
+    /** Maximum total size in bytes of the processed files */
+    max_total_size: number;
+    /** Whether the outputs of notebook cells are included */
+    include_notebook_output: boolean;
+    /** Maximum number of file system operations (stats and reads) run at the same time */
+    max_concurrent_io: number;
+    /** Directory of the persistent content cache, no cache is used if not set */
+    cache_dir?: string;
+    /** Maximum size in bytes of the persistent content cache */
+    max_cache_size: number;
+    /** Prompt text placed before the digest */
+    header?: string;
+    /** Prompt text placed after the digest */
+    footer?: string;
+    /**
+     * Files and directories the ingestion is restricted to, relative to `local_path` with forward slashes.
+     * Directories are ingested with everything below them. All paths are ingested if not set
+     */
+    selected_paths?: string[];
+    /** The range of commits whose changes are ingested instead of the files, in diff mode */
+    diff?: DiffQuery;
+    /** The state and history of the repository shown in the digest, if any */
+    git_context?: GitContextQuery;
+    /** The settings with a default value that were set by the caller, rather than left at their default */
+    explicit_settings: Set<DefaultedSetting>;
 }
 
 /**
  * Create a new IngestionQuery with default values.
  * 
- * @param params - Partial IngestionQuery parameters to override defaults
+ * @param params - Partial IngestionQuery parameters to override defaults. The settings given here count as explicit,
+ *                 unless `explicit_settings` is given
  * @returns A complete IngestionQuery object with all required fields
  */
 export function createIngestionQuery(params: Partial<IngestionQuery>): IngestionQuery {
@@ -76,13 +300,65 @@ export function createIngestionQuery(params: Partial<IngestionQuery>): Ingestion
         subpath: params.subpath || '/',
         max_file_size: params.max_file_size || MAX_FILE_SIZE,
         ignore_patterns: params.ignore_patterns || new Set(),
+        tokenizer: params.tokenizer || DEFAULT_TOKENIZER,
+        output_format: params.output_format || OutputFormat.TEXT,
+        use_gitignore: params.use_gitignore ?? true,
+        max_depth: params.max_depth || MAX_DIRECTORY_DEPTH,
+        max_files: params.max_files || MAX_FILES,
+        max_total_size: params.max_total_size || MAX_TOTAL_SIZE_BYTES,
+        include_notebook_output: params.include_notebook_output ?? true,
+        max_concurrent_io: params.max_concurrent_io || MAX_CONCURRENT_IO,
+        max_cache_size: params.max_cache_size || MAX_CACHE_SIZE,
         // Optional fields
         user_name: params.user_name,
         repo_name: params.repo_name,
         url: params.url,
         branch: params.branch,
         commit: params.commit,
+        pull_request: params.pull_request,
         include_patterns: params.include_patterns,
+        max_tokens: params.max_tokens,
+        chunk_tokens: params.chunk_tokens,
+        chunk_bytes: params.chunk_bytes,
+        header: params.header,
+        footer: params.footer,
+        selected_paths: params.selected_paths,
+        cache_dir: params.cache_dir,
+        diff: params.diff,
+        git_context: params.git_context,
+        explicit_settings: new Set(params.explicit_settings ?? listGivenSettings(params)),
+    };
+}
+
+/**
+ * List the settings with a default value that are given in the parameters of a query. Zero numbers are not given,
+ * as `createIngestionQuery` replaces them with their default.
+ * 
+ * @param params - Partial IngestionQuery parameters
+ * @returns The given settings
+ */
+export function listGivenSettings(params: Partial<IngestionQuery>): DefaultedSetting[] {
+    return DEFAULTED_SETTINGS.filter(setting => (
+        setting === 'include_notebook_output' ? params[setting] !== undefined : Boolean(params[setting])
+    ));
+}
+
+/**
+ * Copy a query, so that the copy can be refined by an ingestion (e.g. with the root `.gitingest` file) without
+ * changing the original.
+ * 
+ * @param query - The query to copy
+ * @returns A copy of the query, sharing nothing mutable with it
+ */
+export function copyIngestionQuery(query: IngestionQuery): IngestionQuery {
+    return {
+        ...query,
+        ignore_patterns: new Set(query.ignore_patterns),
+        include_patterns: query.include_patterns && new Set(query.include_patterns),
+        selected_paths: query.selected_paths && [...query.selected_paths],
+        explicit_settings: new Set(query.explicit_settings),
+        diff: query.diff && { ...query.diff, result: undefined },
+        git_context: query.git_context && { ...query.git_context, result: undefined },
     };
 }
 
@@ -104,6 +380,9 @@ export function extractCloneConfig(query: IngestionQuery): CloneConfig {
         commit: query.commit,
         branch: query.branch,
         subpath: query.subpath,
-        blob: query.type === "blob"
+        blob: query.type === "blob",
+        full_history: query.diff !== undefined,
+        depth: query.git_context?.history_depth,
+        pull_request_ref: query.pull_request?.ref
     };
 }
@@ -0,0 +1,134 @@
+/**
+ * Define the schema of the JSON digest output.
+ *
+ * The JSON digest is a serialization of the ingested `FileSystemNode` tree, meant to be consumed by scripts instead of
+ * parsing the text digest. Any backwards incompatible change to these interfaces (removing or renaming a field,
+ * changing its type or meaning) must bump `JSON_DIGEST_SCHEMA_VERSION`. Adding optional fields does not.
+ */
+
+import { ChangeStatus, WorkingTreeChanges } from './diff_schema';
+import { FileSystemNodeType } from './filesystem_schema';
+import { CommitInfo, GitContext } from './git_context_schema';
+import { PullRequest } from './ingestion_schema';
+import { FileBudgetStatus } from '../utils/token_budget_utils';
+
+/** Version of the JSON digest schema described in this module */
+export const JSON_DIGEST_SCHEMA_VERSION = 1;
+
+/**
+ * Top-level object of a JSON digest.
+ */
+export interface JsonDigest {
+    /** Version of the schema, see `JSON_DIGEST_SCHEMA_VERSION` */
+    schema_version: number;
+    /** Metadata about the ingested source */
+    query: JsonDigestQuery;
+    /** Name of the tokenizer used for the token counts */
+    tokenizer: string;
+    /** Sum of the token counts of all emitted file contents */
+    total_tokens: number;
+    /** Token budget the digest was fitted under, if any */
+    max_tokens?: number;
+    /** Prompt text placed before the digest, from the `.gitingest` file */
+    header?: string;
+    /** Prompt text placed after the digest, from the `.gitingest` file */
+    footer?: string;
+    /** The ingested directory, or the single ingested file */
+    root: JsonDigestNode;
+}
+
+/**
+ * Metadata about the ingested source.
+ */
+export interface JsonDigestQuery {
+    /** Identifier of the source, e.g. 'user-repo' for repositories or the directory name for local paths */
+    slug: string;
+    /** Repository URL, for remote repositories */
+    url?: string;
+    /** Username or organization name, for remote repositories */
+    user_name?: string;
+    /** Repository name, for remote repositories */
+    repo_name?: string;
+    /** Branch that was ingested, if one was requested */
+    branch?: string;
+    /** Commit that was ingested, if one was requested */
+    commit?: string;
+    /** Pull or merge request whose head was ingested, for pull and merge request URLs */
+    pull_request?: PullRequest;
+    /** Subpath within the source, '/' for the whole source */
+    subpath: string;
+    /** Type of the resource ('tree' for directories, 'blob' for files) */
+    type: string;
+    /** The state and recent history of the repository, when the git context was requested */
+    git?: GitContext;
+    /** The range of commits whose changes were ingested, in diff mode */
+    diff?: JsonDigestDiff;
+}
+
+/**
+ * The range of commits of a diff mode digest, whose files hold the patches and contents of the changed files.
+ */
+export interface JsonDigestDiff {
+    /** The base ref, as requested */
+    base: string;
+    /** The head ref, as requested */
+    head: string;
+    /** Whether the head was compared to the merge base of the refs */
+    merge_base: boolean;
+    /** The uncommitted changes that were ingested instead of the changes up to the head, if any */
+    working_tree?: WorkingTreeChanges;
+    /** Commit the changes are compared to, absent for unstaged changes and before the first commit */
+    base_commit?: string;
+    /** Commit holding the changes, absent for uncommitted changes */
+    head_commit?: string;
+    /** Number of commits reachable from the head but not from the base */
+    commit_count: number;
+    /** The changed files, in the order of git */
+    files: JsonDigestChange[];
+}
+
+/**
+ * A file changed between the two refs of a diff.
+ */
+export interface JsonDigestChange {
+    /** How the file changed */
+    status: ChangeStatus;
+    /** Path of the file after the change, relative to the ingested directory with forward slashes */
+    path: string;
+    /** Path of the file before the change, for renamed and copied files */
+    old_path?: string;
+    /** Number of added lines */
+    additions: number;
+    /** Number of deleted lines */
+    deletions: number;
+}
+
+/**
+ * A file or directory of the ingested tree.
+ */
+export interface JsonDigestNode {
+    /** Name of the file or directory */
+    name: string;
+    /** Path relative to the root of the source, using the platform separator */
+    path_str: string;
+    /** Whether this node is a file or a directory */
+    type: FileSystemNodeType;
+    /** Size in bytes of the file, or of all files under the directory */
+    size: number;
+    /** Number of files under this node, 1 for files */
+    file_count: number;
+    /** Number of directories under this node, 0 for files */
+    dir_count: number;
+    /** Depth of the node, 0 for the root */
+    depth: number;
+    /** Children of a directory, in digest order. Only present for directories */
+    children?: JsonDigestNode[];
+    /** Content of a file, or null if it was omitted by the token budget. Only present for files */
+    content?: string | null;
+    /** Token count of the emitted content. Only present for files */
+    tokens?: number;
+    /** How the token budget handled the file. Only present for files when a token budget is set */
+    budget_status?: FileBudgetStatus;
+    /** The last commit that changed the file. Only present for files when the file history was requested */
+    last_commit?: CommitInfo;
+}
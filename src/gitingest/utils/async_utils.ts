@@ -0,0 +1,51 @@
+/**
+ * Utilities for running asynchronous operations with bounded concurrency.
+ */
+
+import { throwIfCancelled } from './progress_utils';
+
+/**
+ * Run an asynchronous function on every item of a list, with at most `limit` calls in flight.
+ * 
+ * @param items - The items to process
+ * @param limit - The maximum number of calls running at the same time, at least 1
+ * @param fn - The function to run on each item, with the index of the item
+ * @param signal - Aborting this signal stops starting new calls
+ * @returns The results, in the order of the items
+ * @throws The first error thrown by a call, once the running calls have settled
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function mapConcurrent<T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failed = false;
+
+    // Each worker takes the next item until none is left, or another worker failed
+    const worker = async () => {
+        while (next < items.length && !failed) {
+            try {
+                throwIfCancelled(signal);
+                const index = next++;
+                results[index] = await fn(items[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+    const outcomes = await Promise.allSettled(workers);
+    for (const outcome of outcomes) {
+        if (outcome.status === 'rejected') {
+            throw outcome.reason;
+        }
+    }
+
+    return results;
+}
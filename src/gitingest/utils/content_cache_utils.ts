@@ -0,0 +1,208 @@
+/**
+ * Utilities for the persistent cache of file contents, which lets repeated ingestions of a directory only re-read the
+ * files that changed.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { CONTENT_CACHE_VERSION, CachedFile, ContentCacheIndex } from '../types/content_cache_schema';
+import { FileSystemNode } from '../types/filesystem_schema';
+import { IngestionQuery } from '../types/ingestion_schema';
+import { collectFiles } from './token_budget_utils';
+
+/** Estimated size in bytes of the fields of a cache entry, besides its content */
+const ENTRY_OVERHEAD = 256;
+
+/**
+ * The persistent cache of the files of one ingested directory.
+ *
+ * An entry is used when the modification time and size of its file are unchanged. A file that changed is read again,
+ * but keeps its cached token counts when its bytes hash to the same value. The cache is held in memory during the
+ * ingestion and written back by `save`.
+ */
+export class ContentCache {
+    /** Path of the index file of the ingested directory */
+    readonly index_path: string;
+    /** Number of files whose content was taken from the cache */
+    hits: number = 0;
+    /** Number of files that were read because they were not cached or had changed */
+    misses: number = 0;
+    private readonly max_size: number;
+    private readonly index: ContentCacheIndex;
+
+    private constructor(index_path: string, max_size: number, index: ContentCacheIndex) {
+        this.index_path = index_path;
+        this.max_size = max_size;
+        this.index = index;
+    }
+
+    /**
+     * Open the cache of a directory, starting empty when it has no index yet or its index cannot be used.
+     *
+     * @param cache_dir - The directory holding the index files
+     * @param root - Absolute path of the ingested directory
+     * @param max_size - Maximum size in bytes of the cache directory
+     * @returns The cache of the directory
+     */
+    static async open(cache_dir: string, root: string, max_size: number): Promise<ContentCache> {
+        const index_name = createHash('sha256').update(root).digest('hex').slice(0, 16);
+        const index_path = path.join(cache_dir, `${index_name}.json`);
+        let index: ContentCacheIndex = { version: CONTENT_CACHE_VERSION, root, files: {} };
+
+        try {
+            const stored = JSON.parse(await fs.readFile(index_path, 'utf-8')) as ContentCacheIndex;
+            if (stored.version === CONTENT_CACHE_VERSION && stored.root === root) {
+                index = stored;
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.warn(`Ignoring unreadable content cache ${index_path}: ${error}`);
+            }
+        }
+
+        return new ContentCache(index_path, max_size, index);
+    }
+
+    /**
+     * Return the cached entry of a file, if the file is unchanged since it was cached.
+     *
+     * @param file - The file node, with its modification time and size
+     * @returns The entry, or undefined if the file must be read
+     */
+    lookup(file: FileSystemNode): CachedFile | undefined {
+        const entry = this.index.files[file.path_str];
+        if (
+            !entry ||
+            entry.mtime_ms !== file.mtime_ms ||
+            entry.size !== file.size ||
+            entry.include_notebook_output !== file.include_notebook_output
+        ) {
+            this.misses += 1;
+            return undefined;
+        }
+
+        this.hits += 1;
+        entry.used_at = Date.now();
+        return entry;
+    }
+
+    /**
+     * Cache what reading a file produced.
+     *
+     * @param file - The file node, with its modification time and size
+     * @param hash - The SHA-256 of the bytes of the file
+     * @param content - The decoded content, or undefined for a binary file
+     * @returns The new entry, which keeps the token counts of the previous one when the content is the same
+     */
+    store(file: FileSystemNode, hash: string, content?: string): CachedFile {
+        const previous = this.index.files[file.path_str];
+        const same_content = previous?.hash === hash && previous.include_notebook_output === file.include_notebook_output;
+        const entry: CachedFile = {
+            mtime_ms: file.mtime_ms ?? 0,
+            size: file.size,
+            hash,
+            binary: content === undefined,
+            include_notebook_output: file.include_notebook_output,
+            content,
+            tokens: same_content ? previous.tokens : {},
+            used_at: Date.now()
+        };
+
+        this.index.files[file.path_str] = entry;
+        return entry;
+    }
+
+    /**
+     * Record the token counts of the files of a tree and write the cache to disk.
+     *
+     * The least recently used entries are evicted to keep the index under the size limit, then the least recently
+     * written indexes of other directories. A cache that cannot be written is only reported, the ingestion goes on.
+     *
+     * @param root - The ingested tree
+     */
+    async save(root: FileSystemNode): Promise<void> {
+        for (const file of collectFiles(root)) {
+            const entry = this.index.files[file.path_str];
+            if (entry && entry.hash === file.content_hash) {
+                for (const [tokenizer, count] of file.token_counts) {
+                    entry.tokens[tokenizer] = count;
+                }
+            }
+        }
+
+        this.evict();
+
+        try {
+            const cache_dir = path.dirname(this.index_path);
+            const temp_path = `${this.index_path}.${process.pid}.tmp`;
+            await fs.mkdir(cache_dir, { recursive: true });
+            // Write then rename, so that a concurrent ingestion never reads a partial index
+            await fs.writeFile(temp_path, JSON.stringify(this.index), 'utf-8');
+            await fs.rename(temp_path, this.index_path);
+            await trimCacheDirectory(cache_dir, this.max_size, this.index_path);
+        } catch (error) {
+            console.warn(`Failed to write content cache ${this.index_path}: ${error}`);
+        }
+    }
+
+    /**
+     * Keep the most recently used entries that fit in the size limit, and drop the others.
+     */
+    private evict(): void {
+        const entries = Object.entries(this.index.files).sort(([, a], [, b]) => b.used_at - a.used_at);
+        const files: Record<string, CachedFile> = {};
+        let size = 0;
+
+        for (const [file_path, entry] of entries) {
+            const entry_size = ENTRY_OVERHEAD + file_path.length + (entry.content?.length ?? 0);
+            if (size + entry_size <= this.max_size) {
+                files[file_path] = entry;
+                size += entry_size;
+            }
+        }
+
+        this.index.files = files;
+    }
+}
+
+/**
+ * Open the content cache of the directory of a query.
+ *
+ * @param query - The parsed query, holding the cache directory and its size limit
+ * @returns The cache, or undefined if the query does not use one or, in diff mode, does not read files from disk
+ */
+export async function openContentCache(query: IngestionQuery): Promise<ContentCache | undefined> {
+    if (!query.cache_dir || query.diff) {
+        return undefined;
+    }
+    return ContentCache.open(query.cache_dir, query.local_path, query.max_cache_size);
+}
+
+/**
+ * Delete the least recently written index files of a cache directory until it fits in the size limit.
+ *
+ * @param cache_dir - The cache directory
+ * @param max_size - Maximum size in bytes of the directory
+ * @param keep_path - The index file that is never deleted
+ */
+async function trimCacheDirectory(cache_dir: string, max_size: number, keep_path: string): Promise<void> {
+    const names = (await fs.readdir(cache_dir)).filter(name => name.endsWith('.json'));
+    const indexes = await Promise.all(names.map(async name => {
+        const index_path = path.join(cache_dir, name);
+        const stats = await fs.stat(index_path);
+        return { index_path, size: stats.size, mtime_ms: stats.mtimeMs };
+    }));
+
+    let total_size = indexes.reduce((total, index) => total + index.size, 0);
+    for (const index of indexes.sort((a, b) => a.mtime_ms - b.mtime_ms)) {
+        if (total_size <= max_size) {
+            break;
+        }
+        if (index.index_path !== keep_path) {
+            await fs.rm(index.index_path, { force: true });
+            total_size -= index.size;
+        }
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * Utilities for reading the git context of an ingested directory: its checked out commit, remote, uncommitted
+ * changes and recent history.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+
+import { GIT_HISTORY_DEPTH } from '../config';
+import { runCommand } from '../cloning';
+import { IngestionCancelledError } from '../errors/exceptions';
+import { FileSystemNode } from '../types/filesystem_schema';
+import { CommitInfo, GitContext, GitContextQuery } from '../types/git_context_schema';
+import { IngestionQuery } from '../types/ingestion_schema';
+import { collectFiles } from './token_budget_utils';
+
+/** Separator of the records of `git log`, printed before each commit */
+const RECORD_SEPARATOR = '\x1e';
+
+/** Separator of the fields of a commit in `git log` */
+const FIELD_SEPARATOR = '\x1f';
+
+/** Format of the commits printed by `git log`, parsed by `parseLog` */
+const LOG_FORMAT = `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`;
+
+/**
+ * Create the git context query of an ingestion.
+ *
+ * @param params - The settings to override, the defaults list no commits and no file history
+ * @returns The git context query
+ */
+export function createGitContextQuery(params: Partial<GitContextQuery> = {}): GitContextQuery {
+    return {
+        log_count: params.log_count || 0,
+        log_per_path: params.log_per_path ?? false,
+        file_history: params.file_history ?? false,
+        history_depth: params.history_depth || GIT_HISTORY_DEPTH,
+    };
+}
+
+/**
+ * Read the git context of the ingested directory of a query, and annotate the files of its tree with their last
+ * commit if the query asks for it.
+ *
+ * The context is stored in `query.git_context.result`. In a shallow clone, only the commits within the fetched depth
+ * are known, so the files last changed before them get no last commit. A directory that is not in a Git repository
+ * gets no context, with a warning.
+ *
+ * @param query - The parsed query, with its git context query
+ * @param root - The ingested tree
+ * @param signal - Aborting this signal kills the running git process
+ * @returns The git context, or undefined if the directory is not in a Git repository
+ * @throws Error if git fails on the repository
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function readGitContext(
+    query: IngestionQuery,
+    root: FileSystemNode,
+    signal?: AbortSignal
+): Promise<GitContext | undefined> {
+    if (!query.git_context) {
+        return undefined;
+    }
+
+    // The directory of a single file is the one git runs in
+    const directory = query.type === "blob" ? path.dirname(root.path) : root.path;
+    const git_args = ["-C", directory, "-c", "core.quotePath=false"];
+    const git = async (args: string[]) =>
+        (await runCommand("git", [...git_args, ...args], { signal })).stdout.toString('utf-8');
+
+    try {
+        await git(["rev-parse", "--verify", "--quiet", "HEAD^{commit}"]);
+    } catch (error) {
+        if (error instanceof IngestionCancelledError) {
+            throw error;
+        }
+        console.warn(`Skipping the git context: ${query.slug} is not in a Git repository with commits`);
+        return undefined;
+    }
+
+    const [head_commit, commit_date] = (await git(["log", "-1", "--format=%H%n%cI", "HEAD"])).trim().split('\n');
+    const branch = (await git(["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+    const shallow_commits = await readShallowCommits(git);
+
+    const context: GitContext = {
+        head_commit,
+        commit_date,
+        branch: branch === "HEAD" ? undefined : branch,
+        remote_url: query.url ?? await readRemoteUrl(git),
+        shallow: shallow_commits.size > 0,
+        commits: [],
+    };
+
+    // Clones are fresh checkouts, only local repositories can have uncommitted changes
+    if (!query.url) {
+        context.uncommitted_changes = (await git(["status", "--porcelain"])).split('\n').filter(Boolean).length;
+    }
+
+    const { log_count, log_per_path, file_history } = query.git_context;
+    if (log_count > 0) {
+        const path_args = log_per_path ? ["--", "."] : [];
+        context.commits = parseLog(await git(["log", `--max-count=${log_count}`, LOG_FORMAT, "HEAD", ...path_args]))
+            .map(entry => entry.commit);
+    }
+
+    if (file_history) {
+        const files = collectFiles(root);
+        const relative_paths = files.map(file => path.relative(directory, file.path).split(path.sep).join('/'));
+        const file_commits = await readFileCommits(git_args, relative_paths, shallow_commits, signal);
+        files.forEach((file, index) => file.last_commit = file_commits.get(relative_paths[index]));
+    }
+
+    query.git_context.result = context;
+    return context;
+}
+
+/**
+ * Find the last commit changing each of the given files of a directory.
+ *
+ * The log is parsed while git prints it, and git is stopped as soon as every file has its commit, so the history
+ * older than the last change of the least recently changed file is never read.
+ *
+ * @param git_args - Arguments running git in the directory
+ * @param file_paths - The paths of the files relative to the directory with forward slashes
+ * @param shallow_commits - The boundary commits of a shallow clone, which show every file as added
+ * @param signal - Aborting this signal kills the running git process
+ * @returns The last commits, keyed by the path of the files, without the files git knows no commit of
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+async function readFileCommits(
+    git_args: string[],
+    file_paths: string[],
+    shallow_commits: Set<string>,
+    signal?: AbortSignal
+): Promise<Map<string, CommitInfo>> {
+    const remaining = new Set(file_paths);
+    const file_commits = new Map<string, CommitInfo>();
+    if (remaining.size === 0) {
+        return file_commits;
+    }
+
+    const stop = new AbortController();
+    const addCommits = (output: string) => {
+        // The log is newest first, so the first commit listing a file is its last change
+        for (const { commit, files } of parseLog(output)) {
+            if (shallow_commits.has(commit.hash)) {
+                continue;
+            }
+            for (const file of files) {
+                if (remaining.delete(file)) {
+                    file_commits.set(file, commit);
+                }
+            }
+        }
+        if (remaining.size === 0) {
+            stop.abort();
+        }
+    };
+
+    // The last record printed so far may be incomplete, it is parsed once the next one starts
+    const decoder = new StringDecoder('utf-8');
+    let pending = '';
+    try {
+        await runCommand("git", [
+            ...git_args, "log", "--name-only", "--no-renames", "--relative", LOG_FORMAT, "HEAD", "--", ".",
+        ], {
+            signal: signal ? AbortSignal.any([signal, stop.signal]) : stop.signal,
+            on_stdout: data => {
+                const records = (pending + decoder.write(data)).split(RECORD_SEPARATOR);
+                pending = records.pop()!;
+                addCommits(records.join(RECORD_SEPARATOR));
+            },
+        });
+        addCommits(pending + decoder.end());
+    } catch (error) {
+        if (!(error instanceof IngestionCancelledError && stop.signal.aborted && !signal?.aborted)) {
+            throw error;
+        }
+    }
+
+    return file_commits;
+}
+
+/**
+ * Parse the output of `git log` printed with `LOG_FORMAT`, optionally with `--name-only`.
+ *
+ * @param output - The output of git
+ * @returns The commits, newest first, with the files they changed
+ */
+function parseLog(output: string): { commit: CommitInfo; files: string[] }[] {
+    return output.split(RECORD_SEPARATOR).filter(Boolean).map(record => {
+        const [header, ...files] = record.split('\n');
+        const [hash, author, date, subject] = header.split(FIELD_SEPARATOR);
+        return { commit: { hash, author, date, subject }, files: files.filter(Boolean) };
+    });
+}
+
+/**
+ * Return the URL of the `origin` remote of a repository.
+ *
+ * @param git - Runs git in the repository
+ * @returns The URL, or undefined if the repository has no `origin` remote
+ */
+async function readRemoteUrl(git: (args: string[]) => Promise<string>): Promise<string | undefined> {
+    try {
+        return (await git(["remote", "get-url", "origin"])).trim();
+    } catch (error) {
+        if (error instanceof IngestionCancelledError) {
+            throw error;
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Return the boundary commits of a shallow clone, whose parents were not fetched.
+ *
+ * @param git - Runs git in the repository
+ * @returns The hashes of the boundary commits, empty if the repository is not shallow
+ */
+async function readShallowCommits(git: (args: string[]) => Promise<string>): Promise<Set<string>> {
+    const shallow_path = (await git(["rev-parse", "--path-format=absolute", "--git-path", "shallow"])).trim();
+    try {
+        return new Set((await fs.readFile(shallow_path, 'utf-8')).split('\n').filter(Boolean));
+    } catch {
+        return new Set();
+    }
+}
@@ -0,0 +1,511 @@
+/**
+ * Utilities for diff mode: parsing diff ranges and reading the changes between two commits with git.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { runCommand } from '../cloning';
+import { IngestionCancelledError } from '../errors/exceptions';
+import { ChangeStatus, ChangedFile, DiffQuery, DiffResult, WorkingTreeChanges } from '../types/diff_schema';
+import { IngestionQuery } from '../types/ingestion_schema';
+import { mapConcurrent } from './async_utils';
+import { isTextBuffer } from './textfile_checker_utils';
+
+/** Ref of the upstream branch of the current branch */
+const UPSTREAM_REF = '@{upstream}';
+
+/** Ref of the default branch of the cloned repository */
+const DEFAULT_BRANCH_REF = 'origin/HEAD';
+
+/** Change statuses keyed by the letter git reports them with */
+const STATUS_LETTERS: Record<string, ChangeStatus> = {
+    A: ChangeStatus.ADDED,
+    M: ChangeStatus.MODIFIED,
+    D: ChangeStatus.DELETED,
+    R: ChangeStatus.RENAMED,
+    C: ChangeStatus.COPIED,
+    T: ChangeStatus.TYPE_CHANGED,
+};
+
+/**
+ * Parse a diff range, following the syntax of `git diff`.
+ *
+ * `<base>..<head>` compares the two refs, and `<base>...<head>` compares the head to the merge base of the refs. A
+ * missing ref stands for `HEAD`, so a single `<base>` compares `HEAD` to it.
+ *
+ * @param spec - The range, e.g. 'main', 'v1.0..v2.0' or 'main...feature'
+ * @param include_content - Whether the full content of each changed file is ingested along with its patch
+ * @returns The diff query
+ * @throws Error if the range has no ref or is malformed
+ */
+export function parseDiffRange(spec: string, include_content: boolean = false): DiffQuery {
+    const range = spec.trim();
+    const match = range.match(/^(.*?)(\.\.\.?)(.*)$/);
+    const base = (match ? match[1] : range).trim();
+    const head = (match ? match[3] : '').trim();
+
+    if (!base && !head) {
+        throw new Error(`Invalid diff range '${spec}': expected <base>[..<head>]`);
+    }
+    if (head.includes('..')) {
+        throw new Error(`Invalid diff range '${spec}': expected a single '..' or '...'`);
+    }
+
+    return {
+        base: base || 'HEAD',
+        head: head || 'HEAD',
+        merge_base: match?.[2] === '...',
+        include_content,
+    };
+}
+
+/**
+ * Return the letter summarizing a change status, as in `git diff --name-status`.
+ *
+ * @param status - The change status
+ * @returns The status letter
+ */
+export function getStatusLetter(status: ChangeStatus): string {
+    return Object.keys(STATUS_LETTERS).find(letter => STATUS_LETTERS[letter] === status)!;
+}
+
+/**
+ * Create the diff of the uncommitted changes of a working tree, with the current content of the changed files.
+ *
+ * @param changes - The staged or the unstaged changes
+ * @returns The diff query
+ */
+export function createWorkingTreeDiff(changes: WorkingTreeChanges): DiffQuery {
+    return { base: 'HEAD', head: 'HEAD', merge_base: false, include_content: true, working_tree: changes };
+}
+
+/**
+ * Create the diff of the commits of the current branch that are not pushed to its upstream branch yet.
+ *
+ * @returns The diff query, comparing `HEAD` to its merge base with the upstream branch, with the content of the
+ *          changed files
+ */
+export function createUnpushedDiff(): DiffQuery {
+    return parseDiffRange(`${UPSTREAM_REF}...HEAD`, true);
+}
+
+/**
+ * Create the diff of a checked out pull or merge request, as shown by the host.
+ *
+ * @param include_content - Whether the full content of each changed file is ingested along with its patch
+ * @returns The diff query, comparing `HEAD` to its merge base with the default branch of the cloned repository
+ */
+export function createPullRequestDiff(include_content: boolean = false): DiffQuery {
+    return parseDiffRange(`${DEFAULT_BRANCH_REF}...HEAD`, include_content);
+}
+
+/**
+ * Return the root of the working tree of the Git repository containing a directory.
+ *
+ * @param directory - A directory of the repository
+ * @param signal - Aborting this signal kills the git process
+ * @returns The absolute path of the root
+ * @throws Error if the directory is not in a Git working tree
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function findRepositoryRoot(directory: string, signal?: AbortSignal): Promise<string> {
+    try {
+        return path.resolve((await runGit(directory, ["rev-parse", "--show-toplevel"], signal)).trim());
+    } catch (error) {
+        if (error instanceof IngestionCancelledError) {
+            throw error;
+        }
+        throw new Error(`${directory} is not in a Git repository`);
+    }
+}
+
+/**
+ * Read the changes of the diff of a query from its Git repository.
+ *
+ * The refs are resolved to commits, trying the remote-tracking branches of `origin` for branches that only exist
+ * there, as in a fresh clone. Only the changes inside the subpath of the query are read, with paths relative to it.
+ * For uncommitted changes, the staged ones are compared to the base and the unstaged ones to the index, and untracked
+ * files that are not ignored by git count as unstaged additions.
+ *
+ * @param query - The parsed query, with its diff
+ * @param signal - Aborting this signal kills the running git process
+ * @returns The resolved range and the changed files, in the order of git
+ * @throws Error if the query has no diff, targets a single file, is not in a Git repository, or a ref is unknown
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function readDiff(query: IngestionQuery, signal?: AbortSignal): Promise<DiffResult> {
+    if (!query.diff) {
+        throw new Error("The query has no diff range");
+    }
+    if (query.type === "blob") {
+        throw new Error("Diff mode requires a directory, not a single file");
+    }
+
+    const git = (args: string[]) => runGit(getDiffDirectory(query), args, signal);
+
+    try {
+        await git(["rev-parse", "--git-dir"]);
+    } catch (error) {
+        if (error instanceof IngestionCancelledError) {
+            throw error;
+        }
+        throw new Error(`Diff mode requires a Git repository: ${query.slug} is not one`);
+    }
+
+    const { working_tree } = query.diff;
+    if (working_tree === WorkingTreeChanges.UNSTAGED) {
+        const files = [...await readChanges(git, []), ...await readUntrackedFiles(query, git)];
+        return { commit_count: 0, files };
+    }
+    if (working_tree === WorkingTreeChanges.STAGED) {
+        // Before the first commit, git compares the index to the empty tree
+        const unborn = query.diff.base === 'HEAD' && !await hasCommits(git);
+        const staged_base = unborn ? undefined : await resolveCommit(git, query.diff.base);
+        const files = await readChanges(git, staged_base ? ["--cached", staged_base] : ["--cached"]);
+        return { base_commit: staged_base, commit_count: 0, files };
+    }
+
+    let base_commit = await resolveCommit(git, query.diff.base);
+    const head_commit = await resolveCommit(git, query.diff.head);
+    if (query.diff.merge_base) {
+        base_commit = (await git(["merge-base", base_commit, head_commit])).trim();
+    }
+
+    const files = await readChanges(git, [base_commit, head_commit]);
+    const commit_count = parseInt(await git(["rev-list", "--count", `${base_commit}..${head_commit}`]), 10);
+    return { base_commit, head_commit, commit_count, files };
+}
+
+/**
+ * Read the contents of changed files in the head commit of a diff, with a single git process, or in the working tree
+ * for uncommitted changes.
+ *
+ * @param query - The parsed query, holding the maximum file size
+ * @param head_commit - The head commit of the diff, undefined for uncommitted changes
+ * @param files - The changed files, which must not be deleted
+ * @param signal - Aborting this signal kills the git process
+ * @returns The contents, in the order of the files, with placeholders for binary files, files larger than the maximum
+ *          file size and entries that are not files, such as submodules
+ * @throws Error if the contents cannot be read
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function readChangedFileContents(
+    query: IngestionQuery,
+    head_commit: string | undefined,
+    files: ChangedFile[],
+    signal?: AbortSignal
+): Promise<string[]> {
+    if (files.length === 0) {
+        return [];
+    }
+    if (head_commit === undefined) {
+        return mapConcurrent(files, query.max_concurrent_io, async file => {
+            try {
+                const file_path = path.join(getDiffDirectory(query), file.path);
+                const stats = await fs.lstat(file_path);
+                if (!stats.isFile()) {
+                    return "[Not a file]";
+                }
+                return decodeChangedFile(query, stats.size, await fs.readFile(file_path));
+            } catch (error) {
+                return `Error reading file: ${error}`;
+            }
+        }, signal);
+    }
+
+    // './' makes the paths relative to the directory git runs in rather than to the root of the repository
+    const input = files.map(file => `${head_commit}:./${file.path}\n`).join('');
+    const { stdout } = await runCommand(
+        "git",
+        ["-C", getDiffDirectory(query), "cat-file", "--batch"],
+        { signal, input }
+    );
+
+    // Each object is printed as '<hash> <type> <size>\n<content>\n', or as '<name> missing\n'
+    const contents: string[] = [];
+    let offset = 0;
+    for (let index = 0; index < files.length; index += 1) {
+        const header_end = stdout.indexOf('\n', offset);
+        const header = stdout.subarray(offset, header_end).toString('utf-8').split(' ');
+        offset = header_end + 1;
+        if (header[header.length - 1] === "missing") {
+            contents.push("[Not a file]");
+            continue;
+        }
+
+        const size = parseInt(header[2], 10);
+        const content = stdout.subarray(offset, offset + size);
+        offset += size + 1;
+        contents.push(header[1] === "blob" ? decodeChangedFile(query, size, content) : "[Not a file]");
+    }
+
+    return contents;
+}
+
+/**
+ * Decode the content of a changed file.
+ *
+ * @param query - The parsed query, holding the maximum file size
+ * @param size - The size of the file in bytes
+ * @param content - The bytes of the file
+ * @returns The content, or a placeholder for binary files and files larger than the maximum file size
+ */
+function decodeChangedFile(query: IngestionQuery, size: number, content: Buffer): string {
+    if (size > query.max_file_size) {
+        return formatFileTooLarge(query);
+    }
+    if (!isTextBuffer(content)) {
+        return "[Non-text file]";
+    }
+    return content.toString('utf-8');
+}
+
+/**
+ * Return the placeholder of a changed file larger than the maximum file size.
+ *
+ * @param query - The parsed query, holding the maximum file size
+ * @returns The placeholder
+ */
+function formatFileTooLarge(query: IngestionQuery): string {
+    return `[File larger than the maximum file size (${query.max_file_size} bytes)]`;
+}
+
+/**
+ * Read the changed files of a `git diff` and their patches.
+ *
+ * @param git - Runs git in the directory of the diff
+ * @param diff_args - What `git diff` compares, e.g. two commits, or `--cached` and a commit
+ * @returns The changed files, in the order of git
+ */
+async function readChanges(git: (args: string[]) => Promise<string>, diff_args: string[]): Promise<ChangedFile[]> {
+    const name_status = await git(["diff", "--name-status", "-z", "-M", "--relative", ...diff_args]);
+    const patches = splitPatches(await git(["diff", "-M", "--no-color", "--no-ext-diff", "--relative", ...diff_args]));
+
+    const files: ChangedFile[] = [];
+    for (const change of parseNameStatus(name_status)) {
+        // A type change is shown as the deletion of the old file followed by the addition of the new one
+        const patch = patches.splice(0, change.status === ChangeStatus.TYPE_CHANGED ? 2 : 1).join('');
+        files.push({ ...change, patch, ...countChangedLines(patch) });
+    }
+
+    return files;
+}
+
+/**
+ * Read the untracked files of the directory of a diff that git does not ignore, as added files.
+ *
+ * Git shows no patch for untracked files, so their patch is built from their content. Files larger than the maximum
+ * file size are not read, and entries that are not files and files that cannot be read, e.g. because they were
+ * deleted in the meantime, get a placeholder instead of their content.
+ *
+ * @param query - The parsed query, holding the maximum file size
+ * @param git - Runs git in the directory of the diff
+ * @returns The untracked files, sorted by path
+ */
+async function readUntrackedFiles(
+    query: IngestionQuery,
+    git: (args: string[]) => Promise<string>
+): Promise<ChangedFile[]> {
+    // Nested repositories are listed as directories, with a trailing slash
+    const paths = (await git(["ls-files", "--others", "--exclude-standard", "-z"]))
+        .split('\0')
+        .filter(file_path => file_path && !file_path.endsWith('/'));
+
+    return mapConcurrent(paths, query.max_concurrent_io, async file_path => {
+        const patch = createAddedFilePatch(file_path, await readUntrackedFile(query, file_path));
+        return { status: ChangeStatus.ADDED, path: file_path, patch, ...countChangedLines(patch) };
+    });
+}
+
+/**
+ * Read the content of an untracked file.
+ *
+ * @param query - The parsed query, holding the maximum file size
+ * @param file_path - The path of the file, relative to the directory of the diff
+ * @returns The bytes of the file, or a placeholder for files larger than the maximum file size, entries that are not
+ *          files and files that cannot be read
+ */
+async function readUntrackedFile(query: IngestionQuery, file_path: string): Promise<Buffer | string> {
+    try {
+        const full_path = path.join(getDiffDirectory(query), file_path);
+        const stats = await fs.lstat(full_path);
+        if (!stats.isFile()) {
+            return "[Not a file]";
+        }
+        if (stats.size > query.max_file_size) {
+            return formatFileTooLarge(query);
+        }
+        return await fs.readFile(full_path);
+    } catch (error) {
+        return `Error reading file: ${error}`;
+    }
+}
+
+/**
+ * Build the patch adding a file, as `git diff` shows it.
+ *
+ * @param file_path - The path of the file, with forward slashes
+ * @param content - The bytes of the file, or a placeholder shown instead of its lines
+ * @returns The patch
+ */
+function createAddedFilePatch(file_path: string, content: Buffer | string): string {
+    const header = `diff --git a/${file_path} b/${file_path}\nnew file\n`;
+    if (typeof content === 'string') {
+        return header + `${content}\n`;
+    }
+    if (!isTextBuffer(content)) {
+        return header + `Binary files /dev/null and b/${file_path} differ\n`;
+    }
+    if (content.length === 0) {
+        return header;
+    }
+
+    const text = content.toString('utf-8');
+    const lines = text.split('\n');
+    const ends_with_newline = text.endsWith('\n');
+    if (ends_with_newline) {
+        lines.pop();
+    }
+
+    return header +
+        `--- /dev/null\n+++ b/${file_path}\n@@ -0,0 +1${lines.length === 1 ? '' : `,${lines.length}`} @@\n` +
+        lines.map(line => `+${line}\n`).join('') +
+        (ends_with_newline ? '' : "\\ No newline at end of file\n");
+}
+
+/**
+ * Return the directory git runs in for the diff of a query: the subpath of its local path.
+ *
+ * @param query - The parsed query
+ * @returns The absolute path of the directory
+ */
+function getDiffDirectory(query: IngestionQuery): string {
+    return path.join(query.local_path, ...query.subpath.split('/').filter(Boolean));
+}
+
+/**
+ * Run git in a directory and return its standard output.
+ *
+ * @param directory - The directory git runs in
+ * @param args - The arguments of git
+ * @param signal - Aborting this signal kills the git process
+ * @returns The standard output, decoded as UTF-8
+ */
+async function runGit(directory: string, args: string[], signal?: AbortSignal): Promise<string> {
+    const { stdout } = await runCommand("git", ["-C", directory, ...args], { signal });
+    return stdout.toString('utf-8');
+}
+
+/**
+ * Check whether the current branch has commits, which it has not in a repository created by `git init` until the
+ * first commit.
+ *
+ * @param git - Runs git in the directory of the diff
+ * @returns Whether `HEAD` resolves to a commit
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+async function hasCommits(git: (args: string[]) => Promise<string>): Promise<boolean> {
+    try {
+        await git(["rev-parse", "--verify", "--quiet", "HEAD^{commit}"]);
+        return true;
+    } catch (error) {
+        if (error instanceof IngestionCancelledError) {
+            throw error;
+        }
+        return false;
+    }
+}
+
+/**
+ * Resolve a ref to the hash of its commit, falling back to the remote-tracking branch of `origin`.
+ *
+ * @param git - Runs git in the directory of the diff
+ * @param ref - The ref, e.g. a branch, tag or commit hash
+ * @returns The full hash of the commit
+ * @throws Error if the ref does not name a commit
+ */
+async function resolveCommit(git: (args: string[]) => Promise<string>, ref: string): Promise<string> {
+    if (ref === UPSTREAM_REF) {
+        try {
+            return (await git(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).trim();
+        } catch (error) {
+            if (error instanceof IngestionCancelledError) {
+                throw error;
+            }
+            throw new Error("The current branch has no upstream branch");
+        }
+    }
+
+    for (const candidate of [ref, `refs/remotes/origin/${ref}`]) {
+        try {
+            return (await git(["rev-parse", "--verify", "--quiet", `${candidate}^{commit}`])).trim();
+        } catch (error) {
+            if (error instanceof IngestionCancelledError) {
+                throw error;
+            }
+        }
+    }
+    throw new Error(`Unknown revision '${ref}'`);
+}
+
+/**
+ * Parse the output of `git diff --name-status -z`.
+ *
+ * @param output - The NUL-separated output: a status, then one path, or two for renames and copies
+ * @returns The changes, without their patches
+ */
+function parseNameStatus(output: string): Pick<ChangedFile, 'status' | 'path' | 'old_path'>[] {
+    const fields = output.split('\0');
+    const changes: Pick<ChangedFile, 'status' | 'path' | 'old_path'>[] = [];
+
+    for (let index = 0; index + 1 < fields.length; index += 2) {
+        // Renames and copies carry a similarity score, e.g. 'R087'
+        const status = STATUS_LETTERS[fields[index][0]] || ChangeStatus.MODIFIED;
+        if (status === ChangeStatus.RENAMED || status === ChangeStatus.COPIED) {
+            changes.push({ status, old_path: fields[index + 1], path: fields[index + 2] });
+            index += 1;
+        } else {
+            changes.push({ status, path: fields[index + 1] });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Split the output of `git diff` into the patches of each file.
+ *
+ * @param output - The unified diff of all files
+ * @returns The patches, each starting with its `diff --git` line, in the order of git
+ */
+function splitPatches(output: string): string[] {
+    // Lines of a hunk start with ' ', '+' or '-', so only file headers start with 'diff --git'
+    return output.split(/^(?=diff --git )/m).filter(patch => patch.startsWith("diff --git "));
+}
+
+/**
+ * Count the lines added and deleted by a patch.
+ *
+ * @param patch - The patch of a file
+ * @returns The numbers of added and deleted lines
+ */
+function countChangedLines(patch: string): { additions: number; deletions: number } {
+    let additions = 0;
+    let deletions = 0;
+    let in_hunk = false;
+
+    for (const line of patch.split('\n')) {
+        if (line.startsWith("diff --git ")) {
+            in_hunk = false;
+        } else if (line.startsWith("@@")) {
+            in_hunk = true;
+        } else if (in_hunk && line.startsWith('+')) {
+            additions += 1;
+        } else if (in_hunk && line.startsWith('-')) {
+            deletions += 1;
+        }
+    }
+
+    return { additions, deletions };
+}
@@ -0,0 +1,276 @@
+/**
+ * Registry of the Git hosting services whose URLs can be ingested, and parsing of the paths of their URLs.
+ *
+ * The public services are registered by default. Self-hosted services (GitHub Enterprise, self-managed GitLab,
+ * Gitea...) are registered with their flavor, from the hosts file, the `--git-host` option or the extension settings.
+ */
+
+import * as fs from 'fs/promises';
+import * as toml from '@iarna/toml';
+
+import { GIT_HOSTS_FILE } from '../config';
+import { GitingestConfigError } from '../errors/exceptions';
+import { GitHost, GitHostFlavor, RepositoryPath } from '../types/git_host_schema';
+import { removeGitSuffix } from './query_parser_utils';
+
+/**
+ * Grammar of the pages of a repository, following the path of the repository in its URLs.
+ */
+interface UrlGrammar {
+    /** Segment separating the path of the repository from its pages, when the path may have more than two parts */
+    page_separator?: string;
+    /** Pages followed by a ref then a subpath, keyed by their segments and mapped to the type of the query */
+    ref_pages: Record<string, string>;
+    /** Page of a pull request, followed by its number */
+    pull_request_page: string;
+    /**
+     * Ref publishing the head of a pull request, where `{number}` is replaced by its number, or undefined if the
+     * service publishes no refs for pull requests
+     */
+    pull_request_ref?: string;
+}
+
+/** URL grammar of each flavor */
+const URL_GRAMMARS: Record<GitHostFlavor, UrlGrammar> = {
+    [GitHostFlavor.GITHUB]: {
+        ref_pages: { tree: 'tree', blob: 'blob', commit: 'tree' },
+        pull_request_page: 'pull',
+        pull_request_ref: 'refs/pull/{number}/head',
+    },
+    [GitHostFlavor.GITLAB]: {
+        page_separator: '-',
+        ref_pages: { tree: 'tree', blob: 'blob', commit: 'tree' },
+        pull_request_page: 'merge_requests',
+        pull_request_ref: 'refs/merge-requests/{number}/head',
+    },
+    [GitHostFlavor.GITEA]: {
+        ref_pages: { 'src/branch': 'tree', 'src/tag': 'tree', 'src/commit': 'tree', commit: 'tree' },
+        pull_request_page: 'pulls',
+        pull_request_ref: 'refs/pull/{number}/head',
+    },
+    // Bitbucket Cloud: unlike Bitbucket Server, it does not publish the heads of pull requests as refs
+    [GitHostFlavor.BITBUCKET]: {
+        ref_pages: { src: 'tree', commits: 'tree' },
+        pull_request_page: 'pull-requests',
+    },
+};
+
+/** Public services, registered by default */
+const DEFAULT_GIT_HOSTS: Record<string, GitHostFlavor> = {
+    'github.com': GitHostFlavor.GITHUB,
+    'gitlab.com': GitHostFlavor.GITLAB,
+    'bitbucket.org': GitHostFlavor.BITBUCKET,
+    'gitea.com': GitHostFlavor.GITEA,
+    'codeberg.org': GitHostFlavor.GITEA,
+};
+
+/** Registered services, keyed by host name */
+const GIT_HOSTS: Map<string, GitHost> = new Map();
+
+/**
+ * Register a Git hosting service, replacing any service registered with the same host name.
+ *
+ * @param host - Host name of the service, e.g. 'git.corp.example'
+ * @param flavor - Software run by the service: 'github', 'gitlab', 'gitea' or 'bitbucket'
+ * @returns The registered service
+ * @throws Error if the host name or the flavor is invalid
+ */
+export function registerGitHost(host: string, flavor: string): GitHost {
+    const host_name = host.trim().toLowerCase();
+    if (!/^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/.test(host_name)) {
+        throw new Error(`Invalid Git host '${host}': expected a host name, such as 'git.example.com'`);
+    }
+
+    const flavors: string[] = Object.values(GitHostFlavor);
+    if (!flavors.includes(flavor)) {
+        throw new Error(`Unknown flavor '${flavor}' for Git host '${host}'. Must be one of: ${flavors.join(', ')}`);
+    }
+
+    const git_host: GitHost = { host: host_name, flavor: flavor as GitHostFlavor };
+    GIT_HOSTS.set(host_name, git_host);
+    return git_host;
+}
+
+/**
+ * Remove the registered services, except the public services registered by default.
+ */
+export function resetGitHosts(): void {
+    GIT_HOSTS.clear();
+    for (const [host, flavor] of Object.entries(DEFAULT_GIT_HOSTS)) {
+        registerGitHost(host, flavor);
+    }
+}
+
+/**
+ * Validate that a host is a registered Git hosting service.
+ *
+ * @param host - The host to validate
+ * @throws Error if the host is not registered
+ */
+export function validateHost(host: string): void {
+    if (!getGitHost(host)) {
+        throw new Error(
+            `Unsupported Git host: ${host}. Must be one of: ${listGitHosts().join(', ')}, ` +
+            `or registered with --git-host ${host}=<flavor>`
+        );
+    }
+}
+
+/**
+ * Return the registered service of a host.
+ *
+ * @param host - The host name, in any case
+ * @returns The service, or undefined if the host is not registered
+ */
+export function getGitHost(host: string): GitHost | undefined {
+    return GIT_HOSTS.get(host.toLowerCase());
+}
+
+/**
+ * Return the host names of the registered services.
+ *
+ * @returns The host names, the public services first, then in registration order
+ */
+export function listGitHosts(): string[] {
+    return Array.from(GIT_HOSTS.keys());
+}
+
+/**
+ * Parse a `<host>=<flavor>` specification, as given to the `--git-host` option.
+ *
+ * @param spec - The specification, e.g. 'git.corp.example=gitlab'
+ * @returns The host name and the flavor
+ * @throws Error if the specification has no '='
+ */
+export function parseGitHostSpec(spec: string): [string, string] {
+    const separator = spec.indexOf('=');
+    if (separator === -1) {
+        throw new Error(`Invalid Git host '${spec}': expected <host>=<flavor>, e.g. git.example.com=gitlab`);
+    }
+    return [spec.slice(0, separator).trim(), spec.slice(separator + 1).trim()];
+}
+
+/**
+ * Register the services of a hosts file, a TOML document mapping host names to flavors in a `[hosts]` table:
+ *
+ * ```toml
+ * [hosts]
+ * "git.corp.example" = "gitlab"
+ * ```
+ *
+ * @param file_path - Path of the file (defaults to `GIT_HOSTS_FILE`)
+ * @returns The registered services, empty if the file does not exist
+ * @throws GitingestConfigError if the file cannot be read, is not valid TOML or has invalid hosts
+ */
+export async function loadGitHostsFile(file_path: string = GIT_HOSTS_FILE): Promise<GitHost[]> {
+    let content: string;
+    try {
+        content = await fs.readFile(file_path, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return [];
+        }
+        throw new GitingestConfigError(file_path, `cannot be read: ${error}`);
+    }
+
+    let data: toml.JsonMap;
+    try {
+        data = toml.parse(content);
+    } catch (error) {
+        const toml_error = error as Error & { line?: number };
+        throw new GitingestConfigError(
+            file_path,
+            `invalid TOML: ${toml_error.message.split('\n')[0]}`,
+            toml_error.line === undefined ? undefined : toml_error.line + 1
+        );
+    }
+
+    const unknown_key = Object.keys(data).find(key => key !== 'hosts');
+    if (unknown_key !== undefined) {
+        throw new GitingestConfigError(file_path, `unknown key '${unknown_key}', hosts belong in the [hosts] table`);
+    }
+    const hosts = data.hosts ?? {};
+    if (typeof hosts !== 'object' || Array.isArray(hosts) || hosts instanceof Date) {
+        throw new GitingestConfigError(file_path, "'hosts' must be a table");
+    }
+
+    return Object.entries(hosts).map(([host, flavor]) => {
+        try {
+            return registerGitHost(host, String(flavor));
+        } catch (error) {
+            throw new GitingestConfigError(file_path, (error as Error).message);
+        }
+    });
+}
+
+/**
+ * Split the path of a repository URL according to the grammar of its host.
+ *
+ * The path of the repository is its first two parts, or on GitLab, every part before the `-` segment, so that
+ * repositories of subgroups are found. GitLab URLs without that segment end the path of the repository at the first
+ * page keyword after the second part, such as `tree` or `merge_requests`. The pages after it may point at a ref (a
+ * branch or commit, then a subpath) or at a pull request. Other pages, such as issues, are ignored.
+ *
+ * @param git_host - The service hosting the repository
+ * @param url_path - The path of the URL
+ * @returns The parts of the path
+ * @throws Error if the path has no repository, or is a pull request of a service publishing no refs for them
+ */
+export function parseRepositoryPath(git_host: GitHost, url_path: string): RepositoryPath {
+    const parts = url_path.split('/').filter(part => part.length > 0);
+    const grammar = URL_GRAMMARS[git_host.flavor];
+
+    let repository_parts = parts.slice(0, 2);
+    let page_parts = parts.slice(2);
+    if (grammar.page_separator) {
+        const separator = parts.indexOf(grammar.page_separator);
+        if (separator !== -1) {
+            repository_parts = parts.slice(0, separator);
+            page_parts = parts.slice(separator + 1);
+        } else {
+            // Older URLs have no separator: the first page keyword ends the namespace
+            const keywords = [...Object.keys(grammar.ref_pages).map(page => page.split('/')[0]), grammar.pull_request_page];
+            const page_index = parts.findIndex((part, index) => index >= 2 && keywords.includes(part));
+            repository_parts = page_index === -1 ? parts : parts.slice(0, page_index);
+            page_parts = page_index === -1 ? [] : parts.slice(page_index);
+        }
+    }
+
+    if (repository_parts.length < 2) {
+        throw new Error('Invalid repository path. Must be in format: user/repo');
+    }
+
+    const repository_path: RepositoryPath = {
+        user_name: repository_parts.slice(0, -1).join('/'),
+        repo_name: removeGitSuffix(repository_parts[repository_parts.length - 1]),
+        ref_parts: [],
+    };
+
+    const [page, number] = page_parts;
+    if (page === grammar.pull_request_page && /^\d+$/.test(number ?? '')) {
+        if (!grammar.pull_request_ref) {
+            throw new Error(
+                `Pull request URLs of ${git_host.host} cannot be ingested: ${git_host.flavor} does not publish ` +
+                'the refs of pull requests. Ingest the source branch of the pull request instead.'
+            );
+        }
+        repository_path.pull_request = {
+            number: parseInt(number, 10),
+            ref: grammar.pull_request_ref.replace('{number}', number),
+        };
+        return repository_path;
+    }
+
+    for (const [ref_page, type] of Object.entries(grammar.ref_pages)) {
+        const segments = ref_page.split('/');
+        if (segments.every((segment, index) => page_parts[index] === segment)) {
+            repository_path.type = type;
+            repository_path.ref_parts = page_parts.slice(segments.length);
+            break;
+        }
+    }
+
+    return repository_path;
+}
+
+resetGitHosts();
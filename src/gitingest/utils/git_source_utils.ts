@@ -0,0 +1,97 @@
+/**
+ * Utilities for recognizing the Git sources that are cloned as they are given, rather than parsed as URLs of a known
+ * hosting service: ssh, scp-like and file URLs, and paths of local bare repositories.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { runCommand } from '../cloning';
+import { IngestionCancelledError } from '../errors/exceptions';
+import { GitSource } from '../types/ingestion_schema';
+import { removeGitSuffix } from './query_parser_utils';
+
+/** Schemes of the URLs passed to git as they are */
+const CLONE_URL_SCHEMES = ['ssh', 'git+ssh', 'file'];
+
+/** The scp-like syntax of ssh URLs, `user@host:path`. The user is required to tell it from Windows paths */
+const SCP_LIKE_URL = /^[^@/\s]+@[^:/\s]+:(?!\/\/)(.+)$/;
+
+/**
+ * Resolve a source to a Git repository that is cloned as is.
+ * 
+ * @param source - The source given by the user
+ * @param signal - Aborting this signal kills the git process checking for a bare repository
+ * @returns The repository, or undefined if the source is an HTTP URL, a slug or a directory that is not a bare
+ *          repository
+ * @throws Error if the source is a URL without a repository name
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function resolveGitSource(source: string, signal?: AbortSignal): Promise<GitSource | undefined> {
+    const url = source.trim();
+
+    const scp_like = url.match(SCP_LIKE_URL);
+    if (scp_like) {
+        return createGitSource(url, scp_like[1]);
+    }
+
+    const scheme = url.match(/^([a-z][a-z0-9+.-]*):\/\//i)?.[1].toLowerCase();
+    if (scheme && CLONE_URL_SCHEMES.includes(scheme)) {
+        return createGitSource(url, decodeURIComponent(new URL(url).pathname));
+    }
+
+    if (!scheme && await isBareRepository(url, signal)) {
+        const absolute_path = path.resolve(url);
+        return createGitSource(absolute_path, absolute_path);
+    }
+
+    return undefined;
+}
+
+/**
+ * Check whether a directory is a bare Git repository, such as a mirror.
+ * 
+ * @param directory - The directory to check
+ * @param signal - Aborting this signal kills the git process
+ * @returns True if the directory is the root of a bare repository
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function isBareRepository(directory: string, signal?: AbortSignal): Promise<boolean> {
+    try {
+        if (!(await fs.stat(directory)).isDirectory()) {
+            return false;
+        }
+        const { stdout } = await runCommand(
+            "git",
+            ["-C", directory, "rev-parse", "--is-bare-repository", "--absolute-git-dir"],
+            { signal }
+        );
+        const [is_bare, git_dir] = stdout.toString('utf-8').trim().split('\n');
+
+        // Directories inside a bare repository resolve to it too
+        return is_bare === "true" && await fs.realpath(git_dir) === await fs.realpath(directory);
+    } catch (error) {
+        if (error instanceof IngestionCancelledError) {
+            throw error;
+        }
+        return false;
+    }
+}
+
+/**
+ * Create a Git source from its URL and the path of the repository in it.
+ * 
+ * @param url - The URL passed to `git clone`
+ * @param repository_path - The path of the repository, whose last part is its name
+ * @returns The Git source
+ * @throws Error if the path has no repository name
+ */
+function createGitSource(url: string, repository_path: string): GitSource {
+    const parts = repository_path.split(/[\\/]/).filter(part => part.length > 0 && part !== '~');
+    const repo_name = removeGitSuffix(parts.pop() ?? '');
+    if (!repo_name) {
+        throw new Error(`Invalid repository URL '${url}': no repository name`);
+    }
+
+    return { url, owner: parts.join('/') || undefined, repo_name };
+}
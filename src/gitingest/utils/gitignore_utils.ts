@@ -0,0 +1,156 @@
+/**
+ * Utilities for parsing `.gitignore` files and matching paths against them, following gitignore semantics.
+ *
+ * The patterns are compiled by the glob engine of the include and ignore patterns, which follows the same conventions
+ * apart from the differences handled by `toGlobPattern`.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { GlobPattern, compileGlob, matchGlob } from './glob_utils';
+
+/**
+ * A single rule of a `.gitignore` file.
+ */
+export interface GitignoreRule {
+    /** The pattern as written in the file, for debugging */
+    pattern: string;
+    /** Absolute path of the directory the pattern is relative to */
+    base: string;
+    /** The compiled pattern, matching paths relative to `base`. Negated rules (`!pattern`) re-include paths */
+    glob: GlobPattern;
+}
+
+/**
+ * Parse the content of a `.gitignore` file into rules.
+ *
+ * Blank lines and comments are skipped. A leading `!` negates the rule and a trailing `/` restricts it to
+ * directories. A pattern containing a slash (other than a trailing one) is anchored to `base`; otherwise it matches
+ * the name of a file or directory at any depth below `base`. `*` and `?` do not match slashes, while `**` matches
+ * any number of directories. A leading `\!` or `\#` matches a literal `!` or `#`.
+ *
+ * @param content - The content of the file
+ * @param base - Absolute path of the directory containing the file
+ * @returns The rules, in file order
+ */
+export function parseGitignore(content: string, base: string): GitignoreRule[] {
+    const rules: GitignoreRule[] = [];
+
+    for (const raw_line of content.split(/\r?\n/)) {
+        // Trailing spaces are ignored unless they are escaped with a backslash
+        const line = raw_line.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        // A negation or a slash alone matches nothing
+        if (!line.replace(/^!/, '').replace(/\/+$/, '')) {
+            continue;
+        }
+
+        rules.push({ pattern: raw_line.trim(), base, glob: compileGlob(toGlobPattern(line)) });
+    }
+
+    return rules;
+}
+
+/**
+ * Check whether a path is ignored by the given rules.
+ *
+ * Rules are evaluated in order and the last matching rule wins, so rules from deeper `.gitignore` files (which come
+ * later) override rules from their parents. Paths outside the base directory of a rule are not matched by it.
+ *
+ * Excluding a directory also excludes everything below it, and a negated rule cannot re-include a file whose parent
+ * directory is excluded. This holds naturally as long as ignored directories are not traversed.
+ *
+ * @param filePath - The absolute path of the file or directory to check
+ * @param is_directory - Whether the path is a directory
+ * @param rules - The rules that apply to the path, from the outermost to the innermost `.gitignore` file
+ * @returns True if the path is ignored, otherwise False
+ */
+export function isGitignored(filePath: string, is_directory: boolean, rules: GitignoreRule[]): boolean {
+    let ignored = false;
+
+    for (const rule of rules) {
+        const relative = path.relative(rule.base, filePath);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            continue;
+        }
+
+        if (matchGlob(rule.glob, relative.split(path.sep).join('/'), is_directory)) {
+            ignored = !rule.glob.negated;
+        }
+    }
+
+    return ignored;
+}
+
+/**
+ * Read the rules of the `.gitignore` file in a directory.
+ *
+ * @param directory - The absolute path of the directory
+ * @returns The rules, or an empty list if the directory has no readable `.gitignore` file
+ */
+export async function readGitignoreRules(directory: string): Promise<GitignoreRule[]> {
+    return readRulesFile(path.join(directory, '.gitignore'), directory);
+}
+
+/**
+ * Read the rules that apply to a directory before its own `.gitignore` file is read.
+ *
+ * These are the rules of `.git/info/exclude` in the repository root, followed by the rules of the `.gitignore` files
+ * of every directory from the repository root down to the parent of the given directory. This matters when only a
+ * subpath of the repository is ingested.
+ *
+ * @param root - The absolute path of the repository root
+ * @param directory - The absolute path of the directory, at or below the root
+ * @returns The rules, from the outermost to the innermost file
+ */
+export async function readInheritedGitignoreRules(root: string, directory: string): Promise<GitignoreRule[]> {
+    const rules = await readRulesFile(path.join(root, '.git', 'info', 'exclude'), root);
+
+    const relative = path.relative(root, directory);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        return rules;
+    }
+
+    let current = root;
+    for (const part of relative.split(path.sep).slice(0, -1)) {
+        rules.push(...await readGitignoreRules(current));
+        current = path.join(current, part);
+    }
+    rules.push(...await readGitignoreRules(current));
+
+    return rules;
+}
+
+/**
+ * Read and parse a file of gitignore rules.
+ *
+ * @param filePath - The path of the file
+ * @param base - Absolute path of the directory the patterns are relative to
+ * @returns The rules, or an empty list if the file cannot be read
+ */
+async function readRulesFile(filePath: string, base: string): Promise<GitignoreRule[]> {
+    try {
+        return parseGitignore(await fs.readFile(filePath, 'utf-8'), base);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Convert a line of a `.gitignore` file to a pattern of the glob engine.
+ *
+ * Braces are literal in `.gitignore` files, while the glob engine expands them, so they are escaped. A trailing
+ * `/**` matches everything inside a directory but not the directory itself, so that a later negated rule can still
+ * re-include some of its files.
+ *
+ * @param line - The line, without trailing whitespace
+ * @returns The equivalent glob pattern
+ */
+function toGlobPattern(line: string): string {
+    const pattern = line.replace(/\\.|[{}]/g, match => match.length === 1 ? '\\' + match : match);
+    return pattern.endsWith('/**') ? pattern + '/*' : pattern;
+}
@@ -0,0 +1,403 @@
+/**
+ * Utilities for reading and validating `.gitingest` configuration files.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as toml from '@iarna/toml';
+
+import { GitingestConfigError, InvalidPatternError } from '../errors/exceptions';
+import { GitingestConfig, GitingestNotebookConfig, SUBTREE_CONFIG_KEYS } from '../types/gitingest_config_schema';
+import { OutputFormat } from '../types/ingestion_schema';
+import { validateGlob } from './glob_utils';
+import { normalizePattern } from './query_parser_utils';
+import { isKnownTokenizer, listTokenizers } from './tokenizer_utils';
+
+/** Name of the configuration file */
+export const GITINGEST_FILE_NAME = ".gitingest";
+
+/**
+ * Validator for the value of a setting.
+ *
+ * @param value - The value read from the TOML document
+ * @returns The validated value
+ * @throws Error describing the problem if the value is invalid
+ */
+type SettingValidator = (value: unknown) => unknown;
+
+/** Validators of the settings of the `[config]` table */
+const CONFIG_VALIDATORS: Record<keyof GitingestConfig, SettingValidator> = {
+    ignore_patterns: value => validatePatternList(value),
+    include_patterns: value => validatePatternList(value),
+    max_file_size: value => validatePositiveInteger(value),
+    max_depth: value => validatePositiveInteger(value),
+    max_files: value => validatePositiveInteger(value),
+    max_total_size: value => validatePositiveInteger(value),
+    output_format: value => {
+        const formats: string[] = Object.values(OutputFormat);
+        if (typeof value !== 'string' || !formats.includes(value)) {
+            throw new Error(`expected one of ${formats.map(format => `"${format}"`).join(', ')}`);
+        }
+        return value;
+    },
+    tokenizer: value => {
+        if (typeof value !== 'string' || !isKnownTokenizer(value)) {
+            throw new Error(`expected one of ${listTokenizers().map(name => `"${name}"`).join(', ')}`);
+        }
+        return value;
+    },
+    max_tokens: value => validatePositiveInteger(value),
+    header: value => validateString(value),
+    footer: value => validateString(value),
+    // Validated separately, since the errors point at the keys of the sub-table
+    notebook: value => value,
+};
+
+/** Validators of the settings of the `[config.notebook]` table */
+const NOTEBOOK_VALIDATORS: Record<keyof GitingestNotebookConfig, SettingValidator> = {
+    include_output: value => {
+        if (typeof value !== 'boolean') {
+            throw new Error(`expected a boolean, got ${describeValue(value)}`);
+        }
+        return value;
+    },
+};
+
+/**
+ * Read the `.gitingest` file of a directory.
+ *
+ * @param directory - The absolute path of the directory
+ * @param is_root - Whether the directory is the ingested directory, which may use every setting
+ * @param strict - Whether problems are errors. Otherwise they are reported as warnings, and the invalid settings, or
+ *                 the whole file if it cannot be read or parsed, are skipped
+ * @returns The validated configuration, or undefined if the directory has no `.gitingest` file
+ * @throws GitingestConfigError if the file is strict and cannot be read, is not valid TOML or has invalid settings
+ */
+export async function readGitingestConfig(
+    directory: string,
+    is_root: boolean,
+    strict: boolean = true
+): Promise<GitingestConfig | undefined> {
+    const file_path = path.join(directory, GITINGEST_FILE_NAME);
+
+    let content: string;
+    try {
+        content = await fs.readFile(file_path, 'utf-8');
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT' || code === 'ENOTDIR' || code === 'EISDIR') {
+            return undefined;
+        }
+        reportConfigError(new GitingestConfigError(file_path, `cannot be read: ${error}`), strict, 'file');
+        return undefined;
+    }
+
+    return parseGitingestConfig(content, file_path, is_root, strict);
+}
+
+/**
+ * Parse and validate the content of a `.gitingest` file.
+ *
+ * @param content - The content of the file
+ * @param file_path - The path of the file, used in error messages
+ * @param is_root - Whether the file belongs to the ingested directory, which may use every setting
+ * @param strict - Whether problems are errors. Otherwise they are reported as warnings, and the invalid settings, or
+ *                 the whole file if it is not valid TOML, are skipped
+ * @returns The validated configuration
+ * @throws GitingestConfigError if the file is strict and is not valid TOML or has unknown keys or invalid values
+ */
+export function parseGitingestConfig(
+    content: string,
+    file_path: string,
+    is_root: boolean,
+    strict: boolean = true
+): GitingestConfig {
+    let data: toml.JsonMap;
+    try {
+        data = toml.parse(content);
+    } catch (error) {
+        const toml_error = error as Error & { line?: number };
+        const reason = toml_error.message.split('\n')[0];
+        reportConfigError(new GitingestConfigError(
+            file_path,
+            `invalid TOML: ${reason}`,
+            toml_error.line === undefined ? undefined : toml_error.line + 1
+        ), strict, 'file');
+        return {};
+    }
+
+    for (const key of Object.keys(data)) {
+        if (key !== 'config') {
+            reportConfigError(new GitingestConfigError(
+                file_path,
+                `unknown key '${key}', settings belong in the [config] table`,
+                findKeyLine(content, [], key)
+            ), strict, 'setting');
+        }
+    }
+
+    const config_table = data.config;
+    if (config_table === undefined) {
+        return {};
+    }
+    if (!isTable(config_table)) {
+        reportConfigError(
+            new GitingestConfigError(file_path, "'config' must be a table", findKeyLine(content, [], 'config')),
+            strict,
+            'setting'
+        );
+        return {};
+    }
+
+    const config = validateTable(
+        content, file_path, ['config'], config_table, CONFIG_VALIDATORS, strict
+    ) as GitingestConfig;
+
+    if (!is_root) {
+        for (const key of Object.keys(config) as (keyof GitingestConfig)[]) {
+            if (!SUBTREE_CONFIG_KEYS.has(key)) {
+                reportConfigError(new GitingestConfigError(
+                    file_path,
+                    `'${key}' can only be set in the .gitingest file of the ingested directory, nested files ` +
+                    `support ${Array.from(SUBTREE_CONFIG_KEYS).join(', ')}`,
+                    findKeyLine(content, ['config'], key)
+                ), strict, 'setting');
+                delete config[key];
+            }
+        }
+    }
+
+    if (config.notebook !== undefined) {
+        if (isTable(config.notebook)) {
+            config.notebook = validateTable(
+                content, file_path, ['config', 'notebook'], config.notebook, NOTEBOOK_VALIDATORS, strict
+            ) as GitingestNotebookConfig;
+        } else {
+            reportConfigError(new GitingestConfigError(
+                file_path,
+                "'notebook' must be a table",
+                findKeyLine(content, ['config'], 'notebook')
+            ), strict, 'setting');
+            delete config.notebook;
+        }
+    }
+
+    return config;
+}
+
+/**
+ * Rewrite a pattern of a nested `.gitingest` file so that it is relative to the root of the ingestion.
+ *
+ * Anchored patterns are prefixed with the directory, and unanchored ones only match below it.
+ *
+ * @param pattern - The pattern, relative to the directory of the `.gitingest` file
+ * @param directory - The directory of the file relative to the root, with forward slashes, or '' for the root
+ * @returns The pattern, relative to the root
+ */
+export function scopePattern(pattern: string, directory: string): string {
+    if (!directory) {
+        return pattern;
+    }
+
+    const negated = pattern.startsWith('!');
+    const body = negated ? pattern.slice(1) : pattern;
+    const anchored = body.replace(/\/+$/, '').includes('/');
+    const prefix = directory.replace(/[\\*?[\]{}!]/g, '\\$&');
+    const scoped = anchored ? `${prefix}/${body.replace(/^\/+/, '')}` : `${prefix}/**/${body}`;
+
+    return (negated ? '!' : '') + scoped;
+}
+
+/**
+ * Validate the keys and values of a table.
+ *
+ * @param content - The content of the file, used to find the line of a key
+ * @param file_path - The path of the file, used in error messages
+ * @param table_path - The path of the table, e.g. ['config']
+ * @param table - The table read from the TOML document
+ * @param validators - The validators of the known keys
+ * @param strict - Whether problems are errors, or warnings skipping the invalid keys
+ * @returns The validated settings
+ * @throws GitingestConfigError if the table is strict and has unknown keys or invalid values
+ */
+function validateTable(
+    content: string,
+    file_path: string,
+    table_path: string[],
+    table: toml.JsonMap,
+    validators: Record<string, SettingValidator>,
+    strict: boolean
+): Record<string, unknown> {
+    const table_name = `[${table_path.join('.')}]`;
+    const settings: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(table)) {
+        if (!Object.hasOwn(validators, key)) {
+            reportConfigError(new GitingestConfigError(
+                file_path,
+                `unknown key '${key}' in ${table_name}, expected one of ${Object.keys(validators).join(', ')}`,
+                findKeyLine(content, table_path, key)
+            ), strict, 'setting');
+            continue;
+        }
+
+        try {
+            settings[key] = validators[key](value);
+        } catch (error) {
+            reportConfigError(new GitingestConfigError(
+                file_path,
+                `invalid value for '${key}' in ${table_name}: ${error instanceof Error ? error.message : error}`,
+                findKeyLine(content, table_path, key)
+            ), strict, 'setting');
+        }
+    }
+
+    return settings;
+}
+
+/**
+ * Throw an error of a strict configuration file, or report it as a warning.
+ *
+ * @param error - The error, pointing at the file and line
+ * @param strict - Whether the error is thrown
+ * @param skipped - What is skipped when the error is only reported: the whole file or the offending setting
+ * @throws GitingestConfigError if strict
+ */
+function reportConfigError(error: GitingestConfigError, strict: boolean, skipped: 'file' | 'setting'): void {
+    if (strict) {
+        throw error;
+    }
+    console.warn(`Skipping ${skipped === 'file' ? 'the file' : 'a setting'}: ${error.message}`);
+}
+
+/**
+ * Validate a pattern or list of patterns.
+ *
+ * @param value - The value read from the TOML document
+ * @returns The normalized patterns, in order
+ * @throws Error if the value is not a string or list of strings, or a pattern is invalid
+ */
+function validatePatternList(value: unknown): string[] {
+    // A single string is a list of one element
+    const patterns = Array.isArray(value) ? value : [value];
+
+    return patterns.map(pattern => {
+        if (typeof pattern !== 'string') {
+            throw new Error(`expected a string or a list of strings, got ${describeValue(pattern)}`);
+        }
+        const normalized = normalizePattern(pattern);
+        try {
+            validateGlob(normalized);
+        } catch (error) {
+            if (error instanceof InvalidPatternError) {
+                throw new Error(error.message);
+            }
+            throw error;
+        }
+        return normalized;
+    });
+}
+
+/**
+ * Validate a positive integer.
+ *
+ * @param value - The value read from the TOML document
+ * @returns The value
+ * @throws Error if the value is not a positive integer
+ */
+function validatePositiveInteger(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+        throw new Error(`expected a positive integer, got ${describeValue(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Validate a string.
+ *
+ * @param value - The value read from the TOML document
+ * @returns The value
+ * @throws Error if the value is not a string
+ */
+function validateString(value: unknown): string {
+    if (typeof value !== 'string') {
+        throw new Error(`expected a string, got ${describeValue(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Describe a TOML value for an error message.
+ *
+ * @param value - The value
+ * @returns A short description, e.g. 'the string "abc"' or 'a table'
+ */
+function describeValue(value: unknown): string {
+    if (Array.isArray(value)) {
+        return 'a list';
+    }
+    if (isTable(value)) {
+        return 'a table';
+    }
+    if (typeof value === 'string') {
+        return `the string ${JSON.stringify(value)}`;
+    }
+    return String(value);
+}
+
+/**
+ * Check whether a TOML value is a table.
+ *
+ * @param value - The value
+ * @returns True if the value is a table
+ */
+function isTable(value: unknown): value is toml.JsonMap {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Find the line on which a key is defined.
+ *
+ * This is a line-based scan of the document: it tracks the current `[table]` header and looks for `key =` in the
+ * requested table, or for a dotted `table.key =` in its parent. It is only used to point error messages at a line,
+ * so it does not need to understand every TOML construct.
+ *
+ * @param content - The content of the file
+ * @param table_path - The path of the table containing the key, e.g. ['config'], or [] for the top level
+ * @param key - The key to find
+ * @returns The 1-based line of the key, or of its table if the key is not found, or undefined
+ */
+function findKeyLine(content: string, table_path: string[], key: string): number | undefined {
+    const lines = content.split(/\r?\n/);
+    const wanted = [...table_path, key];
+    let current: string[] = [];
+    let table_line: number | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+
+        const header = /^\[\s*([^\]]+?)\s*\]/.exec(line);
+        if (header) {
+            current = header[1].split('.').map(part => part.trim().replace(/^["']|["']$/g, ''));
+            if (current.join('.') === wanted.join('.')) {
+                return i + 1;
+            }
+            if (current.join('.') === table_path.join('.')) {
+                table_line = i + 1;
+            }
+            continue;
+        }
+
+        const assignment = /^([^=]+?)\s*=/.exec(line);
+        if (!assignment) {
+            continue;
+        }
+        const dotted_key = assignment[1].split('.').map(part => part.trim().replace(/^["']|["']$/g, ''));
+        const full_key = [...current, ...dotted_key];
+        if (full_key.join('.') === wanted.join('.') || full_key.join('.').startsWith(wanted.join('.') + '.')) {
+            return i + 1;
+        }
+    }
+
+    return table_line;
+}
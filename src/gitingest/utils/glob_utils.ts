@@ -0,0 +1,400 @@
+/**
+ * A glob engine for the include and ignore patterns.
+ *
+ * Patterns follow the conventions of `.gitignore` files:
+ * - A pattern without a slash (other than a trailing one) matches a file or directory name at any depth,
+ *   e.g. `*.ts` matches `a.ts` and `src/a.ts`
+ * - A pattern with a leading or inner slash is anchored to the root, e.g. `/build` or `src/*.ts`
+ * - A trailing slash restricts the pattern to directories, e.g. `build/`
+ * - `*` matches any characters except `/`, `?` matches a single character except `/`
+ * - `**` as a whole path segment matches zero or more directories, e.g. `src/**\/*.ts`
+ * - `[abc]`, `[a-z]` and `[!abc]` match a character from (or not from) a class
+ * - `{a,b}` matches either alternative, braces can be nested
+ * - A backslash escapes the next character
+ * - A leading `!` negates the pattern: in an ordered list of rules, it reverses the decision of the earlier rules
+ *   for the paths it matches, e.g. `packages/` followed by `!packages/core/`
+ *
+ * Patterns always match whole path segments: `*.ts` does not match `a.tsx`, and `bin/` does not match `robin/`.
+ */
+
+import { InvalidPatternError } from '../errors/exceptions';
+
+/** Marker for a `**` path segment */
+const GLOBSTAR = "**";
+
+/**
+ * A compiled glob pattern.
+ */
+export interface GlobPattern {
+    /** The pattern as given */
+    pattern: string;
+    /** Whether the pattern is a negated rule (leading `!`). The other fields describe the pattern without the `!` */
+    negated: boolean;
+    /** Whether the pattern only matches directories (trailing slash) */
+    directory_only: boolean;
+    /** The brace-expanded alternatives, each a list of segment matchers */
+    alternatives: (RegExp | typeof GLOBSTAR)[][];
+}
+
+/** Compiled patterns, keyed by pattern */
+const GLOB_CACHE: Map<string, GlobPattern> = new Map();
+
+/**
+ * Compile a glob pattern.
+ *
+ * Compiled patterns are cached, so calling this repeatedly with the same pattern is cheap.
+ *
+ * @param pattern - The glob pattern
+ * @returns The compiled pattern
+ */
+export function compileGlob(pattern: string): GlobPattern {
+    const cached = GLOB_CACHE.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    const negated = pattern.startsWith('!');
+    const body = negated ? pattern.slice(1) : pattern;
+    const directory_only = body.endsWith('/');
+    const alternatives = expandBraces(body).map(alternative => {
+        const trimmed = alternative.replace(/\/+$/, '');
+        const anchored = trimmed.includes('/');
+        const segments = trimmed.split('/').filter(segment => segment.length > 0);
+
+        const matchers: (RegExp | typeof GLOBSTAR)[] = anchored ? [] : [GLOBSTAR];
+        for (const segment of segments) {
+            // Consecutive "**" segments are equivalent to a single one
+            if (segment === GLOBSTAR) {
+                if (matchers[matchers.length - 1] !== GLOBSTAR) {
+                    matchers.push(GLOBSTAR);
+                }
+            } else {
+                matchers.push(new RegExp(`^${segmentToRegExpSource(segment)}$`));
+            }
+        }
+        return matchers;
+    });
+
+    const glob = { pattern, negated, directory_only, alternatives };
+    GLOB_CACHE.set(pattern, glob);
+    return glob;
+}
+
+/**
+ * Validate the syntax of a glob pattern.
+ *
+ * Any printable character is allowed, including spaces, `@` and `#`. The pattern is rejected if it is empty, contains
+ * control characters or parent directory references (`..`), ends with a dangling backslash, or has an unclosed
+ * character class or unbalanced braces.
+ *
+ * @param pattern - The pattern to validate
+ * @throws InvalidPatternError pointing at the offending character if the pattern is invalid
+ */
+export function validateGlob(pattern: string): void {
+    const start = pattern.startsWith('!') ? 1 : 0;
+    if (pattern.trim().length === start) {
+        throw new InvalidPatternError(pattern, start ? 'negation without a pattern' : 'empty pattern');
+    }
+
+    const open_braces: number[] = [];
+    let segment_start = start;
+
+    for (let i = start; i <= pattern.length; i++) {
+        const char = pattern[i];
+
+        if (i === pattern.length || char === '/') {
+            if (pattern.slice(segment_start, i) === '..') {
+                throw new InvalidPatternError(
+                    pattern, 'parent directory references (..) are not supported', segment_start
+                );
+            }
+            segment_start = i + 1;
+            continue;
+        }
+
+        const code = pattern.charCodeAt(i);
+        if (code < 0x20 || code === 0x7f) {
+            throw new InvalidPatternError(pattern, 'control characters are not allowed', i);
+        }
+
+        if (char === '\\') {
+            if (i + 1 === pattern.length) {
+                throw new InvalidPatternError(pattern, 'dangling escape character', i);
+            }
+            i += 1;
+        } else if (char === '[') {
+            const end = findClassEnd(pattern, i);
+            if (end === -1) {
+                throw new InvalidPatternError(pattern, 'unclosed character class', i);
+            }
+            const slash = pattern.indexOf('/', i);
+            if (slash !== -1 && slash < end) {
+                throw new InvalidPatternError(pattern, 'character classes cannot contain a slash', slash);
+            }
+            i = end;
+        } else if (char === '{') {
+            open_braces.push(i);
+        } else if (char === '}') {
+            if (open_braces.length === 0) {
+                throw new InvalidPatternError(pattern, 'unmatched closing brace', i);
+            }
+            open_braces.pop();
+        }
+    }
+
+    if (open_braces.length > 0) {
+        throw new InvalidPatternError(pattern, 'unclosed brace', open_braces[open_braces.length - 1]);
+    }
+}
+
+/**
+ * Escape the characters of a path that have a special meaning in patterns, so that a pattern matches it literally.
+ *
+ * @param path_str - The path, with forward slashes
+ * @returns The path with `\`, `*`, `?`, `[`, `]`, `{`, `}`, `!` and whitespace escaped by a backslash
+ */
+export function escapeGlob(path_str: string): string {
+    return path_str.replace(/[\\*?[\]{}!\s]/g, '\\$&');
+}
+
+/**
+ * Append patterns to an ordered list of rules.
+ *
+ * A pattern that is already in the list is moved to the end, so that it keeps the precedence of its last occurrence.
+ *
+ * @param rules - The ordered list of rules, modified in place
+ * @param patterns - The patterns to append, in order
+ * @returns The list of rules
+ */
+export function appendPatterns(rules: Set<string>, patterns: Iterable<string>): Set<string> {
+    for (const pattern of patterns) {
+        rules.delete(pattern);
+        rules.add(pattern);
+    }
+    return rules;
+}
+
+/**
+ * Check whether a path matches a glob pattern.
+ *
+ * The negation mark of the pattern is ignored, it is up to the caller to interpret it.
+ *
+ * @param glob - The compiled pattern
+ * @param path_str - The path to check, relative to the root, with forward slashes
+ * @param is_directory - Whether the path is a directory
+ * @returns True if the whole path matches the pattern, otherwise False
+ */
+export function matchGlob(glob: GlobPattern, path_str: string, is_directory: boolean): boolean {
+    if (glob.directory_only && !is_directory) {
+        return false;
+    }
+    const segments = splitPath(path_str);
+    return glob.alternatives.some(matchers => matchSegments(segments, 0, matchers, 0));
+}
+
+/**
+ * Check whether a directory could contain a path matching a glob pattern.
+ *
+ * This is used for include patterns, so that traversal descends into `src` for a pattern like `src/**\/*.ts`, but
+ * skips `docs`.
+ *
+ * @param glob - The compiled pattern
+ * @param directory - The directory to check, relative to the root, with forward slashes
+ * @returns True if a path below the directory may match the pattern, otherwise False
+ */
+export function globCouldMatchInside(glob: GlobPattern, directory: string): boolean {
+    const segments = splitPath(directory);
+    return glob.alternatives.some(matchers => matchPrefix(segments, 0, matchers, 0));
+}
+
+/**
+ * Split a path into its segments, accepting both forward and backward slashes.
+ *
+ * @param path_str - The path to split
+ * @returns The non-empty segments of the path
+ */
+function splitPath(path_str: string): string[] {
+    return path_str.split(/[\\/]/).filter(segment => segment.length > 0);
+}
+
+/**
+ * Match path segments against segment matchers, both starting at the given positions.
+ *
+ * @param segments - The path segments
+ * @param i - The position in the path segments
+ * @param matchers - The segment matchers of the pattern
+ * @param j - The position in the segment matchers
+ * @returns True if all remaining segments match all remaining matchers
+ */
+function matchSegments(segments: string[], i: number, matchers: (RegExp | typeof GLOBSTAR)[], j: number): boolean {
+    if (j === matchers.length) {
+        return i === segments.length;
+    }
+
+    const matcher = matchers[j];
+    if (matcher === GLOBSTAR) {
+        // Match zero directories, or consume one and try again
+        return matchSegments(segments, i, matchers, j + 1) ||
+            (i < segments.length && matchSegments(segments, i + 1, matchers, j));
+    }
+
+    return i < segments.length && matcher.test(segments[i]) && matchSegments(segments, i + 1, matchers, j + 1);
+}
+
+/**
+ * Check whether path segments match a strict prefix of the segment matchers, so that a longer path could match.
+ *
+ * @param segments - The path segments
+ * @param i - The position in the path segments
+ * @param matchers - The segment matchers of the pattern
+ * @param j - The position in the segment matchers
+ * @returns True if all remaining segments are consumed while matchers remain
+ */
+function matchPrefix(segments: string[], i: number, matchers: (RegExp | typeof GLOBSTAR)[], j: number): boolean {
+    if (i === segments.length) {
+        return j < matchers.length;
+    }
+    if (j === matchers.length) {
+        return false;
+    }
+
+    const matcher = matchers[j];
+    if (matcher === GLOBSTAR) {
+        return matchPrefix(segments, i, matchers, j + 1) || matchPrefix(segments, i + 1, matchers, j);
+    }
+
+    return matcher.test(segments[i]) && matchPrefix(segments, i + 1, matchers, j + 1);
+}
+
+/**
+ * Expand the brace alternatives of a pattern, e.g. `src/{a,b}.ts` into `src/a.ts` and `src/b.ts`.
+ *
+ * Braces without a top-level comma, unbalanced braces and escaped braces are kept as they are.
+ *
+ * @param pattern - The pattern to expand
+ * @returns The expanded patterns
+ */
+function expandBraces(pattern: string): string[] {
+    for (let start = 0; start < pattern.length; start++) {
+        if (pattern[start] === '\\') {
+            start += 1;
+            continue;
+        }
+        if (pattern[start] !== '{') {
+            continue;
+        }
+
+        // Find the matching closing brace and the top-level commas
+        const commas: number[] = [];
+        let depth = 0;
+        let end = -1;
+        for (let i = start + 1; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '\\') {
+                i += 1;
+            } else if (char === '{') {
+                depth += 1;
+            } else if (char === '}') {
+                if (depth === 0) {
+                    end = i;
+                    break;
+                }
+                depth -= 1;
+            } else if (char === ',' && depth === 0) {
+                commas.push(i);
+            }
+        }
+
+        if (end === -1 || commas.length === 0) {
+            continue;
+        }
+
+        const prefix = pattern.slice(0, start);
+        const suffix = pattern.slice(end + 1);
+        const bounds = [start, ...commas, end];
+        const expanded: string[] = [];
+        for (let k = 0; k < bounds.length - 1; k++) {
+            const option = pattern.slice(bounds[k] + 1, bounds[k + 1]);
+            expanded.push(...expandBraces(prefix + option + suffix));
+        }
+        return expanded;
+    }
+
+    return [pattern];
+}
+
+/**
+ * Convert a single path segment of a pattern to the source of a regular expression.
+ *
+ * @param segment - The segment, which contains no slash
+ * @returns The source of the regular expression, without anchors
+ */
+function segmentToRegExpSource(segment: string): string {
+    let source = '';
+
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+
+        if (char === '\\' && i + 1 < segment.length) {
+            i += 1;
+            source += escapeRegExp(segment[i]);
+        } else if (char === '*') {
+            // A run of asterisks inside a segment behaves like a single one
+            while (segment[i + 1] === '*') {
+                i += 1;
+            }
+            source += '.*';
+        } else if (char === '?') {
+            source += '.';
+        } else if (char === '[') {
+            const end = findClassEnd(segment, i);
+            if (end === -1) {
+                source += '\\[';
+                continue;
+            }
+
+            let body = segment.slice(i + 1, end);
+            let negated = false;
+            if (body.startsWith('!') || body.startsWith('^')) {
+                negated = true;
+                body = body.slice(1);
+            }
+            source += '[' + (negated ? '^' : '') + body.replace(/[\\\]\[^]/g, '\\$&') + ']';
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+
+    return source;
+}
+
+/**
+ * Find the closing bracket of a character class.
+ *
+ * A `]` right after the opening bracket (or after the negation mark) is part of the class.
+ *
+ * @param segment - The pattern, or a segment of it
+ * @param start - The position of the opening bracket
+ * @returns The position of the closing bracket, or -1 if the class is not closed
+ */
+function findClassEnd(segment: string, start: number): number {
+    let i = start + 1;
+    if (segment[i] === '!' || segment[i] === '^') {
+        i += 1;
+    }
+    if (segment[i] === ']') {
+        i += 1;
+    }
+    return segment.indexOf(']', i);
+}
+
+/**
+ * Escape the characters of a string that have a special meaning in regular expressions.
+ *
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -5,6 +5,8 @@
 import * as path from 'path';
 import * as os from 'os';
 
+import { GlobPattern, compileGlob, globCouldMatchInside, matchGlob } from './glob_utils';
+
 /**
  * Get list of encodings to try, prioritized for the current platform.
  * 
@@ -25,17 +27,25 @@ export function getEncodingList(): string[] {
 }
 
 /**
- * Determine if the given file or directory path matches any of the include patterns.
+ * Determine if the given file or directory path matches the include patterns.
  * 
- * This function checks whether the relative path of a file or directory matches any of the specified patterns. If a
- * match is found, it returns `true`, indicating that the file or directory should be included in further processing.
+ * The patterns are an ordered list of rules: the last rule matching the path, or one of its parent directories,
+ * decides. A negated rule (`!pattern`) excludes what earlier rules included. If the first rule is negated, paths
+ * matching no rule are included. A directory is also included if it could contain a path matching a rule, so that
+ * traversal descends into `src` for a pattern like `src/**\/*.ts`.
  * 
  * @param filePath - The absolute path of the file or directory to check.
  * @param basePath - The base directory from which the relative path is calculated.
  * @param includePatterns - A set of patterns to check against the relative path.
+ * @param isDirectory - Whether the path is a directory.
  * @returns `true` if the path matches any of the include patterns, `false` otherwise.
  */
-export function shouldInclude(filePath: string, basePath: string, includePatterns: Set<string>): boolean {
+export function shouldInclude(
+    filePath: string,
+    basePath: string,
+    includePatterns: Set<string>,
+    isDirectory: boolean = false
+): boolean {
     try {
         // Calculate relative path
         const relativePath = path.relative(basePath, filePath);
@@ -45,24 +55,14 @@ export function shouldInclude(filePath: string, basePath: string, includePattern
             return false;
         }
 
-        let relStr = relativePath;
-
-        // Check if it's a directory and add trailing slash if needed
-        // Note: In Node.js, we'd typically use fs.statSync().isDirectory()
-        // For simplicity in this conversion, we're assuming a directory check is handled elsewhere
-        // or would be added with appropriate fs import
-        const isDirectory = false; // This would need proper implementation in a real app
-        if (isDirectory) {
-            relStr += "/";
-        }
-
-        for (const pattern of includePatterns) {
-            if (matchPattern(relStr, pattern)) {
-                return true;
-            }
+        const globs = Array.from(includePatterns).map(compileGlob);
+        const index = findLastMatchingRule(relativePath, isDirectory, globs);
+        const included = index === -1 ? globs.length > 0 && globs[0].negated : !globs[index].negated;
+        if (included) {
+            return true;
         }
 
-        return false;
+        return isDirectory && globs.some(glob => !glob.negated && globCouldMatchInside(glob, relativePath));
     } catch (error) {
         // Error in path calculation
         return false;
@@ -70,18 +70,25 @@ export function shouldInclude(filePath: string, basePath: string, includePattern
 }
 
 /**
- * Determine if the given file or directory path matches any of the ignore patterns.
+ * Determine if the given file or directory path matches the ignore patterns.
  * 
- * This function checks whether the relative path of a file or directory matches
- * any of the specified ignore patterns. If a match is found, it returns `true`, indicating
- * that the file or directory should be excluded from further processing.
+ * The patterns are an ordered list of rules, as in `.gitignore` files: the last rule matching the path, or one of its
+ * parent directories, decides. A negated rule (`!pattern`) re-includes what earlier rules excluded, and an excluded
+ * directory is still traversed if a later negated rule could match below it, so that `packages/` followed by
+ * `!packages/core/` keeps only `packages/core`.
  * 
  * @param filePath - The absolute path of the file or directory to check.
  * @param basePath - The base directory from which the relative path is calculated.
  * @param ignorePatterns - A set of patterns to check against the relative path.
+ * @param isDirectory - Whether the path is a directory.
  * @returns `true` if the path matches any of the ignore patterns, `false` otherwise.
  */
-export function shouldExclude(filePath: string, basePath: string, ignorePatterns: Set<string>): boolean {
+export function shouldExclude(
+    filePath: string,
+    basePath: string,
+    ignorePatterns: Set<string>,
+    isDirectory: boolean = false
+): boolean {
     try {
         // Calculate relative path
         const relativePath = path.relative(basePath, filePath);
@@ -92,13 +99,16 @@ export function shouldExclude(filePath: string, basePath: string, ignorePatterns
             return true;
         }
 
-        for (const pattern of ignorePatterns) {
-            if (pattern && matchPattern(relativePath, pattern)) {
-                return true;
-            }
+        const globs = Array.from(ignorePatterns).filter(pattern => pattern).map(compileGlob);
+        const index = findLastMatchingRule(relativePath, isDirectory, globs);
+        if (index === -1 || globs[index].negated) {
+            return false;
         }
 
-        return false;
+        // Keep traversing an excluded directory if a later negated rule may re-include something below it
+        const reincluded = isDirectory &&
+            globs.slice(index + 1).some(glob => glob.negated && globCouldMatchInside(glob, relativePath));
+        return !reincluded;
     } catch (error) {
         // Error in path calculation
         return true;
@@ -106,26 +116,60 @@ export function shouldExclude(filePath: string, basePath: string, ignorePatterns
 }
 
 /**
- * Simple pattern matching function to replace Python's fnmatch.
- * This is a basic implementation and would need to be expanded for
- * full fnmatch functionality.
+ * Determine if the given file or directory path is part of a selection of paths.
+ * 
+ * A path is selected if it is one of the selected paths or lies below one of them. A directory is also selected if
+ * it contains a selected path, so that traversal descends into `src` for a selected `src/app/main.ts`.
  * 
- * @param string - The string to check against the pattern
- * @param pattern - The pattern to match
- * @returns Whether the string matches the pattern
+ * @param filePath - The absolute path of the file or directory to check.
+ * @param basePath - The base directory from which the relative path is calculated.
+ * @param selectedPaths - The selected paths, relative to the base directory with forward slashes.
+ * @param isDirectory - Whether the path is a directory.
+ * @returns `true` if the path is selected, `false` otherwise.
  */
-function matchPattern(string: string, pattern: string): boolean {
-    // Normalize path separators to forward slashes
-    const normalizedString = string.replace(/[\\/]/g, '/');
-    const normalizedPattern = pattern.replace(/[\\/]/g, '/');
-
-    // Convert fnmatch pattern to JavaScript RegExp
-    const regExpPattern = normalizedPattern
-        .replace(/\./g, '\\.')    // Escape dots
-        .replace(/\*/g, '.*')     // Convert * to .*
-        .replace(/\?/g, '.');     // Convert ? to .
-
-    // Match pattern anywhere in the path
-    const regExp = new RegExp(regExpPattern);
-    return regExp.test(normalizedString);
-}
\ No newline at end of file
+export function isSelected(
+    filePath: string,
+    basePath: string,
+    selectedPaths: string[],
+    isDirectory: boolean = false
+): boolean {
+    const relativePath = path.relative(basePath, filePath);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return false;
+    }
+
+    const segments = relativePath.split(/[\\/]/).filter(segment => segment.length > 0);
+    return selectedPaths.some(selected => {
+        const selected_segments = selected.split('/').filter(segment => segment.length > 0);
+        const common = Math.min(segments.length, selected_segments.length);
+        if (segments.slice(0, common).join('/') !== selected_segments.slice(0, common).join('/')) {
+            return false;
+        }
+        // Either the path is at or below the selected path, or it is a directory containing it
+        return segments.length >= selected_segments.length || isDirectory;
+    });
+}
+
+/**
+ * Find the last of the given rules matching a relative path or one of its parent directories.
+ * 
+ * @param relativePath - The path to check, relative to the base directory
+ * @param isDirectory - Whether the path is a directory
+ * @param globs - The compiled rules, in order
+ * @returns The index of the last matching rule, or -1 if no rule matches
+ */
+function findLastMatchingRule(relativePath: string, isDirectory: boolean, globs: GlobPattern[]): number {
+    const segments = relativePath.split(/[\\/]/).filter(segment => segment.length > 0);
+    const prefixes = segments.map((_, i) => ({
+        path_str: segments.slice(0, i + 1).join('/'),
+        is_directory: i < segments.length - 1 || isDirectory,
+    }));
+
+    for (let index = globs.length - 1; index >= 0; index--) {
+        if (prefixes.some(prefix => matchGlob(globs[index], prefix.path_str, prefix.is_directory))) {
+            return index;
+        }
+    }
+
+    return -1;
+}
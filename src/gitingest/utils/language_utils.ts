@@ -0,0 +1,153 @@
+/**
+ * Utility functions for mapping files to the language tags used in Markdown code blocks.
+ */
+
+import * as path from 'path';
+
+/** Language tags for well-known file names that have no meaningful extension */
+const LANGUAGE_BY_FILE_NAME: Record<string, string> = {
+    "dockerfile": "dockerfile",
+    "containerfile": "dockerfile",
+    "makefile": "makefile",
+    "gnumakefile": "makefile",
+    "cmakelists.txt": "cmake",
+    "gemfile": "ruby",
+    "rakefile": "ruby",
+    "podfile": "ruby",
+    "vagrantfile": "ruby",
+    "jenkinsfile": "groovy",
+    "justfile": "makefile",
+    ".gitingest": "toml",
+    ".bashrc": "bash",
+    ".zshrc": "zsh",
+    ".profile": "sh",
+    ".editorconfig": "ini",
+    ".npmrc": "ini",
+    ".env": "dotenv",
+};
+
+/** Language tags keyed by lowercase file extension (without the leading dot) */
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    // JavaScript / TypeScript
+    "js": "javascript",
+    "cjs": "javascript",
+    "mjs": "javascript",
+    "jsx": "jsx",
+    "ts": "typescript",
+    "cts": "typescript",
+    "mts": "typescript",
+    "tsx": "tsx",
+    "vue": "vue",
+    "svelte": "svelte",
+    // Web
+    "html": "html",
+    "htm": "html",
+    "css": "css",
+    "scss": "scss",
+    "sass": "sass",
+    "less": "less",
+    // Data and configuration
+    "json": "json",
+    "jsonc": "jsonc",
+    "json5": "json5",
+    "yaml": "yaml",
+    "yml": "yaml",
+    "toml": "toml",
+    "ini": "ini",
+    "cfg": "ini",
+    "conf": "ini",
+    "xml": "xml",
+    "csv": "csv",
+    "graphql": "graphql",
+    "gql": "graphql",
+    "proto": "protobuf",
+    "sql": "sql",
+    "tf": "hcl",
+    "hcl": "hcl",
+    // Documentation
+    "md": "markdown",
+    "markdown": "markdown",
+    "mdx": "mdx",
+    "rst": "rst",
+    "tex": "latex",
+    "txt": "text",
+    // Python
+    "py": "python",
+    "pyi": "python",
+    "pyx": "cython",
+    "ipynb": "python",
+    // JVM
+    "java": "java",
+    "kt": "kotlin",
+    "kts": "kotlin",
+    "scala": "scala",
+    "groovy": "groovy",
+    "gradle": "groovy",
+    "clj": "clojure",
+    // C family
+    "c": "c",
+    "h": "c",
+    "cc": "cpp",
+    "cpp": "cpp",
+    "cxx": "cpp",
+    "hh": "cpp",
+    "hpp": "cpp",
+    "hxx": "cpp",
+    "m": "objectivec",
+    "mm": "objectivec",
+    "cs": "csharp",
+    "fs": "fsharp",
+    "vb": "vbnet",
+    // Systems and others
+    "go": "go",
+    "rs": "rust",
+    "swift": "swift",
+    "zig": "zig",
+    "nim": "nim",
+    "d": "d",
+    "rb": "ruby",
+    "php": "php",
+    "pl": "perl",
+    "pm": "perl",
+    "lua": "lua",
+    "r": "r",
+    "jl": "julia",
+    "dart": "dart",
+    "ex": "elixir",
+    "exs": "elixir",
+    "erl": "erlang",
+    "hs": "haskell",
+    "ml": "ocaml",
+    "elm": "elm",
+    "sol": "solidity",
+    // Shell
+    "sh": "bash",
+    "bash": "bash",
+    "zsh": "zsh",
+    "fish": "fish",
+    "ps1": "powershell",
+    "psm1": "powershell",
+    "bat": "batch",
+    "cmd": "batch",
+    // Build
+    "cmake": "cmake",
+    "mk": "makefile",
+    "dockerfile": "dockerfile",
+};
+
+/**
+ * Return the Markdown code block language tag for the given file name.
+ *
+ * @param fileName - The name (or path) of the file
+ * @returns The language tag, or an empty string if the language is unknown
+ */
+export function getLanguageForFile(fileName: string): string {
+    const baseName = path.basename(fileName).toLowerCase();
+
+    if (Object.hasOwn(LANGUAGE_BY_FILE_NAME, baseName)) {
+        return LANGUAGE_BY_FILE_NAME[baseName];
+    }
+
+    const ext = path.extname(baseName).replace(/^\./, '');
+    return Object.hasOwn(LANGUAGE_BY_EXTENSION, ext) ? LANGUAGE_BY_EXTENSION[ext] : '';
+}
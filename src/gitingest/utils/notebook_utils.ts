@@ -24,8 +24,20 @@ export class InvalidNotebookError extends Error {
  * @throws InvalidNotebookError If the notebook file is invalid or cannot be processed.
  */
 export function processNotebook(filePath: string, includeOutput: boolean = true): string {
+    return processNotebookContent(fs.readFileSync(filePath, 'utf-8'), filePath, includeOutput);
+}
+
+/**
+ * Convert the content of a Jupyter notebook, already read from its file, to an executable Python script.
+ *
+ * @param fileContent - The JSON content of the notebook.
+ * @param filePath - The path to the notebook file, used in error messages.
+ * @param includeOutput - Whether to include cell outputs in the generated script, by default true.
+ * @returns The executable Python script as a string.
+ * @throws InvalidNotebookError If the notebook is invalid or cannot be processed.
+ */
+export function processNotebookContent(fileContent: string, filePath: string, includeOutput: boolean = true): string {
     try {
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
         const notebook: Record<string, any> = JSON.parse(fileContent);
 
         // Check if the notebook contains worksheets
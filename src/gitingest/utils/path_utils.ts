@@ -6,6 +6,88 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
+import { IngestionQuery, OutputPath } from '../types/ingestion_schema';
+
+/**
+ * Return the path of one part of an output file split into chunks.
+ * 
+ * The 3-digit part number is inserted before the extension, e.g. 'digest.txt' becomes 'digest.part-001.txt'.
+ * 
+ * @param output_path - The path of the output file
+ * @param part - The 1-based number of the part
+ * @returns The path of the part
+ */
+export function getChunkFilePath(output_path: string, part: number): string {
+    const { dir, name, ext } = path.parse(output_path);
+    return path.join(dir, `${name}.part-${String(part).padStart(3, '0')}${ext}`);
+}
+
+/**
+ * Remove the parts of an output file split into chunks, left over from a previous run.
+ * 
+ * Every part next to the output file is removed whatever its extension, so that a run writing fewer parts, or in
+ * another format, does not leave the parts of the previous one behind.
+ * 
+ * @param output_path - The path of the output file
+ */
+export async function removeChunkFiles(output_path: string): Promise<void> {
+    const { dir, name } = path.parse(output_path);
+    const prefix = `${name}.part-`;
+
+    let entries: string[];
+    try {
+        entries = await fs.promises.readdir(dir || '.');
+    } catch {
+        // A missing directory has no parts
+        return;
+    }
+
+    const parts = entries.filter(entry => entry.startsWith(prefix) && /^\d{3,}(\.|$)/.test(entry.slice(prefix.length)));
+    await Promise.all(parts.map(part => fs.promises.rm(path.join(dir, part), { force: true })));
+}
+
+/**
+ * Resolve the path of an output file for a query.
+ * 
+ * @param output - The path, or the function choosing it from the query
+ * @param query - The query, with its root `.gitingest` file applied
+ * @returns The path of the output file
+ */
+export function resolveOutputPath(output: OutputPath, query: IngestionQuery): string {
+    return typeof output === 'string' ? output : output(query);
+}
+
+/**
+ * Return the path of the temporary file an output file is written to before being renamed into place.
+ * 
+ * @param output_path - The path of the output file
+ * @returns The path of the temporary file, next to the output file
+ */
+export function getTempOutputPath(output_path: string): string {
+    return `${output_path}.tmp`;
+}
+
+/**
+ * Expand the `${name}` placeholders of an output path template.
+ * 
+ * The values are made safe for file names: path separators and characters that are invalid on Windows are replaced
+ * with dashes, so that a value cannot add directories to the path.
+ * 
+ * @param template - The output path template, e.g. 'digests/${repo}-${date}.txt'
+ * @param values - The values of the placeholders, keyed by name
+ * @returns The path with every placeholder replaced
+ * @throws Error if the template uses an unknown placeholder
+ */
+export function expandOutputPath(template: string, values: Record<string, string>): string {
+    return template.replace(/\$\{([^}]*)\}/g, (placeholder, name: string) => {
+        if (!Object.hasOwn(values, name)) {
+            const known = Object.keys(values).map(key => `\${${key}}`).join(', ');
+            throw new Error(`Unknown placeholder ${placeholder} in output path '${template}', expected one of ${known}`);
+        }
+        return values[name].replace(/[<>:"/\\|?*\x00-\x1f]/g, '-');
+    });
+}
+
 /**
  * Check if a symlink points to a location within the base directory.
  * 
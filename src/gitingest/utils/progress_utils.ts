@@ -0,0 +1,52 @@
+/**
+ * Utilities for the progress reporting and cancellation of ingestions.
+ */
+
+import { IngestionCancelledError } from '../errors/exceptions';
+import { IngestionProgress, IngestionStage } from '../types/ingestion_schema';
+
+/**
+ * Throw if the operation has been cancelled.
+ *
+ * @param signal - The signal of the operation, if any
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new IngestionCancelledError();
+    }
+}
+
+/**
+ * Parse the progress lines written by `git clone --progress` to its standard error.
+ *
+ * Git rewrites its current line with carriage returns, so a chunk of output may hold several updates of one step.
+ *
+ * @param output - A chunk of the standard error of git
+ * @returns The progress reports of the chunk, in order, e.g. 'Receiving objects: 45%'
+ */
+export function parseGitProgress(output: string): IngestionProgress[] {
+    const reports: IngestionProgress[] = [];
+
+    for (const line of output.split(/[\r\n]+/)) {
+        const match = /^(?:remote: )?([A-Za-z][A-Za-z ]*):\s+(\d{1,3})%/.exec(line.trim());
+        if (match) {
+            const percent = parseInt(match[2], 10);
+            reports.push({ stage: IngestionStage.CLONING, message: `${match[1]}: ${percent}%`, percent });
+        }
+    }
+
+    return reports;
+}
+
+/**
+ * Describe a progress report in one line, for a notification or a terminal.
+ *
+ * @param progress - The progress report
+ * @returns The description, e.g. 'Scanning (120 files): src/index.ts'
+ */
+export function describeProgress(progress: IngestionProgress): string {
+    const stage = progress.stage.charAt(0).toUpperCase() + progress.stage.slice(1);
+    const files = progress.files === undefined ? '' : ` (${progress.files} files)`;
+    return `${stage}${files}: ${progress.message}`;
+}
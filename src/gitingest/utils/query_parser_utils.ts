@@ -2,8 +2,7 @@
  * Utility functions for parsing and validating repository queries.
  */
 
-/** Known Git hosting services */
-export const KNOWN_GIT_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org'];
+import { validateGlob } from './glob_utils';
 
 /** Valid URL schemes */
 const VALID_SCHEMES = ['http', 'https'];
@@ -20,18 +19,6 @@ export function validateUrlScheme(scheme: string): void {
     }
 }
 
-/**
- * Validate that a host is a known Git hosting service.
- * 
- * @param host - The host to validate
- * @throws Error if the host is not a known Git hosting service
- */
-export function validateHost(host: string): void {
-    if (!KNOWN_GIT_HOSTS.includes(host.toLowerCase())) {
-        throw new Error(`Unsupported Git host: ${host}. Must be one of: ${KNOWN_GIT_HOSTS.join(', ')}`);
-    }
-}
-
 /**
  * Extract user and repository names from a URL path.
  * 
@@ -46,7 +33,17 @@ export function getUserAndRepoFromPath(path: string): [string, string] {
         throw new Error('Invalid repository path. Must be in format: user/repo');
     }
 
-    return [parts[0], parts[1]];
+    return [parts[0], removeGitSuffix(parts[1])];
+}
+
+/**
+ * Remove the `.git` suffix of a repository name, as in `repo.git`.
+ * 
+ * @param name - The repository name
+ * @returns The name without its suffix
+ */
+export function removeGitSuffix(name: string): string {
+    return name.replace(/\.git$/i, '');
 }
 
 /**
@@ -60,23 +57,31 @@ export function isValidGitCommitHash(hash: string): boolean {
 }
 
 /**
- * Validate a pattern string for allowed characters.
+ * Check whether a pattern is a valid glob.
+ * 
+ * Use `validateGlob` from `glob_utils` to get an error pointing at the offending character.
  * 
  * @param pattern - The pattern to validate
  * @returns true if the pattern is valid
  */
 export function isValidPattern(pattern: string): boolean {
-    // Only allow alphanumeric characters, dash (-), underscore (_), dot (.), forward slash (/), plus (+), and asterisk (*)
-    return /^[a-zA-Z0-9\-_./+*]+$/.test(pattern);
+    try {
+        validateGlob(pattern);
+        return true;
+    } catch {
+        return false;
+    }
 }
 
 /**
- * Normalize a pattern string by removing extra spaces and slashes.
+ * Normalize a pattern string by removing extra spaces and repeated slashes.
+ * 
+ * Leading and trailing slashes are kept, since they are meaningful to the glob engine: a leading slash anchors the
+ * pattern to the root and a trailing slash restricts it to directories.
  * 
  * @param pattern - The pattern to normalize
  * @returns The normalized pattern
  */
 export function normalizePattern(pattern: string): string {
-    // Remove leading/trailing whitespace and slashes
-    return pattern.trim().replace(/^\/+|\/+$/g, '');
+    return pattern.trim().replace(/\/{2,}/g, '/');
 }
@@ -0,0 +1,92 @@
+/**
+ * Utilities for describing a selection of files of an ingested tree as paths and patterns.
+ */
+
+import { FileSystemNode, FileSystemNodeType } from '../types/filesystem_schema';
+import { escapeGlob } from './glob_utils';
+
+/**
+ * A selection of files of a tree, described as compactly as possible.
+ */
+export interface SelectionSummary {
+    /**
+     * Selected files and fully selected directories, relative to the root with forward slashes, for
+     * `IngestionQuery.selected_paths`. A single empty path means that everything is selected
+     */
+    selected_paths: string[];
+    /** Anchored include patterns matching exactly the selected files */
+    include_patterns: string[];
+    /** Anchored ignore patterns matching exactly the files left out */
+    ignore_patterns: string[];
+}
+
+/** How much of a node is selected */
+type SelectionState = 'all' | 'none' | 'some';
+
+/**
+ * Describe the checked files of a tree with as few paths and patterns as possible.
+ * 
+ * A directory whose files are all checked (or all unchecked) is described by a single path or pattern instead of its
+ * files. Directories without files are ignored.
+ * 
+ * @param root - The root directory node of the tree
+ * @param checked - The checked files, relative to the root with forward slashes
+ * @returns The selected paths, and the include and ignore patterns equivalent to the selection
+ */
+export function summarizeSelection(root: FileSystemNode, checked: Set<string>): SelectionSummary {
+    const states = new Map<FileSystemNode, SelectionState>();
+    const summary: SelectionSummary = { selected_paths: [], include_patterns: [], ignore_patterns: [] };
+
+    const computeState = (node: FileSystemNode, relative_path: string): SelectionState => {
+        let state: SelectionState;
+        if (node.type === FileSystemNodeType.FILE) {
+            state = checked.has(relative_path) ? 'all' : 'none';
+        } else {
+            const child_states = node.children
+                .filter(child => child.file_count > 0)
+                .map(child => computeState(child, joinPath(relative_path, child.name)));
+            if (child_states.length === 0 || child_states.every(child_state => child_state === 'none')) {
+                state = 'none';
+            } else {
+                state = child_states.every(child_state => child_state === 'all') ? 'all' : 'some';
+            }
+        }
+        states.set(node, state);
+        return state;
+    };
+
+    const describe = (node: FileSystemNode, relative_path: string): void => {
+        const state = states.get(node);
+        const pattern = '/' + escapeGlob(relative_path) + (node.type === FileSystemNodeType.DIRECTORY ? '/' : '');
+        if (state === 'all') {
+            summary.selected_paths.push(relative_path);
+            summary.include_patterns.push(pattern);
+        } else if (state === 'none') {
+            summary.ignore_patterns.push(pattern);
+        } else {
+            for (const child of node.children.filter(child => child.file_count > 0)) {
+                describe(child, joinPath(relative_path, child.name));
+            }
+        }
+    };
+
+    const root_state = computeState(root, '');
+    if (root_state === 'all') {
+        summary.selected_paths.push('');
+    } else if (root_state === 'some') {
+        describe(root, '');
+    }
+
+    return summary;
+}
+
+/**
+ * Join a relative path and a name with a forward slash.
+ * 
+ * @param relative_path - The relative path of the parent, '' for the root
+ * @param name - The name of the child
+ * @returns The relative path of the child
+ */
+function joinPath(relative_path: string, name: string): string {
+    return relative_path ? `${relative_path}/${name}` : name;
+}
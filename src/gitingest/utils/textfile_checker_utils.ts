@@ -3,56 +3,46 @@
  */
 
 import * as fs from 'fs';
-import { getEncodingList } from './ingestion_utils';
+
+/** Number of bytes at the start of a file inspected to tell text from binary content */
+const SAMPLE_SIZE = 1024;
 
 /**
  * Determine whether a file is likely a text file or a binary file using various heuristics.
  * 
+ * Only the first bytes of the file are read.
+ * 
  * @param filePath - The path to the file to check
  * @returns True if the file is likely textual; False if it appears to be binary
  */
 export function isTextFile(filePath: string): boolean {
     try {
-        // Attempt to read a small portion (up to 1024 bytes) of the file in binary mode
-        const buffer = Buffer.alloc(1024);
+        // Attempt to read a small portion of the file in binary mode
+        const buffer = Buffer.alloc(SAMPLE_SIZE);
         const fd = fs.openSync(filePath, 'r');
-        const bytesRead = fs.readSync(fd, buffer, 0, 1024, 0);
-        fs.closeSync(fd);
-
-        const chunk = buffer.slice(0, bytesRead);
-
-        // If the file is empty, we treat it as text
-        if (chunk.length === 0) {
-            return true;
-        }
-
-        // Look for obvious binary indicators such as null (0x00) or 0xFF bytes
-        if (chunk.includes(0x00) || chunk.includes(0xFF)) {
-            return false;
-        }
-
-        // Try to decode the file using different encodings
-        const encodings = getEncodingList();
-
-        for (const encoding of encodings) {
-            try {
-                // In Node.js, we can use fs.readFileSync with an encoding to check if it's valid text
-                fs.readFileSync(filePath, { encoding: encoding as BufferEncoding });
-                return true;
-            } catch (error) {
-                if (error instanceof Error && error.message.includes('encoding')) {
-                    // This is a decoding error, continue to the next encoding
-                    continue;
-                } else {
-                    // This is some other file access error
-                    return false;
-                }
-            }
+        try {
+            const bytesRead = fs.readSync(fd, buffer, 0, SAMPLE_SIZE, 0);
+            return isTextBuffer(buffer.subarray(0, bytesRead));
+        } finally {
+            fs.closeSync(fd);
         }
-
-        return false;
     } catch (error) {
         // If we cannot read the file for any reason, treat it as non-textual
         return false;
     }
+}
+
+/**
+ * Determine whether the content of a file, already read into memory, is likely text.
+ * 
+ * Only the first bytes are inspected, so the whole file can be checked and decoded from a single read.
+ * 
+ * @param buffer - The content of the file, or its first bytes
+ * @returns True if the content is likely textual; False if it appears to be binary
+ */
+export function isTextBuffer(buffer: Buffer): boolean {
+    const chunk = buffer.subarray(0, SAMPLE_SIZE);
+
+    // Look for obvious binary indicators such as null (0x00) or 0xFF bytes. An empty file is text
+    return !chunk.includes(0x00) && !chunk.includes(0xFF);
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+/**
+ * Utilities for fitting the file contents of a digest under a token budget.
+ */
+
+import { FileSystemNode, FileSystemNodeType } from '../types/filesystem_schema';
+import { Tokenizer } from './tokenizer_utils';
+
+/** Smallest leftover budget (in tokens) worth filling with a truncated file */
+export const MIN_TRUNCATED_TOKENS = 128;
+
+/**
+ * How a file ended up in a budgeted digest.
+ */
+export enum FileBudgetStatus {
+    INCLUDED = "INCLUDED",
+    TRUNCATED = "TRUNCATED",
+    OMITTED = "OMITTED"
+}
+
+/**
+ * Budgeting decision for a single file.
+ */
+export interface FileBudgetEntry {
+    /** Whether the file is included, truncated or omitted */
+    status: FileBudgetStatus;
+    /** The (possibly truncated) content to emit, empty for omitted files */
+    content: string;
+    /** Token count of the emitted file block, 0 for omitted files */
+    tokens: number;
+    /** Token count of the file block with the complete content */
+    full_tokens: number;
+}
+
+/**
+ * Result of fitting a set of files under a token budget.
+ */
+export interface TokenBudgetPlan {
+    /** The budget available for the file blocks */
+    budget: number;
+    /** Total tokens of the emitted file blocks */
+    used_tokens: number;
+    /** Decision for each file */
+    entries: Map<FileSystemNode, FileBudgetEntry>;
+    /** Files that were left out, in tree order */
+    omitted: FileSystemNode[];
+    /** Files that were cut at a line boundary, in tree order */
+    truncated: FileSystemNode[];
+}
+
+/**
+ * Collect all file nodes under the given node, in tree order.
+ *
+ * Since `sortChildren` has already been applied during traversal, the tree order is the priority order used for the
+ * digest: README first, then regular files, hidden files and directories.
+ *
+ * @param node - The root node
+ * @returns The file nodes, in tree order
+ */
+export function collectFiles(node: FileSystemNode): FileSystemNode[] {
+    if (node.type === FileSystemNodeType.FILE) {
+        return [node];
+    }
+    return node.children.flatMap(child => collectFiles(child));
+}
+
+/**
+ * Decide which files to include, truncate or omit so the file blocks fit within the budget.
+ *
+ * Files are ranked by value: README files first, then shallower files before deeper ones, then smaller files before
+ * larger ones, and finally tree order. Whole files are taken greedily in that order while they fit. The leftover
+ * budget is then spent on the highest-ranked file that did not fit, cut at a line boundary.
+ *
+ * @param files - The file nodes, in tree order
+ * @param budget - The number of tokens available for the file blocks
+ * @param tokenizer - The tokenizer used to count tokens
+ * @param formatBlock - A function formatting the block emitted for a file with the given content
+ * @returns The budgeting plan
+ */
+export function planTokenBudget(
+    files: FileSystemNode[],
+    budget: number,
+    tokenizer: Tokenizer,
+    formatBlock: (node: FileSystemNode, content: string) => string
+): TokenBudgetPlan {
+    const contents = new Map<FileSystemNode, string>();
+    const tokens = new Map<FileSystemNode, number>();
+    for (const file of files) {
+        const content = file.content;
+        contents.set(file, content);
+        tokens.set(file, tokenizer.countTokens(formatBlock(file, content)));
+    }
+
+    const ranked = rankFiles(files, file => tokens.get(file)!);
+
+    const entries = new Map<FileSystemNode, FileBudgetEntry>();
+    let remaining = budget;
+    const skipped: FileSystemNode[] = [];
+
+    for (const file of ranked) {
+        const file_tokens = tokens.get(file)!;
+        if (file_tokens <= remaining) {
+            entries.set(file, {
+                status: FileBudgetStatus.INCLUDED,
+                content: contents.get(file)!,
+                tokens: file_tokens,
+                full_tokens: file_tokens,
+            });
+            remaining -= file_tokens;
+        } else {
+            skipped.push(file);
+        }
+    }
+
+    if (skipped.length > 0 && remaining >= MIN_TRUNCATED_TOKENS) {
+        const file = skipped.shift()!;
+        const truncated = truncateToFit(file, contents.get(file)!, tokens.get(file)!, remaining, tokenizer, formatBlock);
+        if (truncated) {
+            entries.set(file, truncated);
+            remaining -= truncated.tokens;
+        } else {
+            skipped.unshift(file);
+        }
+    }
+
+    for (const file of skipped) {
+        entries.set(file, { status: FileBudgetStatus.OMITTED, content: "", tokens: 0, full_tokens: tokens.get(file)! });
+    }
+
+    return {
+        budget,
+        used_tokens: budget - remaining,
+        entries,
+        omitted: files.filter(file => entries.get(file)!.status === FileBudgetStatus.OMITTED),
+        truncated: files.filter(file => entries.get(file)!.status === FileBudgetStatus.TRUNCATED),
+    };
+}
+
+/**
+ * Omit the least valuable file that is still included or truncated in a budgeting plan.
+ *
+ * Files are ranked as in `planTokenBudget`. This is the last resort when the digest still exceeds the budget after
+ * planning, since the markers and separators around the file blocks are only estimated.
+ *
+ * @param plan - The budgeting plan, modified in place
+ * @param files - The file nodes of the plan, in tree order
+ * @returns True if a file was omitted, False if every file already was
+ */
+export function omitLowestRanked(plan: TokenBudgetPlan, files: FileSystemNode[]): boolean {
+    const remaining = files.filter(file => plan.entries.get(file)!.status !== FileBudgetStatus.OMITTED);
+    if (remaining.length === 0) {
+        return false;
+    }
+
+    const file = rankFiles(remaining, file => plan.entries.get(file)!.full_tokens).pop()!;
+    const entry = plan.entries.get(file)!;
+    plan.used_tokens -= entry.tokens;
+    plan.entries.set(file, { status: FileBudgetStatus.OMITTED, content: "", tokens: 0, full_tokens: entry.full_tokens });
+    plan.omitted = files.filter(file => plan.entries.get(file)!.status === FileBudgetStatus.OMITTED);
+    plan.truncated = plan.truncated.filter(truncated => truncated !== file);
+
+    return true;
+}
+
+/**
+ * Sort files from the most to the least valuable.
+ *
+ * @param files - The file nodes, in tree order
+ * @param getTokens - A function returning the token count of the complete block of a file
+ * @returns The files, ranked
+ */
+function rankFiles(files: FileSystemNode[], getTokens: (file: FileSystemNode) => number): FileSystemNode[] {
+    return files
+        .map((file, index) => ({ file, key: rankKey(file, getTokens(file), index) }))
+        .sort((a, b) => {
+            for (let i = 0; i < a.key.length; i++) {
+                if (a.key[i] !== b.key[i]) {
+                    return a.key[i] - b.key[i];
+                }
+            }
+            return 0;
+        })
+        .map(({ file }) => file);
+}
+
+/**
+ * Return the ranking key of a file, lower keys are more valuable.
+ *
+ * @param file - The file node
+ * @param file_tokens - The token count of the file block
+ * @param index - The position of the file in tree order
+ * @returns The ranking key
+ */
+function rankKey(file: FileSystemNode, file_tokens: number, index: number): number[] {
+    const is_readme = file.name.toLowerCase().startsWith("readme");
+    return [is_readme ? 0 : 1, file.depth, file_tokens, index];
+}
+
+/**
+ * Cut a file at a line boundary so that its block fits within the given number of tokens.
+ *
+ * @param file - The file node
+ * @param content - The full content of the file
+ * @param full_tokens - The token count of the block with the full content
+ * @param available - The number of tokens available for the block
+ * @param tokenizer - The tokenizer used to count tokens
+ * @param formatBlock - A function formatting the block emitted for a file with the given content
+ * @returns The budgeting entry for the truncated file, or undefined if not even one line fits
+ */
+function truncateToFit(
+    file: FileSystemNode,
+    content: string,
+    full_tokens: number,
+    available: number,
+    tokenizer: Tokenizer,
+    formatBlock: (node: FileSystemNode, content: string) => string
+): FileBudgetEntry | undefined {
+    const lines = content.split('\n');
+    const build = (count: number) =>
+        lines.slice(0, count).join('\n') +
+        `\n\n[... truncated to fit the token budget: ${count} of ${lines.length} lines shown ...]`;
+
+    // Binary search for the largest number of lines that still fits
+    let low = 0;
+    let high = lines.length - 1;
+    let best: FileBudgetEntry | undefined;
+
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        const candidate = build(mid);
+        const candidate_tokens = tokenizer.countTokens(formatBlock(file, candidate));
+
+        if (candidate_tokens <= available) {
+            best = { status: FileBudgetStatus.TRUNCATED, content: candidate, tokens: candidate_tokens, full_tokens };
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return best;
+}
@@ -0,0 +1,126 @@
+/**
+ * Utilities for counting tokens with the tokenizers LLMs actually use.
+ */
+
+import { InvalidTokenizerError } from '../errors/exceptions';
+
+/**
+ * A tokenizer that can count the tokens of a piece of text.
+ */
+export interface Tokenizer {
+    /** Name of the tokenizer, shown in the digest summary */
+    name: string;
+    /**
+     * Count the tokens of the given text.
+     *
+     * @param text - The text to tokenize
+     * @returns The exact number of tokens for this tokenizer
+     */
+    countTokens(text: string): number;
+}
+
+/** Subset of the gpt-tokenizer encoding module API that we rely on */
+interface BpeEncodingModule {
+    countTokens(text: string, options?: { disallowedSpecial?: Set<string> }): number;
+}
+
+/** Factories for the registered tokenizers, keyed by name */
+const TOKENIZER_FACTORIES: Map<string, () => Tokenizer> = new Map();
+
+/** Tokenizers that have already been instantiated, keyed by name */
+const TOKENIZER_CACHE: Map<string, Tokenizer> = new Map();
+
+/**
+ * Register a tokenizer under the given name.
+ *
+ * The factory is only called the first time the tokenizer is requested, so registering a tokenizer with a large
+ * vocabulary is cheap.
+ *
+ * @param name - The name used to select the tokenizer (e.g. via `--tokenizer`)
+ * @param factory - A function creating the tokenizer
+ */
+export function registerTokenizer(name: string, factory: () => Tokenizer): void {
+    TOKENIZER_FACTORIES.set(name, factory);
+    TOKENIZER_CACHE.delete(name);
+}
+
+/**
+ * Return the names of all registered tokenizers.
+ *
+ * @returns The names of the registered tokenizers, in registration order
+ */
+export function listTokenizers(): string[] {
+    return Array.from(TOKENIZER_FACTORIES.keys());
+}
+
+/**
+ * Check whether a tokenizer with the given name is registered.
+ *
+ * @param name - The tokenizer name to check
+ * @returns True if the tokenizer is registered, otherwise False
+ */
+export function isKnownTokenizer(name: string): boolean {
+    return TOKENIZER_FACTORIES.has(name);
+}
+
+/**
+ * Get the tokenizer registered under the given name.
+ *
+ * @param name - The tokenizer name
+ * @returns The tokenizer instance
+ * @throws InvalidTokenizerError if no tokenizer is registered under that name
+ */
+export function getTokenizer(name: string): Tokenizer {
+    const cached = TOKENIZER_CACHE.get(name);
+    if (cached) {
+        return cached;
+    }
+
+    const factory = TOKENIZER_FACTORIES.get(name);
+    if (!factory) {
+        throw new InvalidTokenizerError(name, listTokenizers());
+    }
+
+    const tokenizer = factory();
+    TOKENIZER_CACHE.set(name, tokenizer);
+    return tokenizer;
+}
+
+/**
+ * Create a tokenizer backed by one of the BPE vocabularies bundled with gpt-tokenizer.
+ *
+ * Special tokens such as `<|endoftext|>` are counted as plain text, since a source file containing them is not a
+ * prompt injection attempt we need to reject.
+ *
+ * @param name - The name of the encoding
+ * @param load - A function loading the encoding module
+ * @returns The tokenizer
+ */
+function createBpeTokenizer(name: string, load: () => BpeEncodingModule): Tokenizer {
+    const encoding = load();
+    const options = { disallowedSpecial: new Set<string>() };
+
+    return {
+        name,
+        countTokens: (text: string) => encoding.countTokens(text, options),
+    };
+}
+
+// The vocabularies are required lazily because each of them takes several megabytes once loaded
+registerTokenizer("o200k_base", () =>
+    createBpeTokenizer("o200k_base", () => require('gpt-tokenizer/encoding/o200k_base'))
+);
+registerTokenizer("cl100k_base", () =>
+    createBpeTokenizer("cl100k_base", () => require('gpt-tokenizer/encoding/cl100k_base'))
+);
+registerTokenizer("p50k_base", () =>
+    createBpeTokenizer("p50k_base", () => require('gpt-tokenizer/encoding/p50k_base'))
+);
+registerTokenizer("r50k_base", () =>
+    createBpeTokenizer("r50k_base", () => require('gpt-tokenizer/encoding/r50k_base'))
+);
+registerTokenizer("approx", () => ({
+    name: "approx",
+    // Rough estimation: ~4 characters per token on average
+    countTokens: (text: string) => Math.ceil(text.length / 4),
+}));
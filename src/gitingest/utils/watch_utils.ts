@@ -0,0 +1,58 @@
+/**
+ * Utilities for watching an ingested directory.
+ */
+
+import * as path from 'path';
+
+import { IngestionQuery } from '../types/ingestion_schema';
+import { appendPatterns, escapeGlob } from './glob_utils';
+import { shouldExclude } from './ingestion_utils';
+
+/** Names of the files that change which files are ingested, wherever they are in the directory */
+const CONFIG_FILE_NAMES = new Set(['.gitingest', '.gitignore']);
+
+/**
+ * Check whether a change reported by a watcher may change the digest of a query.
+ * 
+ * Changes to `.gitingest`, `.gitignore` and `.git/info/exclude` files are always relevant, since they change which
+ * files are ingested. Other changes are ignored when they are in `ignored_paths`, such as the output file, or match
+ * the ignore patterns of the query.
+ * 
+ * @param query - The query of the last ingestion, whose ignore patterns include those of the root `.gitingest` file
+ * @param relative_path - The changed path, relative to the local path of the query
+ * @param ignored_paths - Absolute paths whose changes are ignored
+ * @returns True if the directory should be ingested again, otherwise False
+ */
+export function isRelevantChange(query: IngestionQuery, relative_path: string, ignored_paths: Set<string>): boolean {
+    const absolute_path = path.resolve(query.local_path, relative_path);
+
+    if (CONFIG_FILE_NAMES.has(path.basename(absolute_path))) {
+        return true;
+    }
+    if (path.relative(query.local_path, absolute_path) === path.join('.git', 'info', 'exclude')) {
+        return true;
+    }
+    if (ignored_paths.has(absolute_path)) {
+        return false;
+    }
+
+    return !shouldExclude(absolute_path, query.local_path, query.ignore_patterns);
+}
+
+/**
+ * Add ignore patterns to a query for the ignored paths inside its directory, so that e.g. an output file written in
+ * the watched directory is not part of the next digest.
+ * 
+ * @param query - The query, whose ignore patterns are extended
+ * @param ignored_paths - Absolute paths to exclude from the ingestion
+ */
+export function excludeIgnoredPaths(query: IngestionQuery, ignored_paths: Set<string>): void {
+    const patterns: string[] = [];
+    for (const ignored_path of ignored_paths) {
+        const relative_path = path.relative(query.local_path, ignored_path);
+        if (relative_path && !relative_path.startsWith('..') && !path.isAbsolute(relative_path)) {
+            patterns.push('/' + escapeGlob(relative_path.split(path.sep).join('/')));
+        }
+    }
+    appendPatterns(query.ignore_patterns, patterns);
+}
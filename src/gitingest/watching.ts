@@ -0,0 +1,148 @@
+/**
+ * This module contains functions for keeping the digest of a local directory up to date while it changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { finished } from 'stream/promises';
+import { WATCH_DEBOUNCE_MS } from './config';
+import { IngestionCancelledError } from './errors/exceptions';
+import { ingestQueryToStream } from './ingestion';
+import { IngestionControl, IngestionQuery, OutputPath, WatchOptions, copyIngestionQuery } from './types/ingestion_schema';
+import { getTempOutputPath, resolveOutputPath } from './utils/path_utils';
+import { throwIfCancelled } from './utils/progress_utils';
+import { excludeIgnoredPaths, isRelevantChange } from './utils/watch_utils';
+
+/**
+ * Ingest a local directory, then ingest it again each time it changes, until the signal is aborted.
+ *
+ * Change events are debounced, and those matching the ignore patterns or `ignored_paths` are dropped. The ignored
+ * paths inside the directory, such as the output file, are not ingested either. Ingestions run one at a time: changes
+ * made during an ingestion trigger one more once it completes. Each ingestion gets a fresh copy of the query, so that
+ * edits to the `.gitingest` and `.gitignore` files are taken into account. A failed ingestion is reported to
+ * `on_error` and watching goes on.
+ *
+ * @param query - The parsed query of a local directory
+ * @param run - The ingestion, which returns the summary of the digest
+ * @param options - Debounce delay, ignored paths, callbacks, and the signal that stops watching
+ * @returns A promise resolved once the signal is aborted and the running ingestion has stopped
+ * @throws Error if the directory cannot be watched
+ * @throws IngestionCancelledError if the signal is aborted before watching starts
+ */
+export async function watchQuery(
+    query: IngestionQuery,
+    run: (query: IngestionQuery, control: IngestionControl) => Promise<string>,
+    options: WatchOptions = {}
+): Promise<void> {
+    throwIfCancelled(options.signal);
+
+    const debounce_ms = options.debounce_ms ?? WATCH_DEBOUNCE_MS;
+    const ignored_paths = new Set((options.ignored_paths || []).map(ignored => path.resolve(ignored)));
+    const on_error = options.on_error || ((error: unknown) => console.error(`Ingestion failed: ${error}`));
+    // The query of the last ingestion, refined by the root `.gitingest` file, decides which changes are ignored
+    let last_query = copyIngestionQuery(query);
+    let running: Promise<void> | undefined;
+    let pending = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const ingest = async () => {
+        do {
+            pending = false;
+            const run_query = copyIngestionQuery(query);
+            excludeIgnoredPaths(run_query, ignored_paths);
+            try {
+                const summary = await run(run_query, { signal: options.signal, on_progress: options.on_progress });
+                last_query = run_query;
+                options.on_update?.(summary);
+            } catch (error) {
+                if (!(error instanceof IngestionCancelledError)) {
+                    on_error(error);
+                }
+            }
+        } while (pending && !options.signal?.aborted);
+        running = undefined;
+    };
+
+    const schedule = () => {
+        if (running) {
+            pending = true;
+        } else {
+            running = ingest();
+        }
+    };
+
+    const watcher = fs.watch(query.local_path, { recursive: true });
+    await new Promise<void>((resolve, reject) => {
+        const stop = (error?: Error) => {
+            clearTimeout(timer);
+            watcher.close();
+            options.signal?.removeEventListener('abort', onAbort);
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+        const onAbort = () => stop();
+
+        watcher.on('change', (_event, filename) => {
+            // Some platforms do not report the changed file, which then always counts
+            if (filename && !isRelevantChange(last_query, filename.toString(), ignored_paths)) {
+                return;
+            }
+            clearTimeout(timer);
+            timer = setTimeout(schedule, debounce_ms);
+        });
+        watcher.on('error', error => stop(error));
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        schedule();
+    });
+
+    await running;
+}
+
+/**
+ * Ingest a query and write its digest to a file, replacing the file only once the digest is complete.
+ *
+ * The digest is streamed to a temporary file next to the output file, which is then renamed, so that readers of the
+ * output file never see a partial digest. Neither file is part of the digest when they are in the ingested directory
+ * and the path is given as a string; a function choosing the path is only called once the tree is built.
+ *
+ * @param query - The parsed query
+ * @param output - The path of the output file, or a function choosing it from the query
+ * @param control - Cancellation signal and progress callback
+ * @returns The summary, including the token count of the digest
+ * @throws Error if the ingestion fails or the file cannot be written
+ * @throws IngestionCancelledError if the signal is aborted
+ */
+export async function writeDigestFile(
+    query: IngestionQuery,
+    output: OutputPath,
+    control: IngestionControl = {}
+): Promise<string> {
+    const file_query = copyIngestionQuery(query);
+    if (typeof output === 'string') {
+        excludeIgnoredPaths(file_query, new Set([path.resolve(output), path.resolve(getTempOutputPath(output))]));
+    }
+
+    let output_path: string | undefined;
+    let stream: fs.WriteStream | undefined;
+    try {
+        const summary = await ingestQueryToStream(file_query, async resolved_query => {
+            output_path = resolveOutputPath(output, resolved_query);
+            stream = (await fs.promises.open(getTempOutputPath(output_path), 'w')).createWriteStream({ encoding: 'utf-8' });
+            return stream;
+        }, control);
+        stream!.end();
+        await finished(stream!);
+        await fs.promises.rename(getTempOutputPath(output_path!), output_path!);
+        return summary;
+    } catch (error) {
+        if (output_path !== undefined) {
+            stream?.destroy();
+            await fs.promises.rm(getTempOutputPath(output_path), { force: true });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { FileSystemNode, FileSystemNodeType } from './gitingest/types/filesystem_schema';
+import { IngestionQuery } from './gitingest/types/ingestion_schema';
+import { SelectionSummary, summarizeSelection } from './gitingest/utils/selection_utils';
+import { getTokenizer } from './gitingest/utils/tokenizer_utils';
+
+/**
+ * A node of the tree shown in the picker, as sent to the webview
+ */
+interface PickerNode {
+    /** Name of the file or directory */
+    name: string;
+    /** Path relative to the root, with forward slashes */
+    path: string;
+    /** Whether this node is a file or a directory */
+    type: 'file' | 'directory';
+    /** Size in bytes of the file, or of all files under the directory */
+    size: number;
+    /** Token count of the file, or of all files under the directory */
+    tokens: number;
+    /** Children of a directory, in digest order */
+    children?: PickerNode[];
+}
+
+/**
+ * Message sent by the webview when a button is pressed, with the paths of the checked files
+ */
+interface PickerMessage {
+    type: 'export' | 'saveInclude' | 'saveIgnore';
+    checked: string[];
+}
+
+/**
+ * Actions of the picker, run with the selection of the user
+ */
+export interface PickerHandlers {
+    /** Build the digest of the selected paths */
+    exportSelection(selection: SelectionSummary): Promise<void>;
+    /** Save the selection as include or ignore patterns */
+    savePatterns(kind: 'include' | 'ignore', patterns: string[]): Promise<void>;
+}
+
+/**
+ * Open a webview panel showing an ingested tree with checkboxes, size and token counts
+ *
+ * The running total of the checked files is computed in the webview. The buttons of the panel call the handlers with a
+ * summary of the checked files.
+ */
+export function openPickerPanel(
+    extension_uri: vscode.Uri,
+    query: IngestionQuery,
+    root: FileSystemNode,
+    handlers: PickerHandlers
+): vscode.WebviewPanel {
+    const media_uri = vscode.Uri.joinPath(extension_uri, 'resources', 'picker');
+    const panel = vscode.window.createWebviewPanel(
+        'gitingest.picker',
+        `Gitingest: ${query.slug}`,
+        vscode.ViewColumn.One,
+        { enableScripts: true, localResourceRoots: [media_uri] }
+    );
+
+    const tree = toPickerNode(root, '', query);
+    panel.webview.html = createPickerHtml(panel.webview, media_uri, tree, query);
+
+    panel.webview.onDidReceiveMessage(async (message: PickerMessage) => {
+        const selection = summarizeSelection(root, new Set(message.checked));
+        if (selection.selected_paths.length === 0) {
+            vscode.window.showInformationMessage('Check at least one file');
+            return;
+        }
+
+        try {
+            if (message.type === 'export') {
+                await handlers.exportSelection(selection);
+            } else if (message.type === 'saveInclude') {
+                await handlers.savePatterns('include', selection.include_patterns);
+            } else {
+                await handlers.savePatterns('ignore', selection.ignore_patterns);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Gitingest: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    return panel;
+}
+
+/**
+ * Convert a node of the ingested tree for the webview, counting the tokens of every file
+ *
+ * The content of each file is released once counted: the tree lives as long as the panel, and an export reads the
+ * selected files again from disk.
+ */
+function toPickerNode(node: FileSystemNode, relative_path: string, query: IngestionQuery): PickerNode {
+    if (node.type === FileSystemNodeType.FILE) {
+        const tokens = node.countTokens(getTokenizer(query.tokenizer));
+        node.releaseContent();
+        return {
+            name: node.name,
+            path: relative_path,
+            type: 'file',
+            size: node.size,
+            tokens
+        };
+    }
+
+    const children = node.children.map(child =>
+        toPickerNode(child, relative_path ? `${relative_path}/${child.name}` : child.name, query)
+    );
+    return {
+        name: node.name || query.slug,
+        path: relative_path,
+        type: 'directory',
+        size: node.size,
+        tokens: children.reduce((total, child) => total + child.tokens, 0),
+        children
+    };
+}
+
+/**
+ * Build the HTML of the picker, which loads its script and styles from the `resources/picker` folder
+ */
+function createPickerHtml(
+    webview: vscode.Webview,
+    media_uri: vscode.Uri,
+    tree: PickerNode,
+    query: IngestionQuery
+): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+    const script_uri = webview.asWebviewUri(vscode.Uri.joinPath(media_uri, 'picker.js'));
+    const style_uri = webview.asWebviewUri(vscode.Uri.joinPath(media_uri, 'picker.css'));
+    // Escape "<" so that file names cannot close the script element
+    const data = JSON.stringify({ tree, tokenizer: getTokenizer(query.tokenizer).name }).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${style_uri}" rel="stylesheet">
+</head>
+<body>
+    <header>
+        <div id="total"></div>
+        <div class="actions">
+            <button id="check-all" class="secondary">Check All</button>
+            <button id="check-none" class="secondary">Check None</button>
+            <button id="save-include" class="secondary">Save as Include Patterns</button>
+            <button id="save-ignore" class="secondary">Save as Ignore Patterns</button>
+            <button id="export">Export</button>
+        </div>
+    </header>
+    <ul id="tree" class="tree"></ul>
+    <script nonce="${nonce}" id="picker-data" type="application/json">${data}</script>
+    <script nonce="${nonce}" src="${script_uri}"></script>
+</body>
+</html>`;
+}
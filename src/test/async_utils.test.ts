@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+
+import { IngestionCancelledError } from '../gitingest/errors/exceptions';
+import { mapConcurrent } from '../gitingest/utils/async_utils';
+
+/**
+ * Resolve after the given number of milliseconds.
+ */
+function delay(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+suite('Async Utils Test Suite', () => {
+	suite('mapConcurrent', () => {
+		test('returns the results in the order of the items', async () => {
+			const results = await mapConcurrent([30, 10, 20], 3, async (ms, index) => {
+				await delay(ms);
+				return `${index}:${ms}`;
+			});
+
+			assert.deepStrictEqual(results, ['0:30', '1:10', '2:20']);
+		});
+
+		test('runs at most limit calls at the same time', async () => {
+			let running = 0;
+			let peak = 0;
+			await mapConcurrent(Array.from({ length: 10 }, (_, index) => index), 3, async () => {
+				running += 1;
+				peak = Math.max(peak, running);
+				await delay(5);
+				running -= 1;
+			});
+
+			assert.strictEqual(peak, 3);
+		});
+
+		test('stops starting calls after an error', async () => {
+			const started: number[] = [];
+			await assert.rejects(
+				mapConcurrent([0, 1, 2, 3, 4], 1, async item => {
+					started.push(item);
+					if (item === 1) {
+						throw new Error('failed');
+					}
+				}),
+				/failed/
+			);
+
+			assert.deepStrictEqual(started, [0, 1]);
+		});
+
+		test('stops when the signal is aborted', async () => {
+			const controller = new AbortController();
+			await assert.rejects(
+				mapConcurrent([0, 1, 2], 1, async () => controller.abort(), controller.signal),
+				IngestionCancelledError
+			);
+		});
+	});
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { clone } from '../gitingest/cloning';
+import { AsyncTimeoutError } from '../gitingest/errors/exceptions';
+import { ingestAsync } from '../gitingest/entrypoint';
+import { ingestQuery } from '../gitingest/ingestion';
+import { CloneConfig, createIngestionQuery, extractCloneConfig } from '../gitingest/types/ingestion_schema';
+import { createPullRequestDiff } from '../gitingest/utils/git_diff_utils';
+
+suite('Cloning Test Suite', () => {
+	let temp_path: string;
+	let remote_path: string;
+	let clone_path: string;
+
+	/**
+	 * Run git in a directory of the test.
+	 */
+	function git(directory: string, ...args: string[]): string {
+		return execFileSync(
+			'git',
+			['-C', directory, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+			{ encoding: 'utf-8' }
+		);
+	}
+
+	/**
+	 * Create the clone configuration of the test remote.
+	 */
+	function cloneConfig(params: Partial<CloneConfig> = {}): CloneConfig {
+		return { url: remote_path, local_path: clone_path, subpath: '/', blob: false, ...params };
+	}
+
+	setup(() => {
+		// A bare repository publishing a pull request and a merge request, as GitHub and GitLab do
+		temp_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		remote_path = path.join(temp_path, 'remote.git');
+		clone_path = path.join(temp_path, 'clone');
+		const work_path = path.join(temp_path, 'work');
+		fs.mkdirSync(work_path);
+		git(work_path, 'init', '-q', '-b', 'main');
+		fs.writeFileSync(path.join(work_path, 'README.md'), '# Repo\n');
+		git(work_path, 'add', '-A');
+		git(work_path, 'commit', '-q', '-m', 'initial');
+
+		git(work_path, 'checkout', '-q', '-b', 'feature');
+		fs.writeFileSync(path.join(work_path, 'feature.ts'), 'export const feature = true;\n');
+		git(work_path, 'add', '-A');
+		git(work_path, 'commit', '-q', '-m', 'add feature');
+
+		git(work_path, 'checkout', '-q', 'main');
+		fs.writeFileSync(path.join(work_path, 'main.ts'), 'export const main = true;\n');
+		git(work_path, 'add', '-A');
+		git(work_path, 'commit', '-q', '-m', 'change main');
+
+		git(temp_path, 'init', '-q', '--bare', '-b', 'main', remote_path);
+		git(work_path, 'push', '-q', remote_path, 'main', 'feature:refs/pull/7/head', 'feature:refs/merge-requests/3/head');
+	});
+
+	teardown(() => {
+		fs.rmSync(temp_path, { recursive: true, force: true });
+	});
+
+	test('clones the default branch of a local repository', async () => {
+		await clone(cloneConfig());
+
+		assert.ok(fs.existsSync(path.join(clone_path, 'main.ts')));
+		assert.ok(!fs.existsSync(path.join(clone_path, 'feature.ts')));
+	});
+
+	test('stops a clone after its timeout', async () => {
+		await assert.rejects(clone(cloneConfig(), {}, 0.001), AsyncTimeoutError);
+	});
+
+	test('applies no timeout to a clone the caller can cancel', async () => {
+		await clone(cloneConfig(), { signal: new AbortController().signal });
+
+		assert.ok(fs.existsSync(path.join(clone_path, 'main.ts')));
+	});
+
+	test('checks out the head of a pull or merge request', async () => {
+		for (const ref of ['refs/pull/7/head', 'refs/merge-requests/3/head']) {
+			fs.rmSync(clone_path, { recursive: true, force: true });
+
+			await clone(cloneConfig({ pull_request_ref: ref }));
+
+			assert.strictEqual(git(clone_path, 'rev-parse', 'HEAD').trim(), git(remote_path, 'rev-parse', ref).trim());
+			assert.ok(fs.existsSync(path.join(clone_path, 'feature.ts')));
+			assert.ok(!fs.existsSync(path.join(clone_path, 'main.ts')));
+		}
+	});
+
+	test('rejects unknown pull requests', async () => {
+		await assert.rejects(clone(cloneConfig({ pull_request_ref: 'refs/pull/8/head' })), /refs\/pull\/8\/head/);
+	});
+
+	test('ingests the changes of a pull request against its merge base', async () => {
+		const query = createIngestionQuery({
+			url: remote_path,
+			local_path: clone_path,
+			slug: 'remote',
+			pull_request: { number: 7, ref: 'refs/pull/7/head' },
+			diff: createPullRequestDiff(),
+		});
+
+		await clone(extractCloneConfig(query));
+		const [summary, tree] = await ingestQuery(query);
+
+		assert.match(summary, /^Pull request: #7 \(refs\/pull\/7\/head\)$/m);
+		assert.match(summary, /^Commits: 1$/m);
+		assert.match(summary, /^ {2}A feature\.ts \(\+1 -0\)$/m);
+		assert.ok(!summary.includes('main.ts'));
+		assert.ok(!tree.includes('main.ts'));
+	});
+
+	suite('ingestAsync', () => {
+		setup(() => {
+			// Git fetches the URLs of the hosting service from the test remote instead
+			process.env.GIT_CONFIG_COUNT = '1';
+			process.env.GIT_CONFIG_KEY_0 = `url.${remote_path}.insteadOf`;
+			process.env.GIT_CONFIG_VALUE_0 = 'https://github.com/owner/repo';
+		});
+
+		teardown(() => {
+			delete process.env.GIT_CONFIG_COUNT;
+			delete process.env.GIT_CONFIG_KEY_0;
+			delete process.env.GIT_CONFIG_VALUE_0;
+		});
+
+		test('ingests the head of a pull request URL', async () => {
+			const [summary, tree, content] = await ingestAsync('https://github.com/owner/repo/pull/7');
+
+			assert.match(summary, /^Pull request: #7 \(refs\/pull\/7\/head\)$/m);
+			assert.ok(tree.includes('feature.ts'));
+			assert.ok(!tree.includes('main.ts'));
+			assert.ok(content.includes('export const feature = true;'));
+		});
+
+		test('ingests the changes of a pull request URL with pull_request_diff', async () => {
+			const [summary, tree] = await ingestAsync(
+				'https://github.com/owner/repo/pull/7', undefined, undefined, undefined, undefined, undefined,
+				{ pull_request_diff: true }
+			);
+
+			assert.match(summary, /^Commits: 1$/m);
+			assert.match(summary, /^ {2}A feature\.ts \(\+1 -0\)$/m);
+			assert.ok(!tree.includes('main.ts'));
+		});
+	});
+});
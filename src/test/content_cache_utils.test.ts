@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { buildFileSystemTree, loadContents } from '../gitingest/ingestion';
+import { FileSystemNode } from '../gitingest/types/filesystem_schema';
+import { IngestionQuery, createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { ContentCache, openContentCache } from '../gitingest/utils/content_cache_utils';
+import { getTokenizer } from '../gitingest/utils/tokenizer_utils';
+
+suite('Content Cache Utils Test Suite', () => {
+	let root_path: string;
+	let cache_dir: string;
+
+	/**
+	 * Ingest the directory with the cache, and save the cache.
+	 */
+	async function ingest(query: IngestionQuery): Promise<{ root: FileSystemNode; cache: ContentCache }> {
+		const root = await buildFileSystemTree(query);
+		const cache = (await openContentCache(query))!;
+		await loadContents(root, query, {}, cache);
+		for (const file of root.children) {
+			file.countTokens(getTokenizer('o200k_base'));
+		}
+		await cache.save(root);
+		return { root, cache };
+	}
+
+	setup(() => {
+		root_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		cache_dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-cache-'));
+		fs.writeFileSync(path.join(root_path, 'a.txt'), 'first version');
+		fs.writeFileSync(path.join(root_path, 'b.bin'), Buffer.from([0, 159, 146, 150, 0, 1]));
+	});
+
+	teardown(() => {
+		fs.rmSync(root_path, { recursive: true, force: true });
+		fs.rmSync(cache_dir, { recursive: true, force: true });
+	});
+
+	test('is not used when the query has no cache directory', async () => {
+		assert.strictEqual(await openContentCache(createIngestionQuery({ local_path: root_path })), undefined);
+	});
+
+	test('only reads the files that changed', async () => {
+		const query = createIngestionQuery({ local_path: root_path, slug: 'repo', cache_dir });
+		const first = await ingest(query);
+		assert.strictEqual(first.cache.misses, 2);
+
+		const second = await ingest(query);
+		assert.strictEqual(second.cache.hits, 2);
+		assert.deepStrictEqual(second.root.children.map(file => file.content), ['first version', '[Non-text file]']);
+		assert.deepStrictEqual(second.root.children[0].token_counts, first.root.children[0].token_counts);
+
+		fs.writeFileSync(path.join(root_path, 'a.txt'), 'second, longer version');
+		const third = await ingest(query);
+		assert.strictEqual(third.cache.hits, 1);
+		assert.strictEqual(third.cache.misses, 1);
+		assert.strictEqual(third.root.children[0].content, 'second, longer version');
+	});
+
+	test('keeps the token counts of a file touched without changing its content', async () => {
+		const query = createIngestionQuery({ local_path: root_path, slug: 'repo', cache_dir });
+		await ingest(query);
+
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(path.join(root_path, 'a.txt'), later, later);
+		const root = await buildFileSystemTree(query);
+		const cache = (await openContentCache(query))!;
+		await loadContents(root, query, {}, cache);
+
+		assert.strictEqual(cache.misses, 1);
+		assert.ok(root.children[0].token_counts.has(getTokenizer('o200k_base').name));
+	});
+
+	test('evicts entries beyond the size limit', async () => {
+		fs.writeFileSync(path.join(root_path, 'a.txt'), 'x'.repeat(2000));
+		const query = createIngestionQuery({ local_path: root_path, slug: 'repo', cache_dir, max_cache_size: 1000 });
+		await ingest(query);
+
+		const { root, cache } = await ingest(query);
+		assert.strictEqual(cache.hits, 1);
+		assert.strictEqual(cache.misses, 1);
+		assert.strictEqual(root.children[0].content, 'x'.repeat(2000));
+		assert.ok(fs.statSync(cache.index_path).size <= 1000);
+	});
+
+	test('ignores an unreadable index', async () => {
+		const query = createIngestionQuery({ local_path: root_path, slug: 'repo', cache_dir });
+		const { cache } = await ingest(query);
+		fs.writeFileSync(cache.index_path, '{ not json');
+
+		const reopened = await ingest(query);
+		assert.strictEqual(reopened.cache.misses, 2);
+		assert.strictEqual(reopened.root.children[0].content, 'first version');
+	});
+});
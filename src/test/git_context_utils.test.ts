@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ingestAsync } from '../gitingest/entrypoint';
+import { ingestQuery } from '../gitingest/ingestion';
+import { FileSystemNode, FileSystemNodeType } from '../gitingest/types/filesystem_schema';
+import { IngestionQuery, OutputFormat, createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { createGitContextQuery, readGitContext } from '../gitingest/utils/git_context_utils';
+import { collectFiles } from '../gitingest/utils/token_budget_utils';
+
+suite('Git Context Utils Test Suite', () => {
+	let temp_path: string;
+	let root_path: string;
+
+	/**
+	 * Run git in a directory of the test.
+	 */
+	function git(directory: string, ...args: string[]): string {
+		return execFileSync(
+			'git',
+			['-C', directory, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+			{ encoding: 'utf-8' }
+		);
+	}
+
+	/**
+	 * Write a file of the test repository and commit it.
+	 */
+	function commit(file_path: string, content: string, message: string): void {
+		fs.mkdirSync(path.dirname(path.join(root_path, file_path)), { recursive: true });
+		fs.writeFileSync(path.join(root_path, file_path), content);
+		git(root_path, 'add', '-A');
+		git(root_path, 'commit', '-q', '-m', message);
+	}
+
+	/**
+	 * Create a query of a directory with a git context.
+	 */
+	function contextQuery(local_path: string, params: Parameters<typeof createGitContextQuery>[0] = {}): IngestionQuery {
+		return createIngestionQuery({ local_path, slug: 'repo', git_context: createGitContextQuery(params) });
+	}
+
+	/**
+	 * Create the tree of the files of a directory, with no contents.
+	 */
+	function createTree(directory: string, files: string[]): FileSystemNode {
+		const root = new FileSystemNode('repo', FileSystemNodeType.DIRECTORY, '', directory);
+		root.children = files.map(file => new FileSystemNode(path.basename(file), FileSystemNodeType.FILE, file, path.join(directory, file)));
+		return root;
+	}
+
+	setup(() => {
+		temp_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		root_path = path.join(temp_path, 'repo');
+		fs.mkdirSync(root_path);
+		git(root_path, 'init', '-q', '-b', 'main');
+		commit('README.md', '# Repo\n', 'add readme');
+		commit('src/main.ts', 'export {};\n', 'add main');
+		commit('README.md', '# Repo\n\nUpdated\n', 'update readme');
+	});
+
+	teardown(() => {
+		fs.rmSync(temp_path, { recursive: true, force: true });
+	});
+
+	test('reads the checked out commit, branch and uncommitted changes', async () => {
+		fs.writeFileSync(path.join(root_path, 'untracked.txt'), 'new\n');
+		const query = contextQuery(root_path);
+
+		const context = await readGitContext(query, createTree(root_path, []));
+
+		assert.strictEqual(context?.head_commit, git(root_path, 'rev-parse', 'HEAD').trim());
+		assert.strictEqual(context?.branch, 'main');
+		assert.strictEqual(context?.remote_url, undefined);
+		assert.strictEqual(context?.uncommitted_changes, 1);
+		assert.strictEqual(context?.shallow, false);
+		assert.deepStrictEqual(context?.commits, []);
+		assert.strictEqual(query.git_context?.result, context);
+	});
+
+	test('lists the recent commits of the repository or of the ingested path', async () => {
+		const repository = await readGitContext(contextQuery(root_path, { log_count: 2 }), createTree(root_path, []));
+		const src_path = path.join(root_path, 'src');
+		const subpath = await readGitContext(contextQuery(src_path, { log_count: 2, log_per_path: true }), createTree(src_path, []));
+
+		assert.deepStrictEqual(repository?.commits.map(commit => commit.subject), ['update readme', 'add main']);
+		assert.strictEqual(repository?.commits[0].author, 'Test');
+		assert.deepStrictEqual(subpath?.commits.map(commit => commit.subject), ['add main']);
+	});
+
+	test('annotates the files with their last commit', async () => {
+		const root = createTree(root_path, ['README.md', 'src/main.ts']);
+
+		await readGitContext(contextQuery(root_path, { file_history: true }), root);
+
+		assert.deepStrictEqual(collectFiles(root).map(file => file.last_commit?.subject), ['update readme', 'add main']);
+	});
+
+	test('finds the last commit of files with non-ASCII names and none for untracked files', async () => {
+		commit('docs/résumé.md', 'CV\n', 'add résumé');
+		fs.writeFileSync(path.join(root_path, 'untracked.txt'), 'new\n');
+		const root = createTree(root_path, ['README.md', 'docs/résumé.md', 'untracked.txt']);
+
+		await readGitContext(contextQuery(root_path, { file_history: true }), root);
+
+		assert.deepStrictEqual(collectFiles(root).map(file => file.last_commit?.subject), ['update readme', 'add résumé', undefined]);
+	});
+
+	test('leaves the files last changed before a shallow clone without a last commit', async () => {
+		const clone_path = path.join(temp_path, 'clone');
+		execFileSync('git', ['clone', '-q', '--depth=2', `file://${root_path}`, clone_path]);
+		const root = createTree(clone_path, ['README.md', 'src/main.ts']);
+
+		const context = await readGitContext(contextQuery(clone_path, { file_history: true }), root);
+
+		assert.strictEqual(context?.shallow, true);
+		assert.ok(context?.remote_url?.startsWith('file://'));
+		assert.deepStrictEqual(collectFiles(root).map(file => file.last_commit?.subject), ['update readme', undefined]);
+	});
+
+	test('clones sources with the requested history depth', async () => {
+		const source = `file://${root_path}`;
+
+		const [full_summary] = await ingestAsync(source, undefined, undefined, undefined, undefined, undefined, { git_log: 3 });
+		const [shallow_summary] = await ingestAsync(
+			source, undefined, undefined, undefined, undefined, undefined, { git_log: 3, history_depth: 2 }
+		);
+
+		assert.match(full_summary, /^Recent commits:\n( {2}[^\n]+\n){3}/m);
+		assert.ok(full_summary.includes(': add readme'));
+		assert.ok(!full_summary.includes('History: shallow clone'));
+		assert.match(shallow_summary, /^Recent commits:\n( {2}[^\n]+\n){2}(?! )/m);
+		assert.ok(!shallow_summary.includes(': add readme'));
+		assert.match(shallow_summary, /^History: shallow clone, commits older than 2 are missing$/m);
+	});
+
+	test('skips directories that are not in a Git repository', async () => {
+		const directory = path.join(temp_path, 'plain');
+		fs.mkdirSync(directory);
+		const query = contextQuery(directory, { log_count: 5 });
+
+		assert.strictEqual(await readGitContext(query, createTree(directory, [])), undefined);
+		assert.strictEqual(query.git_context?.result, undefined);
+	});
+
+	test('adds the context to the summary and the last commits to the file blocks', async () => {
+		const [summary, , content] = await ingestQuery(contextQuery(root_path, { log_count: 1, file_history: true }));
+		const markdown_query = contextQuery(root_path, { file_history: true });
+		markdown_query.output_format = OutputFormat.MARKDOWN;
+		const [, , markdown] = await ingestQuery(markdown_query);
+
+		const head = git(root_path, 'rev-parse', 'HEAD').trim();
+		assert.match(summary, new RegExp(`^Head: ${head.slice(0, 12)} on main, committed \\d{4}-`, 'm'));
+		assert.match(summary, /^Working tree: clean$/m);
+		assert.match(summary, new RegExp(`^Recent commits:\\n {2}${head.slice(0, 7)} \\d{4}-\\d{2}-\\d{2} Test: update readme$`, 'm'));
+		assert.match(content, /File: src\/main\.ts\nLast commit: [0-9a-f]{7} \d{4}-\d{2}-\d{2} Test: add main\n=+\n/);
+		assert.match(markdown, /### src\/main\.ts\n\nLast commit: [0-9a-f]{7} [^\n]+ Test: add main\n\n```/);
+	});
+});
@@ -0,0 +1,275 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ingestAsync } from '../gitingest/entrypoint';
+import { ingestQuery } from '../gitingest/ingestion';
+import { ChangeStatus, WorkingTreeChanges } from '../gitingest/types/diff_schema';
+import { IngestionQuery, createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import {
+	createUnpushedDiff,
+	createWorkingTreeDiff,
+	findRepositoryRoot,
+	parseDiffRange,
+	readDiff
+} from '../gitingest/utils/git_diff_utils';
+
+suite('Git Diff Utils Test Suite', () => {
+	let root_path: string;
+
+	/**
+	 * Run git in the test repository.
+	 */
+	function git(...args: string[]): string {
+		return execFileSync(
+			'git',
+			['-C', root_path, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+			{ encoding: 'utf-8' }
+		);
+	}
+
+	/**
+	 * Write a file of the test repository, creating its directory.
+	 */
+	function write(file_path: string, content: string): void {
+		fs.mkdirSync(path.dirname(path.join(root_path, file_path)), { recursive: true });
+		fs.writeFileSync(path.join(root_path, file_path), content);
+	}
+
+	/**
+	 * Create a diff query of the test repository.
+	 */
+	function diffQuery(range: string, params: Partial<IngestionQuery> = {}, include_content = false): IngestionQuery {
+		return createIngestionQuery({ local_path: root_path, slug: 'repo', diff: parseDiffRange(range, include_content), ...params });
+	}
+
+	setup(() => {
+		root_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		git('init', '-q', '-b', 'main');
+		write('kept.txt', 'one\ntwo\nthree\n');
+		write('removed.txt', 'gone soon\n');
+		write('src/old_name.ts', 'export const value = 1;\nexport const other = 2;\nexport const third = 3;\n');
+		git('add', '-A');
+		git('commit', '-q', '-m', 'initial');
+
+		git('checkout', '-q', '-b', 'feature');
+		write('kept.txt', 'one\n2\nthree\n');
+		fs.rmSync(path.join(root_path, 'removed.txt'));
+		fs.renameSync(path.join(root_path, 'src/old_name.ts'), path.join(root_path, 'src/new_name.ts'));
+		write('src/added.ts', 'export const added = true;\n');
+		git('add', '-A');
+		git('commit', '-q', '-m', 'change files');
+		write('notes.md', '# Notes\n');
+		git('add', '-A');
+		git('commit', '-q', '-m', 'add notes');
+	});
+
+	teardown(() => {
+		fs.rmSync(root_path, { recursive: true, force: true });
+	});
+
+	suite('parseDiffRange', () => {
+		test('follows the range syntax of git diff', () => {
+			assert.deepStrictEqual(parseDiffRange('main'), { base: 'main', head: 'HEAD', merge_base: false, include_content: false });
+			assert.deepStrictEqual(parseDiffRange('v1..v2', true), { base: 'v1', head: 'v2', merge_base: false, include_content: true });
+			assert.deepStrictEqual(parseDiffRange('main...feature'), { base: 'main', head: 'feature', merge_base: true, include_content: false });
+			assert.deepStrictEqual(parseDiffRange('..feature'), { base: 'HEAD', head: 'feature', merge_base: false, include_content: false });
+		});
+
+		test('rejects ranges without refs', () => {
+			assert.throws(() => parseDiffRange('..'), /Invalid diff range/);
+			assert.throws(() => parseDiffRange('a..b..c'), /Invalid diff range/);
+		});
+	});
+
+	suite('readDiff', () => {
+		test('lists the changed files with their status and line counts', async () => {
+			const result = await readDiff(diffQuery('main..feature'));
+
+			assert.strictEqual(result.base_commit, git('rev-parse', 'main').trim());
+			assert.strictEqual(result.head_commit, git('rev-parse', 'feature').trim());
+			assert.strictEqual(result.commit_count, 2);
+			assert.deepStrictEqual(
+				result.files.map(({ status, path, old_path, additions, deletions }) => ({ status, path, old_path, additions, deletions })),
+				[
+					{ status: ChangeStatus.MODIFIED, path: 'kept.txt', old_path: undefined, additions: 1, deletions: 1 },
+					{ status: ChangeStatus.ADDED, path: 'notes.md', old_path: undefined, additions: 1, deletions: 0 },
+					{ status: ChangeStatus.DELETED, path: 'removed.txt', old_path: undefined, additions: 0, deletions: 1 },
+					{ status: ChangeStatus.ADDED, path: 'src/added.ts', old_path: undefined, additions: 1, deletions: 0 },
+					{ status: ChangeStatus.RENAMED, path: 'src/new_name.ts', old_path: 'src/old_name.ts', additions: 0, deletions: 0 },
+				]
+			);
+			assert.match(result.files[0].patch, /^diff --git a\/kept.txt b\/kept.txt\n[\s\S]*-two\n\+2\n/);
+		});
+
+		test('compares to the merge base with three dots', async () => {
+			git('checkout', '-q', 'main');
+			write('main_only.txt', 'main\n');
+			git('add', '-A');
+			git('commit', '-q', '-m', 'main change');
+
+			const direct = await readDiff(diffQuery('main..feature'));
+			const from_merge_base = await readDiff(diffQuery('main...feature'));
+
+			assert.ok(direct.files.some(file => file.path === 'main_only.txt'));
+			assert.ok(!from_merge_base.files.some(file => file.path === 'main_only.txt'));
+			assert.strictEqual(from_merge_base.base_commit, git('rev-parse', 'main~1').trim());
+		});
+
+		test('only reads the changes inside the subpath, relative to it', async () => {
+			const result = await readDiff(diffQuery('main..feature', { subpath: '/src' }));
+
+			assert.deepStrictEqual(result.files.map(file => file.path), ['added.ts', 'new_name.ts']);
+		});
+
+		test('resolves branches that only exist on origin', async () => {
+			git('update-ref', 'refs/remotes/origin/release', 'main');
+
+			const result = await readDiff(diffQuery('release..feature'));
+
+			assert.strictEqual(result.base_commit, git('rev-parse', 'main').trim());
+		});
+
+		test('rejects unknown refs', async () => {
+			await assert.rejects(readDiff(diffQuery('missing..feature')), /Unknown revision 'missing'/);
+		});
+	});
+
+	suite('working tree changes', () => {
+		setup(() => {
+			write('kept.txt', 'one\n2\n3\n');
+			git('add', 'kept.txt');
+			write('src/added.ts', 'export const added = false;\n');
+			write('untracked.txt', 'new\nfile');
+		});
+
+		test('reads the staged changes, compared to HEAD', async () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo', diff: createWorkingTreeDiff(WorkingTreeChanges.STAGED) });
+			const result = await readDiff(query);
+
+			assert.strictEqual(result.base_commit, git('rev-parse', 'HEAD').trim());
+			assert.strictEqual(result.head_commit, undefined);
+			assert.deepStrictEqual(result.files.map(file => [file.status, file.path]), [[ChangeStatus.MODIFIED, 'kept.txt']]);
+			assert.match(result.files[0].patch, /-three\n\+3\n/);
+		});
+
+		test('reads the unstaged changes and untracked files with their current content', async () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo', diff: createWorkingTreeDiff(WorkingTreeChanges.UNSTAGED) });
+			const [summary, , content] = await ingestQuery(query);
+
+			assert.match(summary, /^Diff: unstaged changes$/m);
+			assert.match(summary, /^ {2}M src\/added\.ts \(\+1 -1\)$/m);
+			assert.match(summary, /^ {2}A untracked\.txt \(\+2 -0\)$/m);
+			assert.ok(!summary.includes('kept.txt'));
+			assert.ok(content.includes('@@ -0,0 +1,2 @@\n+new\n+file\n\\ No newline at end of file\n'));
+			assert.match(content, /File: src\/added\.ts \(full content\)\n=+\n\nexport const added = false;\n/);
+		});
+
+		test('does not read untracked files larger than the maximum file size or that are not files', async () => {
+			write('build/bundle.js', 'x'.repeat(2048));
+			fs.symlinkSync(path.join(root_path, 'missing.txt'), path.join(root_path, 'dangling.txt'));
+			const query = createIngestionQuery({
+				local_path: root_path,
+				slug: 'repo',
+				max_file_size: 1024,
+				diff: createWorkingTreeDiff(WorkingTreeChanges.UNSTAGED),
+			});
+
+			const result = await readDiff(query);
+
+			const bundle = result.files.find(file => file.path === 'build/bundle.js');
+			assert.strictEqual(bundle?.patch, 'diff --git a/build/bundle.js b/build/bundle.js\nnew file\n[File larger than the maximum file size (1024 bytes)]\n');
+			assert.strictEqual(bundle?.additions, 0);
+			assert.match(result.files.find(file => file.path === 'dangling.txt')?.patch ?? '', /new file\n\[Not a file\]\n$/);
+			assert.strictEqual(result.files.find(file => file.path === 'untracked.txt')?.additions, 2);
+		});
+
+		test('reads the commits ahead of the upstream branch', async () => {
+			git('branch', '--set-upstream-to=main');
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo', diff: createUnpushedDiff() });
+			const result = await readDiff(query);
+
+			assert.strictEqual(result.base_commit, git('rev-parse', 'main').trim());
+			assert.strictEqual(result.commit_count, 2);
+		});
+
+		test('rejects unpushed commits without an upstream branch', async () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo', diff: createUnpushedDiff() });
+
+			await assert.rejects(readDiff(query), /The current branch has no upstream branch/);
+		});
+
+		test('reads the changes of a repository with no commits yet', async () => {
+			fs.rmSync(path.join(root_path, '.git'), { recursive: true, force: true });
+			git('init', '-q', '-b', 'main');
+			git('add', 'kept.txt');
+			const diffQuery = (changes: WorkingTreeChanges) => createIngestionQuery({
+				local_path: root_path, slug: 'repo', diff: createWorkingTreeDiff(changes)
+			});
+
+			const [staged_summary, , staged_content] = await ingestQuery(diffQuery(WorkingTreeChanges.STAGED));
+			const unstaged = await readDiff(diffQuery(WorkingTreeChanges.UNSTAGED));
+
+			assert.match(staged_summary, /^Base: none, no commits yet$/m);
+			assert.match(staged_summary, /^ {2}A kept\.txt \(\+3 -0\)$/m);
+			assert.ok(staged_content.includes('+one\n+2\n+3\n'));
+			assert.strictEqual(unstaged.base_commit, undefined);
+			assert.ok(unstaged.files.some(file => file.path === 'untracked.txt' && file.status === ChangeStatus.ADDED));
+			assert.ok(!unstaged.files.some(file => file.path === 'kept.txt'));
+		});
+
+		test('finds the root of the repository', async () => {
+			assert.strictEqual(await findRepositoryRoot(path.join(root_path, 'src')), fs.realpathSync(root_path));
+			await assert.rejects(findRepositoryRoot(os.tmpdir()), /is not in a Git repository/);
+		});
+	});
+
+	suite('ingestQuery in diff mode', () => {
+		test('ingests the patches with the range in the summary', async () => {
+			const [summary, tree, content] = await ingestQuery(diffQuery('main..feature', { ignore_patterns: new Set(['*.md']) }));
+
+			assert.match(summary, /^Diff: main\.\.feature$/m);
+			assert.match(summary, /^Commits: 2$/m);
+			assert.match(summary, /^Changed files: 4 \(1 modified, 1 deleted, 1 added, 1 renamed\), \+2 -2 lines$/m);
+			assert.match(summary, /^ {2}R src\/old_name\.ts -> src\/new_name\.ts \(\+0 -0\)$/m);
+			assert.ok(!tree.includes('notes.md'));
+			assert.ok(content.includes('File: src/new_name.ts (renamed from src/old_name.ts)'));
+			assert.ok(content.includes('File: removed.txt (deleted)'));
+			assert.ok(content.includes('-gone soon'));
+		});
+
+		test('adds the full content of the files that still exist', async () => {
+			fs.writeFileSync(path.join(root_path, 'image.bin'), Buffer.from([0, 159, 146, 150, 0, 1]));
+			git('add', '-A');
+			git('commit', '-q', '-m', 'add binary');
+
+			const [, tree, content] = await ingestQuery(diffQuery('main..feature', {}, true));
+
+			assert.match(tree, /kept\.txt\n.*kept\.txt\.diff\n/);
+			assert.match(content, /File: kept\.txt \(modified\)\n/);
+			assert.match(content, /File: kept\.txt \(full content\)\n=+\n\none\n2\nthree\n/);
+			assert.match(content, /File: src\/new_name\.ts \(full content\)\n=+\n\nexport const value = 1;\n/);
+			assert.match(content, /File: image\.bin \(full content\)\n=+\n\n\[Non-text file\]\n/);
+			assert.ok(!content.includes('File: removed.txt (full content)'));
+		});
+
+		test('diffs the refs of a cloned source', async () => {
+			const bare_path = `${root_path}.git`;
+			execFileSync('git', ['clone', '-q', '--bare', root_path, bare_path]);
+
+			try {
+				const [summary, tree] = await ingestAsync(
+					`file://${bare_path}`, undefined, undefined, undefined, undefined, undefined, { diff: 'main..feature' }
+				);
+
+				assert.match(summary, /^Commits: 2$/m);
+				assert.match(summary, /^ {2}R src\/old_name\.ts -> src\/new_name\.ts \(\+0 -0\)$/m);
+				assert.ok(tree.includes('notes.md'));
+			} finally {
+				fs.rmSync(bare_path, { recursive: true, force: true });
+			}
+		});
+	});
+});
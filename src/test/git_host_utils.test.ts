@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { GitingestConfigError } from '../gitingest/errors/exceptions';
+import { GitHostFlavor } from '../gitingest/types/git_host_schema';
+import {
+	getGitHost,
+	listGitHosts,
+	loadGitHostsFile,
+	parseGitHostSpec,
+	parseRepositoryPath,
+	registerGitHost,
+	resetGitHosts
+} from '../gitingest/utils/git_host_utils';
+
+suite('Git Host Utils Test Suite', () => {
+	teardown(() => {
+		resetGitHosts();
+	});
+
+	suite('registry', () => {
+		test('registers the public services by default', () => {
+			assert.deepStrictEqual(listGitHosts(), ['github.com', 'gitlab.com', 'bitbucket.org', 'gitea.com', 'codeberg.org']);
+			assert.strictEqual(getGitHost('GitLab.com')?.flavor, GitHostFlavor.GITLAB);
+			assert.strictEqual(getGitHost('git.corp.example'), undefined);
+		});
+
+		test('registers self-hosted services until reset', () => {
+			assert.deepStrictEqual(registerGitHost('Git.Corp.Example', 'gitea'), { host: 'git.corp.example', flavor: GitHostFlavor.GITEA });
+			assert.strictEqual(getGitHost('git.corp.example')?.flavor, GitHostFlavor.GITEA);
+
+			resetGitHosts();
+
+			assert.strictEqual(getGitHost('git.corp.example'), undefined);
+		});
+
+		test('rejects invalid hosts and flavors', () => {
+			assert.throws(() => registerGitHost('https://git.corp.example', 'gitlab'), /Invalid Git host/);
+			assert.throws(() => registerGitHost('git.corp.example', 'gogs'), /Unknown flavor 'gogs'.*github, gitlab, gitea, bitbucket/);
+		});
+
+		test('parses host specifications', () => {
+			assert.deepStrictEqual(parseGitHostSpec('git.corp.example=gitlab'), ['git.corp.example', 'gitlab']);
+			assert.throws(() => parseGitHostSpec('git.corp.example'), /expected <host>=<flavor>/);
+		});
+	});
+
+	suite('loadGitHostsFile', () => {
+		let temp_path: string;
+
+		setup(() => {
+			temp_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		});
+
+		teardown(() => {
+			fs.rmSync(temp_path, { recursive: true, force: true });
+		});
+
+		test('registers the hosts of the [hosts] table', async () => {
+			const file_path = path.join(temp_path, 'hosts.toml');
+			fs.writeFileSync(file_path, '[hosts]\n"git.corp.example" = "gitlab"\n"code.corp.example" = "github"\n');
+
+			const hosts = await loadGitHostsFile(file_path);
+
+			assert.deepStrictEqual(hosts.map(host => host.host), ['git.corp.example', 'code.corp.example']);
+			assert.strictEqual(getGitHost('code.corp.example')?.flavor, GitHostFlavor.GITHUB);
+		});
+
+		test('ignores a missing file', async () => {
+			assert.deepStrictEqual(await loadGitHostsFile(path.join(temp_path, 'missing.toml')), []);
+		});
+
+		test('rejects invalid files', async () => {
+			const file_path = path.join(temp_path, 'hosts.toml');
+			fs.writeFileSync(file_path, '[hosts]\n"git.corp.example" = "svn"\n');
+			await assert.rejects(loadGitHostsFile(file_path), (error: Error) =>
+				error instanceof GitingestConfigError && /Unknown flavor 'svn'/.test(error.message)
+			);
+
+			fs.writeFileSync(file_path, 'hosts = [\n');
+			await assert.rejects(loadGitHostsFile(file_path), /invalid TOML/);
+		});
+	});
+
+	suite('parseRepositoryPath', () => {
+		const host = (flavor: GitHostFlavor) => ({ host: 'git.example.com', flavor });
+
+		test('follows the grammar of GitHub', () => {
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITHUB), '/owner/repo/tree/main/src'), {
+				user_name: 'owner', repo_name: 'repo', type: 'tree', ref_parts: ['main', 'src']
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITHUB), '/owner/repo/pull/12/files'), {
+				user_name: 'owner', repo_name: 'repo', ref_parts: [], pull_request: { number: 12, ref: 'refs/pull/12/head' }
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITHUB), '/owner/repo/issues/3'), {
+				user_name: 'owner', repo_name: 'repo', ref_parts: []
+			});
+		});
+
+		test('follows the grammar of GitLab, with subgroups', () => {
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITLAB), '/group/sub/repo/-/blob/main/a.ts'), {
+				user_name: 'group/sub', repo_name: 'repo', type: 'blob', ref_parts: ['main', 'a.ts']
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITLAB), '/group/repo/-/merge_requests/45'), {
+				user_name: 'group', repo_name: 'repo', ref_parts: [], pull_request: { number: 45, ref: 'refs/merge-requests/45/head' }
+			});
+		});
+
+		test('ends the namespace of GitLab URLs without the - segment at the first page keyword', () => {
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITLAB), '/user/repo/tree/main'), {
+				user_name: 'user', repo_name: 'repo', type: 'tree', ref_parts: ['main']
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITLAB), '/group/sub/repo/blob/main/a.ts'), {
+				user_name: 'group/sub', repo_name: 'repo', type: 'blob', ref_parts: ['main', 'a.ts']
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITLAB), '/group/repo/merge_requests/45').pull_request, {
+				number: 45, ref: 'refs/merge-requests/45/head'
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITLAB), '/group/sub/repo'), {
+				user_name: 'group/sub', repo_name: 'repo', ref_parts: []
+			});
+		});
+
+		test('follows the grammar of Gitea and Bitbucket', () => {
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITEA), '/owner/repo/src/branch/dev/docs'), {
+				user_name: 'owner', repo_name: 'repo', type: 'tree', ref_parts: ['dev', 'docs']
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITEA), '/owner/repo/src/tag/v1.2.0/docs'), {
+				user_name: 'owner', repo_name: 'repo', type: 'tree', ref_parts: ['v1.2.0', 'docs']
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.GITEA), '/owner/repo/pulls/5').pull_request, {
+				number: 5, ref: 'refs/pull/5/head'
+			});
+			assert.deepStrictEqual(parseRepositoryPath(host(GitHostFlavor.BITBUCKET), '/owner/repo/src/main/lib'), {
+				user_name: 'owner', repo_name: 'repo', type: 'tree', ref_parts: ['main', 'lib']
+			});
+		});
+
+		test('rejects the pull requests of Bitbucket Cloud, which publishes no refs for them', () => {
+			assert.throws(
+				() => parseRepositoryPath(host(GitHostFlavor.BITBUCKET), '/owner/repo/pull-requests/9'),
+				/Pull request URLs of git\.example\.com cannot be ingested: bitbucket does not publish the refs/
+			);
+		});
+
+		test('rejects paths without a repository', () => {
+			assert.throws(() => parseRepositoryPath(host(GitHostFlavor.GITLAB), '/repo/-/tree/main'), /Invalid repository path/);
+		});
+	});
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ingestAsync } from '../gitingest/entrypoint';
+import { parseQuery } from '../gitingest/query_parsing';
+import { isBareRepository, resolveGitSource } from '../gitingest/utils/git_source_utils';
+
+suite('Git Source Utils Test Suite', () => {
+	let temp_path: string;
+	let bare_path: string;
+
+	setup(() => {
+		temp_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		const work_path = path.join(temp_path, 'work');
+		bare_path = path.join(temp_path, 'mirrors', 'repo.git');
+		fs.mkdirSync(work_path);
+		const git = (...args: string[]) => execFileSync(
+			'git',
+			['-C', work_path, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args]
+		);
+		git('init', '-q', '-b', 'main');
+		fs.writeFileSync(path.join(work_path, 'README.md'), '# Mirrored\n');
+		git('add', '-A');
+		git('commit', '-q', '-m', 'initial');
+		execFileSync('git', ['clone', '-q', '--bare', work_path, bare_path]);
+	});
+
+	teardown(() => {
+		fs.rmSync(temp_path, { recursive: true, force: true });
+	});
+
+	suite('resolveGitSource', () => {
+		test('recognizes ssh and scp-like URLs', async () => {
+			assert.deepStrictEqual(
+				await resolveGitSource('git@github.com:org/repo.git'),
+				{ url: 'git@github.com:org/repo.git', owner: 'org', repo_name: 'repo' }
+			);
+			assert.deepStrictEqual(
+				await resolveGitSource('ssh://git@git.example.com:2222/group/sub/repo.git'),
+				{ url: 'ssh://git@git.example.com:2222/group/sub/repo.git', owner: 'group/sub', repo_name: 'repo' }
+			);
+			assert.deepStrictEqual(
+				await resolveGitSource('git@example.com:~/repo'),
+				{ url: 'git@example.com:~/repo', owner: undefined, repo_name: 'repo' }
+			);
+		});
+
+		test('recognizes file URLs and bare repository paths', async () => {
+			assert.deepStrictEqual(
+				await resolveGitSource('file:///srv/mirrors/repo.git'),
+				{ url: 'file:///srv/mirrors/repo.git', owner: 'srv/mirrors', repo_name: 'repo' }
+			);
+			const source = await resolveGitSource(bare_path);
+			assert.strictEqual(source?.url, bare_path);
+			assert.strictEqual(source?.repo_name, 'repo');
+		});
+
+		test('leaves HTTP URLs, slugs and directories to the other parsers', async () => {
+			assert.strictEqual(await resolveGitSource('https://github.com/org/repo'), undefined);
+			assert.strictEqual(await resolveGitSource('org/repo'), undefined);
+			assert.strictEqual(await resolveGitSource(path.join(temp_path, 'work')), undefined);
+			assert.strictEqual(await resolveGitSource(path.join(bare_path, 'refs')), undefined);
+		});
+
+		test('rejects URLs without a repository name', async () => {
+			await assert.rejects(resolveGitSource('ssh://git@example.com/'), /no repository name/);
+		});
+	});
+
+	test('isBareRepository only accepts the root of a bare repository', async () => {
+		assert.strictEqual(await isBareRepository(bare_path), true);
+		assert.strictEqual(await isBareRepository(path.join(temp_path, 'work')), false);
+		assert.strictEqual(await isBareRepository(path.join(temp_path, 'missing')), false);
+	});
+
+	test('parseQuery clones ssh URLs as they are', async () => {
+		const query = await parseQuery({ source: 'git@github.com:org/repo.git', max_file_size: 0, from_web: false });
+
+		assert.strictEqual(query.url, 'git@github.com:org/repo.git');
+		assert.strictEqual(query.slug, 'org-repo');
+		assert.strictEqual(query.subpath, '/');
+	});
+
+	test('ingests a bare repository through a clone', async () => {
+		const [summary, tree, content] = await ingestAsync(bare_path);
+
+		assert.match(summary, /^Repository: .*mirrors\/repo$/m);
+		assert.ok(tree.includes('README.md'));
+		assert.ok(content.includes('# Mirrored'));
+	});
+});
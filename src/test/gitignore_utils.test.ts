@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { buildFileSystemTree } from '../gitingest/ingestion';
+import { createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { isGitignored, parseGitignore, readInheritedGitignoreRules } from '../gitingest/utils/gitignore_utils';
+import { collectFiles } from '../gitingest/utils/token_budget_utils';
+
+const base = path.resolve('/repo');
+
+/**
+ * Check whether a path, relative to the base directory, is ignored by the content of a `.gitignore` file.
+ */
+function ignored(content: string, path_str: string, is_directory: boolean = false): boolean {
+	return isGitignored(path.join(base, ...path_str.split('/')), is_directory, parseGitignore(content, base));
+}
+
+suite('Gitignore Utils Test Suite', () => {
+	suite('parseGitignore', () => {
+		test('skips blank lines and comments and unescapes special first characters', () => {
+			const rules = parseGitignore('# comment\n\n*.log  \n\\#notes\n\\!important\n', base);
+
+			assert.deepStrictEqual(rules.map(rule => rule.pattern), ['*.log', '\\#notes', '\\!important']);
+			assert.ok(ignored('\\#notes', '#notes'));
+			assert.ok(ignored('\\!important', '!important'));
+			assert.ok(!ignored('\\!important', 'important'));
+		});
+
+		test('records negation and directory-only rules', () => {
+			const [negated, directory] = parseGitignore('!keep.log\nbuild/\n', base);
+
+			assert.strictEqual(negated.glob.negated, true);
+			assert.strictEqual(negated.glob.directory_only, false);
+			assert.strictEqual(directory.glob.negated, false);
+			assert.strictEqual(directory.glob.directory_only, true);
+			assert.strictEqual(directory.base, base);
+		});
+	});
+
+	suite('isGitignored', () => {
+		test('patterns without a slash match names at any depth', () => {
+			assert.ok(ignored('*.log', 'debug.log'));
+			assert.ok(ignored('*.log', 'src/deep/debug.log'));
+			assert.ok(ignored('node_modules', 'packages/app/node_modules', true));
+			assert.ok(!ignored('*.log', 'debug.log.txt'));
+		});
+
+		test('patterns with a slash are anchored to the directory of the file', () => {
+			assert.ok(ignored('/build', 'build', true));
+			assert.ok(!ignored('/build', 'app/build', true));
+			assert.ok(ignored('docs/*.md', 'docs/a.md'));
+			assert.ok(!ignored('docs/*.md', 'src/docs/a.md'));
+			assert.ok(!ignored('docs/*.md', 'docs/deep/a.md'));
+		});
+
+		test('directory-only patterns do not match files', () => {
+			assert.ok(ignored('build/', 'build', true));
+			assert.ok(ignored('build/', 'src/build', true));
+			assert.ok(!ignored('build/', 'build'));
+		});
+
+		test('double asterisks match any number of directories', () => {
+			assert.ok(ignored('**/temp', 'temp', true));
+			assert.ok(ignored('**/temp', 'a/b/temp', true));
+			assert.ok(ignored('logs/**/*.log', 'logs/a.log'));
+			assert.ok(ignored('logs/**/*.log', 'logs/a/b/a.log'));
+			assert.ok(ignored('vendor/**', 'vendor/lib/a.js'));
+			assert.ok(!ignored('vendor/**', 'vendor', true));
+			assert.ok(!ignored('vendor/**\n!vendor/keep.js', 'vendor/keep.js'));
+		});
+
+		test('matches braces and escaped characters literally', () => {
+			assert.ok(ignored('{a,b}.txt', '{a,b}.txt'));
+			assert.ok(!ignored('{a,b}.txt', 'a.txt'));
+			assert.ok(ignored('\\{a\\}.txt', '{a}.txt'));
+			assert.ok(ignored('file\\*.txt', 'file*.txt'));
+			assert.ok(!ignored('file\\*.txt', 'file1.txt'));
+			assert.ok(ignored('trailing\\ ', 'trailing '));
+		});
+
+		test('supports character classes and single-character wildcards', () => {
+			assert.ok(ignored('file[0-9].txt', 'file3.txt'));
+			assert.ok(!ignored('file[!0-9].txt', 'file3.txt'));
+			assert.ok(ignored('file[!0-9].txt', 'fileA.txt'));
+			assert.ok(ignored('?.txt', 'a.txt'));
+			assert.ok(!ignored('?.txt', 'ab.txt'));
+		});
+
+		test('the last matching rule wins', () => {
+			assert.ok(!ignored('*.log\n!keep.log', 'keep.log'));
+			assert.ok(ignored('*.log\n!keep.log', 'other.log'));
+			assert.ok(ignored('!keep.log\n*.log', 'keep.log'));
+		});
+
+		test('rules do not match paths outside their directory', () => {
+			const rules = parseGitignore('*.log', path.join(base, 'src'));
+
+			assert.ok(isGitignored(path.join(base, 'src', 'a.log'), false, rules));
+			assert.ok(!isGitignored(path.join(base, 'a.log'), false, rules));
+			assert.ok(!isGitignored(path.join(base, 'src'), true, rules));
+		});
+	});
+
+	suite('readInheritedGitignoreRules', () => {
+		let root_path: string;
+
+		setup(() => {
+			root_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+			execFileSync('git', ['-C', root_path, 'init', '-q']);
+			fs.mkdirSync(path.join(root_path, 'packages', 'app', 'src'), { recursive: true });
+			fs.writeFileSync(path.join(root_path, '.git', 'info', 'exclude'), 'secret.txt\n');
+			fs.writeFileSync(path.join(root_path, '.gitignore'), '*.log\n/packages/app/dist/\n');
+			fs.writeFileSync(path.join(root_path, 'packages', '.gitignore'), '!keep.log\n');
+			fs.writeFileSync(path.join(root_path, 'packages', 'app', '.gitignore'), 'coverage/\n');
+		});
+
+		teardown(() => {
+			fs.rmSync(root_path, { recursive: true, force: true });
+		});
+
+		test('reads the exclude file and the files of the parent directories, not of the directory itself', async () => {
+			const rules = await readInheritedGitignoreRules(root_path, path.join(root_path, 'packages', 'app'));
+
+			assert.deepStrictEqual(rules.map(rule => rule.pattern), ['secret.txt', '*.log', '/packages/app/dist/', '!keep.log']);
+			assert.deepStrictEqual(
+				rules.map(rule => path.relative(root_path, rule.base)),
+				['', '', '', 'packages']
+			);
+		});
+
+		test('reads only the exclude file for the root itself', async () => {
+			const rules = await readInheritedGitignoreRules(root_path, root_path);
+
+			assert.deepStrictEqual(rules.map(rule => rule.pattern), ['secret.txt']);
+		});
+
+		test('applies the rules of the repository when a subdirectory is ingested', async () => {
+			const app_path = path.join(root_path, 'packages', 'app');
+			for (const file of ['index.ts', 'debug.log', 'keep.log', 'secret.txt', 'dist/bundle.js', 'coverage/lcov.info', 'src/main.ts']) {
+				fs.mkdirSync(path.dirname(path.join(app_path, file)), { recursive: true });
+				fs.writeFileSync(path.join(app_path, file), 'content\n');
+			}
+
+			const root = await buildFileSystemTree(createIngestionQuery({ local_path: app_path, slug: 'app' }));
+
+			assert.deepStrictEqual(
+				collectFiles(root).map(file => file.path_str.split(path.sep).join('/')).sort(),
+				['.gitignore', 'index.ts', 'keep.log', 'src/main.ts']
+			);
+		});
+	});
+});
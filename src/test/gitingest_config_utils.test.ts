@@ -0,0 +1,247 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { GitingestConfigError } from '../gitingest/errors/exceptions';
+import { buildFileSystemTree } from '../gitingest/ingestion';
+import { applyPatterns, parseQuery } from '../gitingest/query_parsing';
+import { OutputFormat, createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { parseGitingestConfig, scopePattern } from '../gitingest/utils/gitingest_config_utils';
+import { compileGlob, matchGlob } from '../gitingest/utils/glob_utils';
+import { collectFiles } from '../gitingest/utils/token_budget_utils';
+
+/**
+ * Parse a `.gitingest` file, expecting it to fail, and return the error.
+ */
+function parseError(content: string, is_root: boolean = true): GitingestConfigError {
+	try {
+		parseGitingestConfig(content, '/repo/.gitingest', is_root);
+	} catch (error) {
+		assert.ok(error instanceof GitingestConfigError);
+		return error;
+	}
+	assert.fail('expected a GitingestConfigError');
+}
+
+/**
+ * Run a function, and return its result with the warnings it printed.
+ */
+async function withWarnings<T>(run: () => T | Promise<T>): Promise<[T, string[]]> {
+	const warnings: string[] = [];
+	const warn = console.warn;
+	console.warn = (message: string) => warnings.push(message);
+	try {
+		return [await run(), warnings];
+	} finally {
+		console.warn = warn;
+	}
+}
+
+suite('Gitingest Config Test Suite', () => {
+	suite('parseGitingestConfig', () => {
+		test('reads every setting of the root file', () => {
+			const config = parseGitingestConfig([
+				'[config]',
+				'ignore_patterns = ["tests/", "*.snap"]',
+				'include_patterns = "src/"',
+				'max_file_size = 1024',
+				'max_depth = 5',
+				'output_format = "markdown"',
+				'tokenizer = "o200k_base"',
+				'header = "Review this."',
+				'',
+				'[config.notebook]',
+				'include_output = false',
+			].join('\n'), '/repo/.gitingest', true);
+
+			assert.deepStrictEqual(config.ignore_patterns, ['tests/', '*.snap']);
+			assert.deepStrictEqual(config.include_patterns, ['src/']);
+			assert.strictEqual(config.max_file_size, 1024);
+			assert.strictEqual(config.max_depth, 5);
+			assert.strictEqual(config.output_format, OutputFormat.MARKDOWN);
+			assert.strictEqual(config.tokenizer, 'o200k_base');
+			assert.strictEqual(config.header, 'Review this.');
+			assert.deepStrictEqual(config.notebook, { include_output: false });
+		});
+
+		test('an empty file has no settings', () => {
+			assert.deepStrictEqual(parseGitingestConfig('', '/repo/.gitingest', true), {});
+		});
+
+		test('syntax errors point at their line', () => {
+			const error = parseError('[config]\nignore_patterns = ["a",\nmax_depth = ');
+			assert.ok(error.message.startsWith('/repo/.gitingest:'));
+			assert.ok(error.line !== undefined && error.line >= 2);
+			assert.ok(error.message.includes('invalid TOML'));
+		});
+
+		test('unknown keys are rejected with their line', () => {
+			const error = parseError('[config]\nmax_depth = 2\nignore_pattern = "a"\n');
+			assert.strictEqual(error.line, 3);
+			assert.ok(error.message.includes("unknown key 'ignore_pattern'"));
+
+			assert.strictEqual(parseError('ignore_patterns = "a"\n').line, 1);
+			assert.strictEqual(parseError('[config.notebook]\noutputs = true\n').line, 2);
+		});
+
+		test('values of the wrong type are rejected with their line', () => {
+			const error = parseError('[config]\n\nmax_file_size = "1MB"\n');
+			assert.strictEqual(error.line, 3);
+			assert.ok(error.message.includes('expected a positive integer, got the string "1MB"'));
+
+			assert.ok(parseError('[config]\nmax_files = 0\n').message.includes('positive integer'));
+			assert.ok(parseError('[config]\noutput_format = "html"\n').message.includes('"markdown"'));
+			assert.ok(parseError('[config]\ntokenizer = "nope"\n').message.includes('tokenizer'));
+			assert.ok(parseError('[config]\nignore_patterns = [1]\n').message.includes('list of strings'));
+			assert.ok(parseError('[config.notebook]\ninclude_output = "no"\n').message.includes('boolean'));
+		});
+
+		test('invalid patterns are rejected', () => {
+			const error = parseError('[config]\nignore_patterns = ["ok", "src/[a"]\n');
+			assert.strictEqual(error.line, 2);
+			assert.ok(error.message.includes("'ignore_patterns'"));
+		});
+
+		test('nested files only accept subtree settings', () => {
+			const config = parseGitingestConfig(
+				'[config]\nignore_patterns = "gen/"\nmax_file_size = 10\n[config.notebook]\ninclude_output = false\n',
+				'/repo/src/.gitingest',
+				false
+			);
+			assert.deepStrictEqual(config.ignore_patterns, ['gen/']);
+			assert.strictEqual(config.max_file_size, 10);
+
+			const error = parseError('[config]\nignore_patterns = "gen/"\nheader = "hi"\n', false);
+			assert.strictEqual(error.line, 3);
+			assert.ok(error.message.includes("'header' can only be set"));
+		});
+
+		test('lenient files skip the invalid settings with a warning naming their line', async () => {
+			const [config, warnings] = await withWarnings(() => parseGitingestConfig(
+				'[config]\nignore_patterns = "gen/"\nheader = "hi"\nmax_file_size = "1MB"\nignore_pattern = "a"\n' +
+				'[config.notebook]\ninclude_output = "no"\n',
+				'/repo/src/.gitingest',
+				false,
+				false
+			));
+
+			assert.deepStrictEqual(config, { ignore_patterns: ['gen/'], notebook: {} });
+			assert.strictEqual(warnings.length, 4);
+			assert.ok(warnings.every(warning => warning.includes('/repo/src/.gitingest:')));
+			assert.ok(warnings.some(warning => warning.includes('.gitingest:3') && warning.includes("'header'")));
+			assert.ok(warnings.some(warning => warning.includes('.gitingest:7') && warning.includes('boolean')));
+		});
+
+		test('lenient files that are not valid TOML are skipped whole', async () => {
+			const [config, warnings] = await withWarnings(
+				() => parseGitingestConfig('[config]\nignore_patterns = ["a",\n', '/repo/.gitingest', true, false)
+			);
+
+			assert.deepStrictEqual(config, {});
+			assert.strictEqual(warnings.length, 1);
+			assert.ok(warnings[0].includes('invalid TOML'));
+		});
+	});
+
+	suite('ingestion', () => {
+		let root_path: string;
+
+		setup(() => {
+			root_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+			fs.mkdirSync(path.join(root_path, 'src', 'gen'), { recursive: true });
+			fs.writeFileSync(path.join(root_path, 'README.md'), '# Repo\n');
+			fs.writeFileSync(path.join(root_path, 'src', 'main.ts'), 'export {};\n');
+			fs.writeFileSync(path.join(root_path, 'src', 'gen', 'out.ts'), 'export {};\n');
+			fs.writeFileSync(path.join(root_path, 'src', '.gitingest'), '[config]\nignore_patterns = "gen/"\nheader = "hi"\n');
+		});
+
+		teardown(() => {
+			fs.rmSync(root_path, { recursive: true, force: true });
+		});
+
+		test('nested files with invalid settings do not abort the ingestion', async () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo' });
+
+			const [root, warnings] = await withWarnings(() => buildFileSystemTree(query));
+
+			assert.deepStrictEqual(
+				collectFiles(root).map(file => file.path_str.split(path.sep).join('/')).sort(),
+				['README.md', 'src/.gitingest', 'src/main.ts']
+			);
+			assert.strictEqual(query.header, undefined);
+			assert.strictEqual(warnings.length, 1);
+			assert.ok(warnings[0].includes(`${path.join(root_path, 'src', '.gitingest')}:3`));
+		});
+
+		test('the root file of a local directory stays strict, the one of a cloned repository does not', async () => {
+			fs.writeFileSync(path.join(root_path, '.gitingest'), '[config]\nmax_depth = "deep"\n');
+
+			await assert.rejects(
+				buildFileSystemTree(createIngestionQuery({ local_path: root_path, slug: 'repo' })),
+				GitingestConfigError
+			);
+			const [, warnings] = await withWarnings(() => buildFileSystemTree(
+				createIngestionQuery({ local_path: root_path, slug: 'repo', url: 'https://github.com/owner/repo' })
+			));
+			assert.strictEqual(warnings.length, 2);
+		});
+
+		test('the root file only replaces the settings the caller did not set, even when set to their default', async () => {
+			fs.writeFileSync(
+				path.join(root_path, '.gitingest'),
+				'[config]\noutput_format = "json"\ntokenizer = "approx"\nmax_file_size = 10\nmax_depth = 2\n'
+			);
+			const implicit = await parseQuery({ source: root_path, from_web: false });
+			const explicit = await parseQuery({
+				source: root_path, from_web: false, output_format: OutputFormat.TEXT, tokenizer: 'o200k_base', max_file_size: implicit.max_file_size
+			});
+			const from_settings = applyPatterns(implicit, { output_format: OutputFormat.TEXT });
+			const from_api = createIngestionQuery({ local_path: root_path, slug: 'repo', max_depth: implicit.max_depth });
+
+			for (const query of [implicit, explicit, from_settings, from_api]) {
+				await buildFileSystemTree(query);
+			}
+
+			assert.deepStrictEqual(
+				[implicit.output_format, implicit.tokenizer, implicit.max_file_size, implicit.max_depth],
+				[OutputFormat.JSON, 'approx', 10, 2]
+			);
+			assert.deepStrictEqual(
+				[explicit.output_format, explicit.tokenizer, explicit.max_file_size > 10, explicit.max_depth],
+				[OutputFormat.TEXT, 'o200k_base', true, 2]
+			);
+			assert.deepStrictEqual([from_settings.output_format, from_settings.tokenizer], [OutputFormat.TEXT, 'approx']);
+			assert.deepStrictEqual([from_api.output_format, from_api.max_depth > 2], [OutputFormat.JSON, true]);
+		});
+	});
+
+	suite('scopePattern', () => {
+		test('leaves root patterns unchanged', () => {
+			assert.strictEqual(scopePattern('*.ts', ''), '*.ts');
+			assert.strictEqual(scopePattern('!src/a.ts', ''), '!src/a.ts');
+		});
+
+		test('prefixes anchored patterns with the directory', () => {
+			assert.strictEqual(scopePattern('gen/out.ts', 'src'), 'src/gen/out.ts');
+			assert.strictEqual(scopePattern('/build', 'src'), 'src/build');
+			assert.strictEqual(scopePattern('!gen/keep.ts', 'src'), '!src/gen/keep.ts');
+		});
+
+		test('unanchored patterns match at any depth below the directory', () => {
+			const glob = compileGlob(scopePattern('*.snap', 'pkg/a'));
+			assert.ok(matchGlob(glob, 'pkg/a/x.snap', false));
+			assert.ok(matchGlob(glob, 'pkg/a/deep/x.snap', false));
+			assert.ok(!matchGlob(glob, 'pkg/b/x.snap', false));
+			assert.ok(!matchGlob(glob, 'x.snap', false));
+
+			assert.ok(matchGlob(compileGlob(scopePattern('gen/', 'src')), 'src/gen', true));
+		});
+
+		test('escapes special characters of the directory', () => {
+			const glob = compileGlob(scopePattern('*.ts', 'a[1]'));
+			assert.ok(matchGlob(glob, 'a[1]/x.ts', false));
+			assert.ok(!matchGlob(glob, 'a1/x.ts', false));
+		});
+	});
+});
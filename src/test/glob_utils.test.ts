@@ -0,0 +1,371 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { InvalidPatternError } from '../gitingest/errors/exceptions';
+import { parsePatterns, parseQuery } from '../gitingest/query_parsing';
+import {
+	appendPatterns,
+	compileGlob,
+	escapeGlob,
+	globCouldMatchInside,
+	matchGlob,
+	validateGlob
+} from '../gitingest/utils/glob_utils';
+import { shouldExclude, shouldInclude } from '../gitingest/utils/ingestion_utils';
+import { normalizePattern } from '../gitingest/utils/query_parser_utils';
+
+/**
+ * Check whether a path matches a pattern.
+ */
+function matches(pattern: string, path_str: string, is_directory: boolean = false): boolean {
+	return matchGlob(compileGlob(pattern), path_str, is_directory);
+}
+
+suite('Glob Engine Test Suite', () => {
+	suite('matchGlob', () => {
+		test('matches whole names, not substrings', () => {
+			assert.ok(matches('*.ts', 'a.ts'));
+			assert.ok(!matches('*.ts', 'a.tsx'));
+			assert.ok(!matches('*.ts', 'foo.tsx.bak'));
+			assert.ok(!matches('out', 'output_formatters.ts'));
+			assert.ok(!matches('bin/', 'robin', true));
+			assert.ok(matches('bin/', 'bin', true));
+		});
+
+		test('patterns without a slash match at any depth', () => {
+			assert.ok(matches('*.ts', 'src/a.ts'));
+			assert.ok(matches('*.ts', 'src/deep/nested/a.ts'));
+			assert.ok(matches('node_modules', 'packages/app/node_modules', true));
+			assert.ok(matches('README.md', 'docs/README.md'));
+		});
+
+		test('patterns with a slash are anchored to the root', () => {
+			assert.ok(matches('src/*.ts', 'src/a.ts'));
+			assert.ok(!matches('src/*.ts', 'lib/src/a.ts'));
+			assert.ok(matches('/build', 'build', true));
+			assert.ok(!matches('/build', 'app/build', true));
+			assert.ok(matches('vendor/bundle', 'vendor/bundle', true));
+		});
+
+		test('single asterisk does not cross directories', () => {
+			assert.ok(!matches('src/*.ts', 'src/deep/a.ts'));
+			assert.ok(matches('src/*', 'src/a.ts'));
+			assert.ok(!matches('src/*', 'src/deep/a.ts'));
+			assert.ok(matches('a*b', 'aXYZb'));
+			assert.ok(!matches('a*b', 'a/b'));
+		});
+
+		test('double asterisk matches any number of directories', () => {
+			assert.ok(matches('src/**/*.ts', 'src/a.ts'));
+			assert.ok(matches('src/**/*.ts', 'src/deep/a.ts'));
+			assert.ok(matches('src/**/*.ts', 'src/very/deep/a.ts'));
+			assert.ok(!matches('src/**/*.ts', 'lib/a.ts'));
+			assert.ok(matches('**/test', 'test', true));
+			assert.ok(matches('**/test', 'a/b/test', true));
+			assert.ok(matches('docs/**', 'docs/guide/intro.md'));
+			assert.ok(matches('a/**/b', 'a/b'));
+			assert.ok(matches('a/**/b', 'a/x/y/b'));
+			assert.ok(matches('a/**/**/b', 'a/x/b'));
+		});
+
+		test('double asterisk inside a segment behaves like a single one', () => {
+			assert.ok(matches('a**b', 'axxb'));
+			assert.ok(!matches('src/a**.ts', 'src/a/b.ts'));
+		});
+
+		test('question mark matches exactly one character', () => {
+			assert.ok(matches('?.ts', 'a.ts'));
+			assert.ok(!matches('?.ts', 'ab.ts'));
+			assert.ok(!matches('?.ts', '.ts'));
+			assert.ok(!matches('a?b', 'a/b'));
+		});
+
+		test('character classes', () => {
+			assert.ok(matches('[Tt]est.ts', 'Test.ts'));
+			assert.ok(matches('[Tt]est.ts', 'test.ts'));
+			assert.ok(!matches('[Tt]est.ts', 'best.ts'));
+			assert.ok(matches('file[0-9].txt', 'file7.txt'));
+			assert.ok(!matches('file[0-9].txt', 'fileA.txt'));
+			assert.ok(matches('file[!0-9].txt', 'fileA.txt'));
+			assert.ok(!matches('file[!0-9].txt', 'file7.txt'));
+			assert.ok(matches('file[^0-9].txt', 'fileA.txt'));
+			assert.ok(matches('[]]x', ']x'));
+		});
+
+		test('unclosed brackets are literal', () => {
+			assert.ok(matches('a[b', 'a[b'));
+			assert.ok(!matches('a[b', 'ab'));
+		});
+
+		test('brace alternatives', () => {
+			assert.ok(matches('*.{ts,js}', 'a.ts'));
+			assert.ok(matches('*.{ts,js}', 'a.js'));
+			assert.ok(!matches('*.{ts,js}', 'a.py'));
+			assert.ok(matches('{src,lib}/**/*.ts', 'lib/x/a.ts'));
+			assert.ok(!matches('{src,lib}/**/*.ts', 'test/a.ts'));
+			assert.ok(matches('a{b,c{d,e}}f', 'acef'));
+			assert.ok(matches('a{b,c{d,e}}f', 'abf'));
+			assert.ok(!matches('a{b,c{d,e}}f', 'acf'));
+		});
+
+		test('braces without alternatives or unbalanced are literal', () => {
+			assert.ok(matches('a{b}c', 'a{b}c'));
+			assert.ok(matches('a{b,c', 'a{b,c'));
+		});
+
+		test('backslash escapes glob characters', () => {
+			assert.ok(matches('a\\*b', 'a*b'));
+			assert.ok(!matches('a\\*b', 'axb'));
+			assert.ok(matches('\\{a,b\\}', '{a,b}'));
+		});
+
+		test('regular expression characters are literal', () => {
+			assert.ok(matches('a+b.(c)', 'a+b.(c)'));
+			assert.ok(!matches('a.b', 'axb'));
+			assert.ok(matches('$x^', '$x^'));
+		});
+
+		test('trailing slash only matches directories', () => {
+			assert.ok(matches('build/', 'build', true));
+			assert.ok(!matches('build/', 'build', false));
+			assert.ok(matches('*.xcodeproj/', 'ios/App.xcodeproj', true));
+		});
+
+		test('accepts backslash separated paths', () => {
+			assert.ok(matches('src/*.ts', 'src\\a.ts'));
+		});
+
+		test('accepts spaces, at signs and hashes', () => {
+			assert.ok(matches('my docs/*.md', 'my docs/a.md'));
+			assert.ok(matches('@scope/pkg', '@scope/pkg', true));
+			assert.ok(matches('#notes.txt', '#notes.txt'));
+		});
+
+		test('negated patterns match like their positive form', () => {
+			const glob = compileGlob('!src/keep.ts');
+			assert.ok(glob.negated);
+			assert.ok(matchGlob(glob, 'src/keep.ts', false));
+			assert.ok(!compileGlob('\\!src').negated);
+		});
+	});
+
+	suite('validateGlob', () => {
+		/**
+		 * Assert that a pattern is rejected, pointing at the given position.
+		 */
+		function assertInvalid(pattern: string, position: number | undefined, reason: RegExp): void {
+			assert.throws(() => validateGlob(pattern), (error: unknown) => {
+				assert.ok(error instanceof InvalidPatternError);
+				assert.strictEqual(error.pattern, pattern);
+				assert.strictEqual(error.position, position);
+				assert.match(error.message, reason);
+				return true;
+			});
+		}
+
+		test('accepts rich patterns', () => {
+			for (const pattern of ['!src/keep.ts', '[Tt]est*', '{a,b}/**', 'my docs/*.md', '@scope/*', '#x', 'a\\{b']) {
+				assert.doesNotThrow(() => validateGlob(pattern), pattern);
+			}
+		});
+
+		test('rejects unbalanced braces', () => {
+			assertInvalid('src/{a,b', 4, /unclosed brace/);
+			assertInvalid('src/a}', 5, /unmatched closing brace/);
+		});
+
+		test('rejects unclosed character classes', () => {
+			assertInvalid('file[0-9.txt', 4, /unclosed character class/);
+			assertInvalid('a[b/c]', 3, /cannot contain a slash/);
+		});
+
+		test('rejects control characters, dangling escapes and parent references', () => {
+			assertInvalid('a\tb', 1, /control characters/);
+			assertInvalid('abc\\', 3, /dangling escape/);
+			assertInvalid('src/../etc', 4, /parent directory/);
+		});
+
+		test('rejects empty patterns', () => {
+			assertInvalid('!', undefined, /negation without a pattern/);
+			assertInvalid('  ', undefined, /empty pattern/);
+		});
+
+		test('points at the offending character in the message', () => {
+			assert.throws(() => validateGlob('src/{a,b'), /position 5\n {4}src\/\{a,b\n {8}\^/);
+		});
+	});
+
+	suite('globCouldMatchInside', () => {
+		test('descends into directories on the way to a match', () => {
+			const glob = compileGlob('src/**/*.ts');
+			assert.ok(globCouldMatchInside(glob, 'src'));
+			assert.ok(globCouldMatchInside(glob, 'src/deep'));
+			assert.ok(!globCouldMatchInside(glob, 'docs'));
+		});
+
+		test('anchored patterns stop at their depth', () => {
+			const glob = compileGlob('src/lib/*.ts');
+			assert.ok(globCouldMatchInside(glob, 'src'));
+			assert.ok(globCouldMatchInside(glob, 'src/lib'));
+			assert.ok(!globCouldMatchInside(glob, 'src/lib/deep'));
+			assert.ok(!globCouldMatchInside(glob, 'src/other'));
+		});
+
+		test('unanchored patterns may match in any directory', () => {
+			const glob = compileGlob('*.ts');
+			assert.ok(globCouldMatchInside(glob, 'docs'));
+			assert.ok(globCouldMatchInside(glob, 'a/b/c'));
+		});
+
+		test('brace alternatives are considered', () => {
+			const glob = compileGlob('{src,lib}/*.ts');
+			assert.ok(globCouldMatchInside(glob, 'lib'));
+			assert.ok(!globCouldMatchInside(glob, 'test'));
+		});
+	});
+
+	suite('shouldInclude', () => {
+		const base = path.resolve('/repo');
+		const at = (relative: string) => path.join(base, relative);
+
+		test('traverses directories that could contain matches', () => {
+			const patterns = new Set(['src/**/*.ts']);
+			assert.ok(shouldInclude(at('src'), base, patterns, true));
+			assert.ok(shouldInclude(at('src/deep'), base, patterns, true));
+			assert.ok(shouldInclude(at('src/deep/a.ts'), base, patterns));
+			assert.ok(!shouldInclude(at('src/deep/a.js'), base, patterns));
+			assert.ok(!shouldInclude(at('docs'), base, patterns, true));
+		});
+
+		test('includes everything below a matching directory', () => {
+			const patterns = new Set(['src']);
+			assert.ok(shouldInclude(at('src'), base, patterns, true));
+			assert.ok(shouldInclude(at('src/a/b.md'), base, patterns));
+			assert.ok(!shouldInclude(at('lib/b.md'), base, patterns));
+		});
+
+		test('rejects paths outside the base directory', () => {
+			assert.ok(!shouldInclude(path.resolve('/elsewhere/a.ts'), base, new Set(['*.ts'])));
+		});
+
+		test('later negated rules exclude what earlier rules included', () => {
+			const patterns = new Set(['src/', '!src/generated/', 'src/generated/keep.ts']);
+			assert.ok(shouldInclude(at('src/a.ts'), base, patterns));
+			assert.ok(!shouldInclude(at('src/generated/b.ts'), base, patterns));
+			assert.ok(shouldInclude(at('src/generated/keep.ts'), base, patterns));
+			assert.ok(shouldInclude(at('src/generated'), base, patterns, true));
+		});
+
+		test('a leading negated rule includes everything else', () => {
+			const patterns = new Set(['!*.md']);
+			assert.ok(shouldInclude(at('src/a.ts'), base, patterns));
+			assert.ok(!shouldInclude(at('docs/a.md'), base, patterns));
+		});
+	});
+
+	suite('shouldExclude', () => {
+		const base = path.resolve('/repo');
+		const at = (relative: string) => path.join(base, relative);
+
+		test('does not match substrings', () => {
+			const patterns = new Set(['out', 'bin/']);
+			assert.ok(!shouldExclude(at('src/output_formatters.ts'), base, patterns));
+			assert.ok(!shouldExclude(at('robin'), base, patterns, true));
+			assert.ok(shouldExclude(at('out'), base, patterns, true));
+			assert.ok(shouldExclude(at('bin'), base, patterns, true));
+		});
+
+		test('excludes paths below an excluded directory', () => {
+			const patterns = new Set(['build/']);
+			assert.ok(shouldExclude(at('build/a.js'), base, patterns));
+			assert.ok(shouldExclude(at('app/build/a.js'), base, patterns));
+			assert.ok(!shouldExclude(at('build.ts'), base, patterns));
+		});
+
+		test('excludes paths outside the base directory', () => {
+			assert.ok(shouldExclude(path.resolve('/elsewhere/a.ts'), base, new Set<string>()));
+		});
+
+		test('excludes a directory except a re-included subdirectory', () => {
+			const patterns = new Set(['packages/', '!packages/core/']);
+			assert.ok(!shouldExclude(at('packages'), base, patterns, true));
+			assert.ok(!shouldExclude(at('packages/core'), base, patterns, true));
+			assert.ok(!shouldExclude(at('packages/core/src/index.ts'), base, patterns));
+			assert.ok(shouldExclude(at('packages/web'), base, patterns, true));
+			assert.ok(shouldExclude(at('packages/README.md'), base, patterns));
+		});
+
+		test('the last matching rule wins', () => {
+			assert.ok(!shouldExclude(at('a.log'), base, new Set(['*.log', '!a.log'])));
+			assert.ok(shouldExclude(at('a.log'), base, new Set(['!a.log', '*.log'])));
+		});
+	});
+
+	suite('escapeGlob', () => {
+		test('escaped paths match themselves literally', () => {
+			for (const path_str of ['a*b/[x].ts', 'dir {1,2}/!important?.md', 'hash#tag', 'two  spaces']) {
+				const pattern = '/' + escapeGlob(path_str);
+				validateGlob(pattern);
+				assert.ok(matches(pattern, path_str), pattern);
+			}
+			assert.ok(!matches('/' + escapeGlob('a*.ts'), 'ab.ts'));
+			assert.ok(!matches('/' + escapeGlob('[ab].ts'), 'a.ts'));
+		});
+	});
+
+	suite('appendPatterns', () => {
+		test('moves repeated patterns to the end', () => {
+			const rules = appendPatterns(new Set(['a', '!b', 'c']), ['a']);
+			assert.deepStrictEqual(Array.from(rules), ['!b', 'c', 'a']);
+		});
+	});
+
+	suite('normalizePattern', () => {
+		test('trims whitespace and collapses repeated slashes', () => {
+			assert.strictEqual(normalizePattern('  src//a/*.ts '), 'src/a/*.ts');
+		});
+
+		test('keeps anchoring and directory slashes', () => {
+			assert.strictEqual(normalizePattern('/build/'), '/build/');
+		});
+	});
+
+	suite('parsePatterns', () => {
+		test('splits strings on commas and unescaped whitespace', () => {
+			assert.deepStrictEqual(
+				Array.from(parsePatterns('*.ts, my\\ docs/ !docs/x.md')),
+				['*.ts', 'my\\ docs/', '!docs/x.md']
+			);
+		});
+
+		test('keeps the order of the patterns', () => {
+			assert.deepStrictEqual(Array.from(parsePatterns(new Set(['b', '!a', 'c']))), ['b', '!a', 'c']);
+		});
+
+		test('throws InvalidPatternError for invalid patterns', () => {
+			assert.throws(() => parsePatterns(new Set(['ok', 'src/{a'])), InvalidPatternError);
+		});
+	});
+
+	suite('parseQuery patterns', () => {
+		test('keeps brace alternatives together when splitting a string', async () => {
+			const query = await parseQuery({
+				source: '.',
+				max_file_size: 1024,
+				from_web: false,
+				include_patterns: '*.{ts,js}, docs/**',
+			});
+			assert.deepStrictEqual(Array.from(query.include_patterns!), ['*.{ts,js}', 'docs/**']);
+		});
+
+		test('treats an empty set of include patterns as no include patterns', async () => {
+			const query = await parseQuery({
+				source: '.',
+				max_file_size: 1024,
+				from_web: false,
+				include_patterns: new Set<string>(),
+			});
+			assert.strictEqual(query.include_patterns, undefined);
+		});
+	});
+});
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { IngestionCancelledError } from '../gitingest/errors/exceptions';
+import { buildDocumentTree, buildFileSystemTree, loadContents } from '../gitingest/ingestion';
+import { FileSystemNodeType } from '../gitingest/types/filesystem_schema';
+import { IngestionProgress, IngestionStage, createIngestionQuery } from '../gitingest/types/ingestion_schema';
+
+suite('Ingestion Test Suite', () => {
+	suite('buildDocumentTree', () => {
+		const root_path = path.resolve('/workspace');
+
+		test('creates the parent directories of the files', () => {
+			const root = buildDocumentTree('workspace', root_path, [
+				{ path_str: 'src/app/main.ts', path: path.join(root_path, 'src', 'app', 'main.ts'), content: 'abc' },
+				{ path_str: 'src/util.ts', path: path.join(root_path, 'src', 'util.ts'), content: 'de' },
+				{ path_str: 'README.md', path: path.join(root_path, 'README.md'), content: 'f' },
+			]);
+
+			assert.strictEqual(root.file_count, 3);
+			assert.strictEqual(root.dir_count, 2);
+			assert.strictEqual(root.size, 6);
+			assert.deepStrictEqual(root.children.map(child => child.name), ['README.md', 'src']);
+
+			const src = root.children[1];
+			assert.strictEqual(src.type, FileSystemNodeType.DIRECTORY);
+			assert.strictEqual(src.file_count, 2);
+			assert.deepStrictEqual(src.children.map(child => child.name), ['util.ts', 'app']);
+			assert.strictEqual(src.children[1].children[0].path_str, path.join('src', 'app', 'main.ts'));
+			assert.strictEqual(src.children[1].children[0].depth, 3);
+		});
+
+		test('uses the in-memory content instead of the file on disk', () => {
+			const root = buildDocumentTree('workspace', root_path, [
+				{ path_str: 'missing.ts', path: path.join(root_path, 'missing.ts'), content: 'unsaved changes' },
+			]);
+
+			assert.strictEqual(root.children[0].content, 'unsaved changes');
+		});
+
+		test('labels excerpts in the path of their file header', () => {
+			const root = buildDocumentTree('workspace', root_path, [
+				{ path_str: 'a.ts', path: path.join(root_path, 'a.ts'), content: 'x', label: 'lines 3-4' },
+				{ path_str: 'a.ts', path: path.join(root_path, 'a.ts'), content: 'y', label: 'lines 10-12' },
+			]);
+
+			assert.deepStrictEqual(root.children.map(child => child.path_str), ['a.ts (lines 3-4)', 'a.ts (lines 10-12)']);
+			assert.deepStrictEqual(root.children.map(child => child.name), ['a.ts', 'a.ts']);
+		});
+	});
+
+	suite('buildFileSystemTree', () => {
+		let root_path: string;
+
+		setup(() => {
+			root_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+			fs.mkdirSync(path.join(root_path, 'src'));
+			fs.writeFileSync(path.join(root_path, 'README.md'), 'readme');
+			fs.writeFileSync(path.join(root_path, 'src', 'a.ts'), 'a');
+			fs.writeFileSync(path.join(root_path, 'src', 'b.ts'), 'b');
+		});
+
+		teardown(() => {
+			fs.rmSync(root_path, { recursive: true, force: true });
+		});
+
+		test('reports each file found while scanning', async () => {
+			const reports: IngestionProgress[] = [];
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo' });
+			await buildFileSystemTree(query, { on_progress: report => reports.push(report) });
+
+			assert.ok(reports.every(report => report.stage === IngestionStage.SCANNING));
+			assert.deepStrictEqual(reports.map(report => report.files), [1, 2, 3]);
+			assert.deepStrictEqual(
+				reports.map(report => report.message).sort(),
+				['README.md', path.join('src', 'a.ts'), path.join('src', 'b.ts')]
+			);
+		});
+
+		test('stops when the signal is aborted', async () => {
+			const controller = new AbortController();
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo' });
+
+			await assert.rejects(
+				buildFileSystemTree(query, { signal: controller.signal, on_progress: () => controller.abort() }),
+				IngestionCancelledError
+			);
+		});
+	});
+
+	suite('loadContents', () => {
+		let root_path: string;
+
+		setup(() => {
+			root_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+			fs.writeFileSync(path.join(root_path, 'a.txt'), 'first');
+			fs.writeFileSync(path.join(root_path, 'b.bin'), Buffer.from([0, 159, 146, 150, 0, 1]));
+		});
+
+		teardown(() => {
+			fs.rmSync(root_path, { recursive: true, force: true });
+		});
+
+		test('reads every file once and caches its content', async () => {
+			const reports: IngestionProgress[] = [];
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo', max_concurrent_io: 2 });
+			const root = await buildFileSystemTree(query);
+			await loadContents(root, query, { on_progress: report => reports.push(report) });
+
+			assert.ok(reports.every(report => report.stage === IngestionStage.READING));
+			assert.deepStrictEqual(reports.map(report => report.files), [1, 2]);
+
+			fs.writeFileSync(path.join(root_path, 'a.txt'), 'second');
+			const [text, binary] = root.children;
+			assert.strictEqual(text.content, 'first');
+			assert.strictEqual(binary.content, '[Non-text file]');
+
+			text.releaseContent();
+			assert.strictEqual(text.content, 'second');
+		});
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { isSelected } from '../gitingest/utils/ingestion_utils';
+
+const base = path.resolve('/repo');
+
+/**
+ * Check whether a path relative to the base directory is selected.
+ */
+function selected(selected_paths: string[], path_str: string, is_directory: boolean = false): boolean {
+	return isSelected(path.join(base, ...path_str.split('/')), base, selected_paths, is_directory);
+}
+
+suite('Ingestion Utils Test Suite', () => {
+	suite('isSelected', () => {
+		test('selects the selected paths and everything below them', () => {
+			assert.ok(selected(['src', 'README.md'], 'README.md'));
+			assert.ok(selected(['src', 'README.md'], 'src', true));
+			assert.ok(selected(['src', 'README.md'], 'src/deep/a.ts'));
+			assert.ok(!selected(['src', 'README.md'], 'docs', true));
+			assert.ok(!selected(['src', 'README.md'], 'README.md.bak'));
+		});
+
+		test('selects the directories containing a selected path', () => {
+			assert.ok(selected(['src/app/main.ts'], 'src', true));
+			assert.ok(selected(['src/app/main.ts'], 'src/app', true));
+			assert.ok(!selected(['src/app/main.ts'], 'src/app/other.ts'));
+			assert.ok(!selected(['src/app/main.ts'], 'src/lib', true));
+		});
+
+		test('compares whole path segments', () => {
+			assert.ok(!selected(['src'], 'src2/a.ts'));
+			assert.ok(!selected(['src/app'], 'src/application', true));
+		});
+
+		test('rejects paths outside the base directory', () => {
+			assert.ok(!isSelected(path.resolve('/elsewhere/a.ts'), base, ['a.ts']));
+		});
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+
+import { getLanguageForFile } from '../gitingest/utils/language_utils';
+
+suite('Language Utils Test Suite', () => {
+	test('maps file extensions to language tags, ignoring case', () => {
+		assert.strictEqual(getLanguageForFile('main.ts'), 'typescript');
+		assert.strictEqual(getLanguageForFile('App.TSX'), 'tsx');
+		assert.strictEqual(getLanguageForFile('setup.py'), 'python');
+		assert.strictEqual(getLanguageForFile('lib.rs'), 'rust');
+		assert.strictEqual(getLanguageForFile('header.h'), 'c');
+		assert.strictEqual(getLanguageForFile('README.md'), 'markdown');
+		assert.strictEqual(getLanguageForFile('install.sh'), 'bash');
+	});
+
+	test('uses the last extension of the path', () => {
+		assert.strictEqual(getLanguageForFile('src/deep/module.test.ts'), 'typescript');
+		assert.strictEqual(getLanguageForFile('config.local.yml'), 'yaml');
+		assert.strictEqual(getLanguageForFile('archive.tar.gz'), '');
+	});
+
+	test('recognizes well-known file names without a meaningful extension', () => {
+		assert.strictEqual(getLanguageForFile('Dockerfile'), 'dockerfile');
+		assert.strictEqual(getLanguageForFile('docker/Containerfile'), 'dockerfile');
+		assert.strictEqual(getLanguageForFile('GNUmakefile'), 'makefile');
+		assert.strictEqual(getLanguageForFile('CMakeLists.txt'), 'cmake');
+		assert.strictEqual(getLanguageForFile('.gitingest'), 'toml');
+		assert.strictEqual(getLanguageForFile('.env'), 'dotenv');
+	});
+
+	test('returns an empty tag for unknown languages', () => {
+		assert.strictEqual(getLanguageForFile('LICENSE'), '');
+		assert.strictEqual(getLanguageForFile('data.unknown'), '');
+		assert.strictEqual(getLanguageForFile('.hidden'), '');
+		// Names of object properties are not languages
+		assert.strictEqual(getLanguageForFile('file.constructor'), '');
+		assert.strictEqual(getLanguageForFile('toString'), '');
+	});
+});
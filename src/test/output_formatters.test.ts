@@ -0,0 +1,338 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { Writable } from 'stream';
+
+import { IngestionCancelledError } from '../gitingest/errors/exceptions';
+import { buildDocumentTree } from '../gitingest/ingestion';
+import { createDigest, createJsonDigest, formatChunks, formatNode, writeDigest } from '../gitingest/output_formatters';
+import { FileSystemNode } from '../gitingest/types/filesystem_schema';
+import { IngestionQuery, OutputFormat, createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { collectFiles } from '../gitingest/utils/token_budget_utils';
+import { getTokenizer } from '../gitingest/utils/tokenizer_utils';
+
+const root_path = path.resolve('/workspace');
+
+/**
+ * Build a small in-memory tree.
+ */
+function createTree(): FileSystemNode {
+	return buildDocumentTree('workspace', root_path, [
+		{ path_str: 'README.md', path: path.join(root_path, 'README.md'), content: '# Title\n\nSome text.' },
+		{ path_str: 'src/app.ts', path: path.join(root_path, 'src', 'app.ts'), content: 'const a = 1 < 2;\n' },
+		{ path_str: 'src/empty/x.txt', path: path.join(root_path, 'src', 'empty', 'x.txt'), content: 'x' },
+	]);
+}
+
+/**
+ * Build an in-memory tree of many files of similar size, with a README.
+ */
+function createLargeTree(): FileSystemNode {
+	const lines = Array.from({ length: 40 }, (_, index) => `export const value_${index} = ${index};`).join('\n');
+	return buildDocumentTree('workspace', root_path, [
+		{ path_str: 'README.md', path: path.join(root_path, 'README.md'), content: '# Title\n\n' + 'Some text. '.repeat(30) },
+		...Array.from({ length: 30 }, (_, index) => {
+			const path_str = path.join('src', `module_${index}`, 'values.ts');
+			return { path_str, path: path.join(root_path, path_str), content: lines };
+		}),
+	]);
+}
+
+/**
+ * A stream collecting what is written to it, with a tiny buffer so that writers have to wait for it to drain.
+ */
+class CollectingStream extends Writable {
+	readonly chunks: string[] = [];
+
+	constructor() {
+		super({ highWaterMark: 8, decodeStrings: false });
+	}
+
+	override _write(chunk: string, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+		this.chunks.push(chunk);
+		setImmediate(callback);
+	}
+}
+
+/**
+ * Round-trip a value through JSON, dropping its undefined fields.
+ */
+function toJson(value: unknown): unknown {
+	return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Read the token count of a summary.
+ */
+function readTokens(summary: string): number {
+	return parseInt(/Tokens: ([\d,]+)/.exec(summary)![1].replace(/,/g, ''), 10);
+}
+
+/**
+ * Write the digest of the tree to a collecting stream.
+ */
+async function write(query: IngestionQuery): Promise<{ summary: string; digest: string }> {
+	const stream = new CollectingStream();
+	const summary = await writeDigest(createTree(), query, stream);
+	return { summary, digest: stream.chunks.join('') };
+}
+
+suite('Output Formatters Test Suite', () => {
+	suite('formatNode', () => {
+		for (const format of [OutputFormat.TEXT, OutputFormat.MARKDOWN, OutputFormat.XML]) {
+			test(`fits the ${format} digest within the token budget`, () => {
+				for (const max_tokens of [1500, 3000, 6000]) {
+					const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: format, max_tokens, header: 'Review this.' });
+					const [summary, tree, content] = formatNode(createLargeTree(), query);
+
+					const digest_tokens = getTokenizer(query.tokenizer).countTokens(createDigest(format, summary, tree, content));
+					assert.ok(digest_tokens <= max_tokens, `${digest_tokens} tokens for a budget of ${max_tokens}`);
+					assert.ok(content.includes('# Title'));
+					assert.match(summary, /^Omitted files \(\d+\):$/m);
+				}
+			});
+		}
+
+		test('tags Markdown code blocks with the language of the file', () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: OutputFormat.MARKDOWN });
+			const root = buildDocumentTree('workspace', root_path, [
+				{ path_str: 'main.ts', path: path.join(root_path, 'main.ts'), content: 'export {};\n' },
+				{ path_str: 'LICENSE', path: path.join(root_path, 'LICENSE'), content: 'MIT' },
+				{ path_str: 'change.patch', path: path.join(root_path, 'change.patch'), content: '+a', language: 'diff' },
+			]);
+
+			const [, , content] = formatNode(root, query);
+
+			assert.ok(content.includes('### main.ts\n\n```typescript\nexport {};\n```\n'));
+			assert.ok(content.includes('### LICENSE\n\n```\nMIT\n```\n'));
+			assert.ok(content.includes('### change.patch\n\n```diff\n+a\n```\n'));
+		});
+
+		test('widens Markdown code fences beyond the backticks of the content', () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: OutputFormat.MARKDOWN });
+			const readme = '# Usage\n\n```sh\nnpm install\n```\n\nUse `code` and ````` runs.\n';
+			const root = buildDocumentTree('workspace', root_path, [
+				{ path_str: 'README.md', path: path.join(root_path, 'README.md'), content: readme },
+				{ path_str: 'a.ts', path: path.join(root_path, 'a.ts'), content: 'const s = `template`;' },
+				{ path_str: 'odd```name', path: path.join(root_path, 'odd```name'), content: 'x' },
+			]);
+
+			const [, tree, content] = formatNode(root, query);
+
+			assert.ok(content.includes(`### README.md\n\n\`\`\`\`\`\`markdown\n${readme}\`\`\`\`\`\`\n`));
+			assert.ok(content.includes('### a.ts\n\n```typescript\nconst s = `template`;\n```\n'));
+			assert.match(tree, /\n````text\n[^]*odd```name\n````\n$/);
+		});
+
+		test('embeds XML document contents as is, in a CDATA section, or escaped', () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: OutputFormat.XML });
+			const root = buildDocumentTree('workspace', root_path, [
+				{ path_str: 'a.txt', path: path.join(root_path, 'a.txt'), content: 'plain text' },
+				{ path_str: 'b.ts', path: path.join(root_path, 'b.ts'), content: 'if (a < b && c > d) {}' },
+				{ path_str: 'c.ts', path: path.join(root_path, 'c.ts'), content: 'const end = "]]>" < x;' },
+			]);
+
+			const [, , content] = formatNode(root, query);
+
+			assert.ok(content.includes('<document_content>\nplain text\n</document_content>'));
+			assert.ok(content.includes('<document_content>\n<![CDATA[if (a < b && c > d) {}]]>\n</document_content>'));
+			assert.ok(content.includes('<document_content>\nconst end = &quot;]]&gt;&quot; &lt; x;\n</document_content>'));
+			assert.strictEqual(content.split('<![CDATA[').length, 2);
+		});
+
+		test('escapes XML markup and quotes and replaces the control characters XML does not allow', () => {
+			const query = createIngestionQuery({
+				local_path: root_path, slug: 'workspace', output_format: OutputFormat.XML, header: 'Check <this> & "that"\u0007',
+			});
+			const root = buildDocumentTree('workspace', root_path, [
+				{ path_str: 'say "hi" & <bye>.txt', path: path.join(root_path, 'say.txt'), content: 'bell\u0007 form\f tab\t\r\nend' },
+				{ path_str: 'log.txt', path: path.join(root_path, 'log.txt'), content: '\u001b[31m<red>\u0000' },
+			]);
+
+			const [summary, tree, content] = formatNode(root, query);
+			const digest = createDigest(OutputFormat.XML, summary, tree, content);
+
+			assert.ok(tree.startsWith('<header>\nCheck &lt;this&gt; &amp; &quot;that&quot;\uFFFD\n</header>\n'));
+			assert.ok(tree.includes('say &quot;hi&quot; &amp; &lt;bye&gt;.txt'));
+			assert.ok(content.includes('<source>say &quot;hi&quot; &amp; &lt;bye&gt;.txt</source>'));
+			assert.ok(content.includes('<document_content>\nbell\uFFFD form\uFFFD tab\t\r\nend\n</document_content>'));
+			assert.ok(content.includes('<document_content>\n<![CDATA[\uFFFD[31m<red>\uFFFD]]>\n</document_content>'));
+			assert.doesNotMatch(digest, /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+		});
+
+		test('marks truncated and omitted files in the directory structure and the summary', () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', max_tokens: 1500 });
+			const [summary, tree, content] = formatNode(createLargeTree(), query);
+
+			assert.match(summary, /^Token budget: 1,500$/m);
+			assert.match(summary, /^Truncated files \(1\):\n {2}- src[/\\]module_\d+[/\\]values\.ts \([\d,]+ of [\d,]+ tokens\)$/m);
+			assert.match(tree, /values\.ts \[truncated\]/);
+			assert.match(tree, /values\.ts \[omitted\]/);
+			assert.match(content, /\[\.\.\. truncated to fit the token budget: \d+ of 40 lines shown \.\.\.\]/);
+		});
+	});
+
+	suite('formatChunks', () => {
+		/**
+		 * Build an in-memory tree of a single file.
+		 */
+		function createFileTree(content: string): FileSystemNode {
+			return buildDocumentTree('workspace', root_path, [{ path_str: 'file.txt', path: path.join(root_path, 'file.txt'), content }]);
+		}
+
+		/**
+		 * Read the line ranges of the pieces of a file split across chunks.
+		 */
+		function readPieces(files: string[]): { piece: number; total: number; first_line: number; last_line: number }[] {
+			return files.map(label => {
+				const [, piece, total, first_line, last_line] = /\(piece (\d+) of (\d+), lines (\d+)-(\d+)\)$/.exec(label)!.map(Number);
+				return { piece, total, first_line, last_line };
+			});
+		}
+
+		test('starts every chunk with its part header and the directory structure', () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', chunk_bytes: 6000, header: 'Review this.' });
+			const [, tree] = formatNode(createLargeTree(), query);
+
+			const chunks = formatChunks(createLargeTree(), query);
+
+			assert.ok(chunks.length > 1);
+			chunks.forEach((chunk, index) => {
+				assert.strictEqual(chunk.part, index + 1);
+				assert.strictEqual(chunk.total, chunks.length);
+				assert.ok(chunk.content.startsWith(`Digest part ${index + 1} of ${chunks.length}\n\n${tree}\n`));
+				assert.strictEqual(chunk.bytes, Buffer.byteLength(chunk.content, 'utf-8'));
+			});
+		});
+
+		test('packs whole files into chunks within the size limit', () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', chunk_bytes: 10000 });
+			const root = createLargeTree();
+
+			const chunks = formatChunks(root, query);
+
+			const files = chunks.flatMap(chunk => chunk.files);
+			assert.deepStrictEqual(files, collectFiles(root).map(file => file.path_str));
+			assert.ok(chunks.length > 1 && chunks.length < files.length / 3);
+			for (const chunk of chunks) {
+				assert.ok(chunk.bytes <= 10000, `${chunk.bytes} bytes`);
+				for (const file of chunk.files) {
+					assert.ok(chunk.content.includes(`File: ${file}\n`));
+				}
+			}
+			// Packing is greedy: the first file of a chunk would not have fitted in the previous one
+			for (let index = 1; index < chunks.length; index++) {
+				const first_file = collectFiles(root).find(file => file.path_str === chunks[index].files[0])!;
+				assert.ok(chunks[index - 1].bytes + Buffer.byteLength(first_file.content, 'utf-8') > 10000);
+			}
+		});
+
+		test('splits a file too large for a chunk at line boundaries', () => {
+			const lines = Array.from({ length: 200 }, (_, index) => `line ${index + 1}`);
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', chunk_bytes: 1000 });
+
+			const chunks = formatChunks(createFileTree(lines.join('\n')), query);
+
+			const pieces = readPieces(chunks.flatMap(chunk => chunk.files));
+			assert.ok(pieces.length > 1);
+			pieces.forEach((piece, index) => {
+				assert.strictEqual(piece.piece, index + 1);
+				assert.strictEqual(piece.total, pieces.length);
+				assert.strictEqual(piece.first_line, index === 0 ? 1 : pieces[index - 1].last_line + 1);
+			});
+			assert.strictEqual(pieces[pieces.length - 1].last_line, 200);
+			for (const chunk of chunks) {
+				assert.ok(chunk.bytes <= 1000, `${chunk.bytes} bytes`);
+			}
+			const emitted = chunks.flatMap(chunk => chunk.content.split('\n').filter(line => /^line \d+$/.test(line)));
+			assert.deepStrictEqual(emitted, lines);
+		});
+
+		test('splits a single line too long for a chunk', () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', chunk_bytes: 1500 });
+
+			const chunks = formatChunks(createFileTree('~'.repeat(5000)), query);
+
+			assert.ok(chunks.length >= 4);
+			for (const chunk of chunks) {
+				assert.ok(chunk.bytes <= 1500, `${chunk.bytes} bytes`);
+			}
+			assert.ok(readPieces(chunks.flatMap(chunk => chunk.files)).every(piece => piece.first_line === 1 && piece.last_line === 1));
+			assert.strictEqual(chunks.map(chunk => chunk.content.replace(/[^~]/g, '')).join(''), '~'.repeat(5000));
+		});
+
+		test('keeps every chunk within a token limit', () => {
+			const query = createIngestionQuery({
+				local_path: root_path, slug: 'workspace', output_format: OutputFormat.XML, chunk_tokens: 1500, footer: 'Thanks',
+			});
+
+			const chunks = formatChunks(createLargeTree(), query);
+
+			assert.ok(chunks.length > 1);
+			for (const chunk of chunks) {
+				assert.strictEqual(chunk.tokens, getTokenizer(query.tokenizer).countTokens(chunk.content));
+				assert.ok(chunk.tokens <= 1500, `${chunk.tokens} tokens`);
+				assert.ok(chunk.content.startsWith(`<digest_part index="${chunk.part}" total="${chunks.length}" />\n`));
+				assert.ok(chunk.content.endsWith('<footer>\nThanks\n</footer>\n'));
+			}
+		});
+
+		test('rejects chunk sizes too small for the directory structure and unsupported formats', () => {
+			const small_query = createIngestionQuery({ local_path: root_path, slug: 'workspace', chunk_bytes: 100 });
+			const json_query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: OutputFormat.JSON, chunk_bytes: 1000 });
+
+			assert.throws(() => formatChunks(createLargeTree(), small_query), /Chunk size of 100 bytes is too small/);
+			assert.throws(() => formatChunks(createTree(), json_query), /json output format cannot be split into chunks/);
+		});
+	});
+
+	suite('writeDigest', () => {
+		for (const format of [OutputFormat.TEXT, OutputFormat.MARKDOWN]) {
+			test(`writes the same ${format} digest as formatNode`, async () => {
+				const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: format, header: 'Review this.' });
+				const [summary, tree, content] = formatNode(createTree(), query);
+
+				const written = await write(query);
+				assert.strictEqual(written.digest, createDigest(format, summary, tree, content));
+				assert.strictEqual(written.summary.split('\nTokens:')[0], summary.split('\nTokens:')[0]);
+				// Tokens are counted piece by piece, which may differ slightly at the boundaries between pieces
+				assert.ok(Math.abs(readTokens(written.summary) - readTokens(summary)) <= 5);
+			});
+		}
+
+		test('writes the XML summary without the token count', async () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: OutputFormat.XML });
+			const [summary, tree, content] = formatNode(createTree(), query);
+			const summary_without_tokens = summary.split('\nTokens:')[0];
+
+			const written = await write(query);
+			assert.strictEqual(written.digest, createDigest(OutputFormat.XML, summary_without_tokens, tree, content));
+			assert.ok(written.summary.startsWith(summary_without_tokens + '\nTokens: '));
+		});
+
+		test('writes a JSON document equal to createJsonDigest', async () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: OutputFormat.JSON, footer: 'Thanks' });
+
+			const written = await write(query);
+			assert.deepStrictEqual(JSON.parse(written.digest), toJson(createJsonDigest(createTree(), query)));
+			assert.ok(written.digest.endsWith('}\n'));
+		});
+
+		test('writes the JSON document of a single file', async () => {
+			const file = createTree().children[0];
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace', output_format: OutputFormat.JSON });
+
+			const stream = new CollectingStream();
+			await writeDigest(file, query, stream);
+			assert.deepStrictEqual(JSON.parse(stream.chunks.join('')), toJson(createJsonDigest(file, query)));
+		});
+
+		test('stops when the signal is aborted', async () => {
+			const controller = new AbortController();
+			const query = createIngestionQuery({ local_path: root_path, slug: 'workspace' });
+			const stream = new CollectingStream();
+			stream.once('drain', () => controller.abort());
+
+			await assert.rejects(writeDigest(createTree(), query, stream, { signal: controller.signal }), IngestionCancelledError);
+		});
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { expandOutputPath, getChunkFilePath, removeChunkFiles } from '../gitingest/utils/path_utils';
+
+suite('Path Utils Test Suite', () => {
+	suite('expandOutputPath', () => {
+		test('replaces every placeholder', () => {
+			assert.strictEqual(
+				expandOutputPath('digests/${repo}-${date}.txt', { repo: 'user-repo', date: '2025-01-31' }),
+				'digests/user-repo-2025-01-31.txt'
+			);
+			assert.strictEqual(expandOutputPath('${repo}/${repo}', { repo: 'a' }), 'a/a');
+			assert.strictEqual(expandOutputPath('digest.txt', { repo: 'a' }), 'digest.txt');
+		});
+
+		test('keeps values from adding directories', () => {
+			assert.strictEqual(expandOutputPath('${repo}.md', { repo: '../etc/passwd' }), '..-etc-passwd.md');
+			assert.strictEqual(expandOutputPath('${repo}.md', { repo: 'a\\b:c' }), 'a-b-c.md');
+		});
+
+		test('rejects unknown placeholders', () => {
+			assert.throws(() => expandOutputPath('${branch}.txt', { repo: 'a', date: 'b' }), /\$\{branch\}.*\$\{repo\}, \$\{date\}/);
+		});
+	});
+
+	suite('getChunkFilePath', () => {
+		test('inserts the part number before the extension', () => {
+			assert.strictEqual(getChunkFilePath(path.join('out', 'digest.txt'), 7), path.join('out', 'digest.part-007.txt'));
+		});
+	});
+
+	suite('removeChunkFiles', () => {
+		test('removes the parts of the output file in any format and keeps the other files', async () => {
+			const temp_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+			try {
+				const files = ['digest.txt', 'digest.part-001.txt', 'digest.part-003.txt', 'digest.part-002.md', 'digest.part-x.txt', 'other.part-001.txt'];
+				files.forEach(file => fs.writeFileSync(path.join(temp_path, file), ''));
+
+				await removeChunkFiles(path.join(temp_path, 'digest.txt'));
+
+				assert.deepStrictEqual(fs.readdirSync(temp_path).sort(), ['digest.part-x.txt', 'digest.txt', 'other.part-001.txt']);
+			} finally {
+				fs.rmSync(temp_path, { recursive: true, force: true });
+			}
+		});
+
+		test('ignores a missing directory', async () => {
+			await removeChunkFiles(path.join(os.tmpdir(), 'gitingest-missing', 'digest.txt'));
+		});
+	});
+});
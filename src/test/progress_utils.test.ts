@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+
+import { runCommand } from '../gitingest/cloning';
+import { IngestionCancelledError } from '../gitingest/errors/exceptions';
+import { IngestionStage } from '../gitingest/types/ingestion_schema';
+import { describeProgress, parseGitProgress, throwIfCancelled } from '../gitingest/utils/progress_utils';
+
+suite('Progress Utils Test Suite', () => {
+	suite('parseGitProgress', () => {
+		test('reads every update of a chunk', () => {
+			const reports = parseGitProgress(
+				'Cloning into \'repo\'...\nremote: Counting objects: 50% (5/10)\rremote: Counting objects: 100% (10/10), done.\n' +
+				'Receiving objects:   7% (7/100)\rReceiving objects:  45% (45/100), 1.2 MiB | 2.4 MiB/s\r'
+			);
+
+			assert.deepStrictEqual(reports.map(report => report.message), [
+				'Counting objects: 50%',
+				'Counting objects: 100%',
+				'Receiving objects: 7%',
+				'Receiving objects: 45%',
+			]);
+			assert.ok(reports.every(report => report.stage === IngestionStage.CLONING));
+			assert.strictEqual(reports[3].percent, 45);
+		});
+
+		test('ignores lines without a percentage', () => {
+			assert.deepStrictEqual(parseGitProgress('Cloning into \'repo\'...\nremote: Enumerating objects: 10, done.\n'), []);
+		});
+	});
+
+	suite('describeProgress', () => {
+		test('names the stage and the number of files', () => {
+			assert.strictEqual(
+				describeProgress({ stage: IngestionStage.SCANNING, message: 'src/a.ts', files: 12 }),
+				'Scanning (12 files): src/a.ts'
+			);
+			assert.strictEqual(
+				describeProgress({ stage: IngestionStage.CLONING, message: 'Receiving objects: 45%', percent: 45 }),
+				'Cloning: Receiving objects: 45%'
+			);
+		});
+	});
+
+	suite('throwIfCancelled', () => {
+		test('throws once the signal is aborted', () => {
+			const controller = new AbortController();
+			throwIfCancelled(undefined);
+			throwIfCancelled(controller.signal);
+
+			controller.abort();
+			assert.throws(() => throwIfCancelled(controller.signal), IngestionCancelledError);
+		});
+	});
+
+	suite('runCommand', () => {
+		test('kills the process when the signal is aborted', async () => {
+			const controller = new AbortController();
+			const started = Date.now();
+			const command = runCommand(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], { signal: controller.signal });
+			setTimeout(() => controller.abort(), 100);
+
+			await assert.rejects(command, IngestionCancelledError);
+			assert.ok(Date.now() - started < 5000);
+		});
+
+		test('reports the standard error of the process', async () => {
+			const chunks: string[] = [];
+			await runCommand(process.execPath, ['-e', 'process.stderr.write("50%")'], { on_stderr: data => chunks.push(data) });
+			assert.strictEqual(chunks.join(''), '50%');
+		});
+	});
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { parseQuery, parseRemoteRepo } from '../gitingest/query_parsing';
+import { registerGitHost, resetGitHosts } from '../gitingest/utils/git_host_utils';
+
+suite('Query Parsing Test Suite', () => {
+	teardown(() => {
+		resetGitHosts();
+	});
+
+	suite('parseQuery', () => {
+		let temp_path: string;
+
+		setup(() => {
+			temp_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		});
+
+		teardown(() => {
+			fs.rmSync(temp_path, { recursive: true, force: true });
+		});
+
+		test('ingests existing local paths whose name contains a host', async () => {
+			const directory = path.join(temp_path, 'notes-github.com');
+			fs.mkdirSync(directory);
+
+			const query = await parseQuery({ source: directory, max_file_size: 0, from_web: false });
+
+			assert.strictEqual(query.local_path, directory);
+			assert.strictEqual(query.url, undefined);
+		});
+
+		test('treats scheme-less sources as URLs only when they start with a registered host', async () => {
+			registerGitHost('git.corp.example', 'gitea');
+
+			const github = await parseQuery({ source: 'github.com/owner/repo', max_file_size: 0, from_web: false });
+			const registered = await parseQuery({ source: 'GIT.CORP.EXAMPLE/owner/repo', max_file_size: 0, from_web: false });
+			const local = await parseQuery({ source: path.join(temp_path, 'github.com', 'repo'), max_file_size: 0, from_web: false });
+
+			assert.strictEqual(github.url, 'https://github.com/owner/repo');
+			assert.strictEqual(registered.url, 'https://git.corp.example/owner/repo');
+			assert.strictEqual(local.url, undefined);
+			assert.strictEqual(local.local_path, path.join(temp_path, 'github.com', 'repo'));
+		});
+	});
+
+	suite('parseRemoteRepo', () => {
+		test('parses pull request URLs', async () => {
+			const query = await parseRemoteRepo('https://github.com/owner/repo/pull/42/files');
+
+			assert.strictEqual(query.url, 'https://github.com/owner/repo');
+			assert.deepStrictEqual(query.pull_request, { number: 42, ref: 'refs/pull/42/head' });
+			assert.strictEqual(query.branch, undefined);
+			assert.strictEqual(query.subpath, '/');
+		});
+
+		test('parses merge request URLs', async () => {
+			const query = await parseRemoteRepo('https://gitlab.com/group/project/-/merge_requests/7');
+
+			assert.strictEqual(query.url, 'https://gitlab.com/group/project');
+			assert.deepStrictEqual(query.pull_request, { number: 7, ref: 'refs/merge-requests/7/head' });
+		});
+
+		test('parses the URLs of registered self-hosted services with their flavor', async () => {
+			registerGitHost('git.corp.example', 'gitlab');
+
+			const query = await parseRemoteRepo('https://git.corp.example/platform/tools/cli.git');
+
+			assert.strictEqual(query.url, 'https://git.corp.example/platform/tools/cli');
+			assert.strictEqual(query.user_name, 'platform/tools');
+			assert.strictEqual(query.repo_name, 'cli');
+			assert.strictEqual(query.slug, 'platform-tools-cli');
+		});
+
+		test('parses commit URLs without fetching the branches', async () => {
+			registerGitHost('git.corp.example', 'gitea');
+
+			const query = await parseRemoteRepo('https://git.corp.example/owner/repo/src/commit/0123456789abcdef/docs');
+
+			assert.strictEqual(query.commit, '0123456789abcdef');
+			assert.strictEqual(query.subpath, '/docs');
+		});
+
+		test('rejects unregistered hosts', async () => {
+			await assert.rejects(parseRemoteRepo('https://git.corp.example/owner/repo'), /Unsupported Git host: git\.corp\.example/);
+		});
+	});
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+
+import { FileSystemNode, FileSystemNodeType } from '../gitingest/types/filesystem_schema';
+import { summarizeSelection } from '../gitingest/utils/selection_utils';
+
+/**
+ * Build a tree from a list of file paths, with forward slashes.
+ */
+function buildTree(paths: string[]): FileSystemNode {
+	const root = new FileSystemNode('root', FileSystemNodeType.DIRECTORY, '', '/root');
+	for (const path_str of paths) {
+		let parent = root;
+		const segments = path_str.split('/');
+		segments.forEach((segment, index) => {
+			const is_file = index === segments.length - 1;
+			let child = parent.children.find(node => node.name === segment);
+			if (!child) {
+				child = new FileSystemNode(
+					segment,
+					is_file ? FileSystemNodeType.FILE : FileSystemNodeType.DIRECTORY,
+					segments.slice(0, index + 1).join('/'),
+					'/root/' + segments.slice(0, index + 1).join('/')
+				);
+				parent.children.push(child);
+			}
+			parent.file_count += 1;
+			parent = child;
+		});
+		parent.file_count = 1;
+	}
+	return root;
+}
+
+suite('Selection Utils Test Suite', () => {
+	const tree = buildTree(['README.md', 'src/a.ts', 'src/b.ts', 'src/lib/c.ts', 'docs/guide.md', 'docs/api.md']);
+
+	test('a fully checked tree selects the root', () => {
+		const all = new Set(['README.md', 'src/a.ts', 'src/b.ts', 'src/lib/c.ts', 'docs/guide.md', 'docs/api.md']);
+		assert.deepStrictEqual(summarizeSelection(tree, all), {
+			selected_paths: [''],
+			include_patterns: [],
+			ignore_patterns: [],
+		});
+	});
+
+	test('an unchecked tree selects nothing', () => {
+		assert.deepStrictEqual(summarizeSelection(tree, new Set()), {
+			selected_paths: [],
+			include_patterns: [],
+			ignore_patterns: [],
+		});
+	});
+
+	test('fully checked and unchecked directories are described by a single path', () => {
+		const summary = summarizeSelection(tree, new Set(['README.md', 'src/a.ts', 'src/lib/c.ts']));
+		assert.deepStrictEqual(summary.selected_paths, ['README.md', 'src/a.ts', 'src/lib']);
+		assert.deepStrictEqual(summary.include_patterns, ['/README.md', '/src/a.ts', '/src/lib/']);
+		assert.deepStrictEqual(summary.ignore_patterns, ['/src/b.ts', '/docs/']);
+	});
+
+	test('patterns escape special characters of the names', () => {
+		const summary = summarizeSelection(buildTree(['a [1].ts', 'b.ts']), new Set(['a [1].ts']));
+		assert.deepStrictEqual(summary.selected_paths, ['a [1].ts']);
+		assert.deepStrictEqual(summary.include_patterns, ['/a\\ \\[1\\].ts']);
+		assert.deepStrictEqual(summary.ignore_patterns, ['/b.ts']);
+	});
+});
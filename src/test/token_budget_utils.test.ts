@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { buildDocumentTree } from '../gitingest/ingestion';
+import { FileSystemNode } from '../gitingest/types/filesystem_schema';
+import {
+	FileBudgetStatus,
+	MIN_TRUNCATED_TOKENS,
+	collectFiles,
+	omitLowestRanked,
+	planTokenBudget
+} from '../gitingest/utils/token_budget_utils';
+import { getTokenizer } from '../gitingest/utils/tokenizer_utils';
+
+const root_path = path.resolve('/workspace');
+const tokenizer = getTokenizer('approx');
+
+/**
+ * Format the block of a file as a header line followed by the content.
+ */
+function formatBlock(node: FileSystemNode, content: string): string {
+	return `${node.path_str}\n${content}`;
+}
+
+/**
+ * Build an in-memory tree of files with the given contents, and return its files in tree order.
+ */
+function createFiles(contents: Record<string, string>): FileSystemNode[] {
+	return collectFiles(buildDocumentTree('workspace', root_path, Object.entries(contents).map(([path_str, content]) => (
+		{ path_str, path: path.join(root_path, ...path_str.split('/')), content }
+	))));
+}
+
+/**
+ * Return the paths of files, with forward slashes.
+ */
+function paths(files: FileSystemNode[]): string[] {
+	return files.map(file => file.path_str.split(path.sep).join('/'));
+}
+
+suite('Token Budget Utils Test Suite', () => {
+	suite('planTokenBudget', () => {
+		test('includes every file that fits', () => {
+			const files = createFiles({ 'a.ts': 'a'.repeat(40), 'b.ts': 'b'.repeat(40) });
+
+			const plan = planTokenBudget(files, 1000, tokenizer, formatBlock);
+
+			assert.deepStrictEqual(files.map(file => plan.entries.get(file)?.status), [FileBudgetStatus.INCLUDED, FileBudgetStatus.INCLUDED]);
+			assert.strictEqual(plan.used_tokens, tokenizer.countTokens(formatBlock(files[0], files[0].content)) * 2);
+			assert.deepStrictEqual(plan.omitted, []);
+			assert.deepStrictEqual(plan.truncated, []);
+		});
+
+		test('takes README files first, then shallower files, then smaller files', () => {
+			const files = createFiles({
+				'big.ts': 'b'.repeat(400),
+				'small.ts': 's'.repeat(40),
+				'src/small.ts': 's'.repeat(40),
+				'docs/README.md': 'r'.repeat(400),
+			});
+			const tokens = (path_str: string) => {
+				const file = files.find(file => paths([file])[0] === path_str)!;
+				return tokenizer.countTokens(formatBlock(file, file.content));
+			};
+
+			// Room for the README and the small top-level file, not for the big one, and too little to truncate it
+			const plan = planTokenBudget(files, tokens('docs/README.md') + tokens('small.ts') + 10, tokenizer, formatBlock);
+
+			assert.ok(tokens('src/small.ts') > 10);
+			assert.deepStrictEqual(paths(plan.omitted), ['big.ts', 'src/small.ts']);
+			assert.deepStrictEqual(paths(plan.truncated), []);
+			assert.strictEqual(plan.used_tokens, tokens('docs/README.md') + tokens('small.ts'));
+		});
+
+		test('fills the leftover budget with the highest-ranked file that did not fit, cut at a line boundary', () => {
+			const lines = Array.from({ length: 400 }, (_, index) => `line ${index + 1}`);
+			const files = createFiles({ 'a.ts': lines.join('\n'), 'b.ts': lines.join('\n') });
+
+			const plan = planTokenBudget(files, 300, tokenizer, formatBlock);
+
+			const entry = plan.entries.get(files[0])!;
+			assert.strictEqual(entry.status, FileBudgetStatus.TRUNCATED);
+			assert.ok(entry.tokens <= 300);
+			assert.strictEqual(entry.full_tokens, tokenizer.countTokens(formatBlock(files[0], files[0].content)));
+			const match = /\n\n\[\.\.\. truncated to fit the token budget: (\d+) of 400 lines shown \.\.\.\]$/.exec(entry.content);
+			assert.ok(match);
+			const shown = parseInt(match[1], 10);
+			assert.ok(shown > 0 && shown < 400);
+			assert.ok(entry.content.startsWith(lines.slice(0, shown).join('\n') + '\n\n'));
+			assert.deepStrictEqual(paths(plan.truncated), ['a.ts']);
+			assert.deepStrictEqual(paths(plan.omitted), ['b.ts']);
+		});
+
+		test('omits files instead of truncating them when the leftover budget is too small', () => {
+			const files = createFiles({ 'a.ts': 'line\n'.repeat(400) });
+
+			const plan = planTokenBudget(files, MIN_TRUNCATED_TOKENS - 1, tokenizer, formatBlock);
+
+			assert.deepStrictEqual(plan.entries.get(files[0]), {
+				status: FileBudgetStatus.OMITTED,
+				content: '',
+				tokens: 0,
+				full_tokens: tokenizer.countTokens(formatBlock(files[0], files[0].content)),
+			});
+			assert.strictEqual(plan.used_tokens, 0);
+		});
+	});
+
+	suite('omitLowestRanked', () => {
+		test('omits the files from the least to the most valuable', () => {
+			const files = createFiles({
+				'big.ts': 'b'.repeat(400),
+				'small.ts': 's'.repeat(40),
+				'src/small.ts': 's'.repeat(40),
+				'docs/README.md': 'r'.repeat(400),
+			});
+			const plan = planTokenBudget(files, 10000, tokenizer, formatBlock);
+
+			const dropped: string[] = [];
+			while (omitLowestRanked(plan, files)) {
+				dropped.push(...paths(plan.omitted).filter(path_str => !dropped.includes(path_str)));
+			}
+
+			assert.deepStrictEqual(dropped, ['src/small.ts', 'big.ts', 'small.ts', 'docs/README.md']);
+			assert.strictEqual(plan.used_tokens, 0);
+			assert.deepStrictEqual(paths(plan.omitted), paths(files));
+		});
+
+		test('removes omitted files from the truncated ones', () => {
+			const files = createFiles({ 'a.ts': 'line\n'.repeat(400) });
+			const plan = planTokenBudget(files, 300, tokenizer, formatBlock);
+			assert.strictEqual(plan.truncated.length, 1);
+
+			assert.ok(omitLowestRanked(plan, files));
+
+			assert.deepStrictEqual(plan.truncated, []);
+			assert.deepStrictEqual(plan.omitted, files);
+			assert.strictEqual(plan.entries.get(files[0])?.content, '');
+		});
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { DEFAULT_TOKENIZER } from '../gitingest/config';
+import { InvalidTokenizerError } from '../gitingest/errors/exceptions';
+import { applyPatterns, parseQuery } from '../gitingest/query_parsing';
+import { createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { getTokenizer, isKnownTokenizer, listTokenizers } from '../gitingest/utils/tokenizer_utils';
+
+suite('Tokenizer Utils Test Suite', () => {
+	test('registers the bundled encodings and the approximation', () => {
+		assert.deepStrictEqual(listTokenizers(), ['o200k_base', 'cl100k_base', 'p50k_base', 'r50k_base', 'approx']);
+		assert.ok(isKnownTokenizer(DEFAULT_TOKENIZER));
+		assert.ok(!isKnownTokenizer('gpt2'));
+	});
+
+	test('offers the registered tokenizers in the extension settings', () => {
+		const package_json = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf-8'));
+		const setting = package_json.contributes.configuration.properties['gitingest.tokenizer'];
+
+		assert.deepStrictEqual(setting.enum, listTokenizers());
+		assert.strictEqual(setting.default, DEFAULT_TOKENIZER);
+	});
+
+	test('selects the encoding by name and reuses its instance', () => {
+		for (const name of listTokenizers()) {
+			const tokenizer = getTokenizer(name);
+
+			assert.strictEqual(tokenizer.name, name);
+			assert.strictEqual(getTokenizer(name), tokenizer);
+		}
+	});
+
+	test('counts exact tokens with the BPE encodings', () => {
+		for (const name of ['o200k_base', 'cl100k_base', 'p50k_base', 'r50k_base']) {
+			assert.strictEqual(getTokenizer(name).countTokens(''), 0);
+			assert.strictEqual(getTokenizer(name).countTokens('hello world'), 2);
+		}
+		// Vocabularies differ: long runs of spaces are merged by the newer encodings only
+		assert.ok(getTokenizer('o200k_base').countTokens(' '.repeat(64)) < getTokenizer('r50k_base').countTokens(' '.repeat(64)));
+	});
+
+	test('counts special tokens as plain text', () => {
+		assert.ok(getTokenizer('o200k_base').countTokens('<|endoftext|>') > 1);
+		assert.ok(getTokenizer('cl100k_base').countTokens('a <|fim_prefix|> b') > 3);
+	});
+
+	test('approximates four characters per token', () => {
+		const tokenizer = getTokenizer('approx');
+
+		assert.strictEqual(tokenizer.countTokens(''), 0);
+		assert.strictEqual(tokenizer.countTokens('abcd'), 1);
+		assert.strictEqual(tokenizer.countTokens('abcde'), 2);
+		assert.strictEqual(tokenizer.countTokens('x'.repeat(4000)), 1000);
+	});
+
+	test('rejects unknown tokenizers with the list of available ones', async () => {
+		const message = `Unknown tokenizer 'gpt2'. Available tokenizers: ${listTokenizers().join(', ')}`;
+		const query = createIngestionQuery({ local_path: '/repo', slug: 'repo' });
+
+		assert.throws(() => getTokenizer('gpt2'), (error: Error) => error instanceof InvalidTokenizerError && error.message === message);
+		// Settings of the extension
+		assert.throws(() => applyPatterns(query, { tokenizer: 'gpt2' }), InvalidTokenizerError);
+		// Command line options
+		await assert.rejects(parseQuery({ source: '.', max_file_size: 0, from_web: false, tokenizer: 'gpt2' }), InvalidTokenizerError);
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { excludeIgnoredPaths, isRelevantChange } from '../gitingest/utils/watch_utils';
+
+suite('Watch Utils Test Suite', () => {
+	const root_path = path.resolve('/workspace');
+	const query = createIngestionQuery({
+		local_path: root_path,
+		ignore_patterns: new Set(['node_modules/**', '*.log', '.git']),
+	});
+	const ignored_paths = new Set([path.join(root_path, 'digest.txt')]);
+
+	test('counts changes to ingested files', () => {
+		assert.ok(isRelevantChange(query, path.join('src', 'app.ts'), ignored_paths));
+	});
+
+	test('skips changes matching the ignore patterns or the ignored paths', () => {
+		assert.ok(!isRelevantChange(query, path.join('node_modules', 'a', 'index.js'), ignored_paths));
+		assert.ok(!isRelevantChange(query, 'debug.log', ignored_paths));
+		assert.ok(!isRelevantChange(query, 'digest.txt', ignored_paths));
+		assert.ok(!isRelevantChange(query, path.join('.git', 'index'), ignored_paths));
+	});
+
+	test('always counts changes to the files deciding what is ingested', () => {
+		assert.ok(isRelevantChange(query, '.gitingest', ignored_paths));
+		assert.ok(isRelevantChange(query, path.join('node_modules', '.gitignore'), ignored_paths));
+		assert.ok(isRelevantChange(query, path.join('.git', 'info', 'exclude'), ignored_paths));
+	});
+
+	test('excludes the ignored paths inside the directory from the ingestion', () => {
+		const run_query = createIngestionQuery({ local_path: root_path, ignore_patterns: new Set(['*.log']) });
+		excludeIgnoredPaths(run_query, new Set([path.join(root_path, 'out', 'digest [v1].md'), path.resolve('/elsewhere/digest.md')]));
+
+		assert.deepStrictEqual(Array.from(run_query.ignore_patterns), ['*.log', '/out/digest\\ \\[v1\\].md']);
+	});
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { IngestionQuery, createIngestionQuery } from '../gitingest/types/ingestion_schema';
+import { JSON_DIGEST_SCHEMA_VERSION } from '../gitingest/types/json_digest_schema';
+import { getTempOutputPath } from '../gitingest/utils/path_utils';
+import { watchQuery, writeDigestFile } from '../gitingest/watching';
+
+/**
+ * Resolve once the condition holds, checking it every few milliseconds.
+ */
+async function waitFor(condition: () => boolean, timeout_ms: number = 5000): Promise<void> {
+	const started = Date.now();
+	while (!condition()) {
+		if (Date.now() - started > timeout_ms) {
+			throw new Error('Timed out');
+		}
+		await new Promise(resolve => setTimeout(resolve, 20));
+	}
+}
+
+suite('Watching Test Suite', () => {
+	let root_path: string;
+	let output_path: string;
+
+	setup(() => {
+		root_path = fs.mkdtempSync(path.join(os.tmpdir(), 'gitingest-'));
+		output_path = path.join(root_path, 'digest.txt');
+		fs.writeFileSync(path.join(root_path, 'a.txt'), 'first');
+		fs.writeFileSync(path.join(root_path, 'b.txt'), 'second');
+	});
+
+	teardown(() => {
+		fs.rmSync(root_path, { recursive: true, force: true });
+	});
+
+	suite('writeDigestFile', () => {
+		test('replaces the output file with the complete digest', async () => {
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo' });
+			fs.writeFileSync(output_path, 'stale');
+
+			const summary = await writeDigestFile(query, output_path);
+			const digest = fs.readFileSync(output_path, 'utf-8');
+			assert.ok(summary.includes('Files analyzed: 2'));
+			assert.ok(digest.includes('first') && digest.includes('second'));
+			assert.ok(!fs.existsSync(getTempOutputPath(output_path)));
+		});
+
+		test('chooses the output path once the root .gitingest file is applied', async () => {
+			fs.writeFileSync(path.join(root_path, '.gitingest'), '[config]\noutput_format = "json"\n');
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo' });
+
+			await writeDigestFile(query, run_query => path.join(root_path, `digest.${run_query.output_format}`));
+
+			const digest = JSON.parse(fs.readFileSync(path.join(root_path, 'digest.json'), 'utf-8'));
+			assert.strictEqual(digest.schema_version, JSON_DIGEST_SCHEMA_VERSION);
+			assert.ok(!fs.existsSync(output_path));
+		});
+	});
+
+	suite('watchQuery', () => {
+		test('ingests again after relevant changes only', async () => {
+			const controller = new AbortController();
+			const queries: IngestionQuery[] = [];
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo', ignore_patterns: new Set(['*.log']) });
+
+			const watching = watchQuery(query, async run_query => {
+				queries.push(run_query);
+				return writeDigestFile(run_query, output_path);
+			}, { signal: controller.signal, debounce_ms: 50, ignored_paths: [output_path, getTempOutputPath(output_path)] });
+
+			try {
+				await waitFor(() => queries.length === 1);
+				// Give the watcher time to report the writes of the first digest, which are ignored
+				await new Promise(resolve => setTimeout(resolve, 200));
+				fs.writeFileSync(path.join(root_path, 'debug.log'), 'ignored');
+				await new Promise(resolve => setTimeout(resolve, 200));
+				assert.strictEqual(queries.length, 1);
+
+				fs.writeFileSync(path.join(root_path, 'a.txt'), 'changed');
+				await waitFor(() => queries.length === 2);
+				await waitFor(() => fs.readFileSync(output_path, 'utf-8').includes('changed'));
+			} finally {
+				controller.abort();
+				await watching;
+			}
+		});
+
+		test('re-evaluates the .gitingest file on each ingestion', async () => {
+			const controller = new AbortController();
+			const digests: string[] = [];
+			const query = createIngestionQuery({ local_path: root_path, slug: 'repo' });
+
+			const watching = watchQuery(query, async run_query => {
+				await writeDigestFile(run_query, output_path);
+				digests.push(fs.readFileSync(output_path, 'utf-8'));
+				return '';
+			}, { signal: controller.signal, debounce_ms: 50, ignored_paths: [output_path, getTempOutputPath(output_path)] });
+
+			try {
+				await waitFor(() => digests.length === 1);
+				assert.ok(digests[0].includes('second'));
+
+				fs.writeFileSync(path.join(root_path, '.gitingest'), '[config]\nignore_patterns = ["b.txt"]\n');
+				await waitFor(() => digests.length > 1 && !digests[digests.length - 1].includes('second'));
+
+				fs.rmSync(path.join(root_path, '.gitingest'));
+				await waitFor(() => digests[digests.length - 1].includes('second'));
+			} finally {
+				controller.abort();
+				await watching;
+			}
+		});
+	});
+});